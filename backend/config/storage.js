@@ -0,0 +1,32 @@
+import { createLocalDiskStorage } from '../storage/localDisk.js';
+import { createS3Storage } from '../storage/s3.js';
+
+// Where attachments and finished exports are kept: `local` (default) or `s3`.
+// Every storage has put(key, data, { contentType }), get(key) and remove(keys).
+const driver = process.env.STORAGE_DRIVER || 'local';
+
+// Locally each kind of file has its own directory; in S3 they share the
+// bucket, told apart by `keyPrefix`
+const createStorage = ({ directory, keyPrefix = '' }) => {
+  if (driver === 's3') {
+    return createS3Storage({
+      bucket: process.env.S3_BUCKET,
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      keyPrefix
+    });
+  }
+
+  if (driver === 'local') {
+    return createLocalDiskStorage({ root: directory });
+  }
+
+  throw new Error(`Unknown STORAGE_DRIVER "${driver}"; use "local" or "s3"`);
+};
+
+export const attachmentStorage = createStorage({ directory: process.env.ATTACHMENTS_DIR || 'uploads' });
+
+export const exportStorage = createStorage({ directory: process.env.EXPORTS_DIR || 'exports', keyPrefix: 'exports/' });
\ No newline at end of file
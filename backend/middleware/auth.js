@@ -1,7 +1,10 @@
-import jwt from 'jsonwebtoken';
-import { supabaseAdmin } from '../config/database.js';
-
-const JWT_SECRET = process.env.JWT_SECRET || 'your-jwt-secret';
+import {
+  resolveShareLink,
+  SHARE_TOKEN_HEADER,
+  SHARE_PASSWORD_HEADER,
+  SHARE_ACCESS_HEADER
+} from '../utils/shareLinks.js';
+import { getSessionUser } from '../utils/sessions.js';
 
 export const authenticateToken = async (req, res, next) => {
   const authHeader = req.headers['authorization'];
@@ -12,52 +15,85 @@ export const authenticateToken = async (req, res, next) => {
   }
 
   try {
-    const decoded = jwt.verify(token, JWT_SECRET);
-    
-    // Verify user still exists in database
-    const { data: user, error } = await supabaseAdmin
-      .from('users')
-      .select('*')
-      .eq('id', decoded.userId)
-      .single();
-
-    if (error || !user) {
+    // Verify the session is still active and the user still exists
+    const session = await getSessionUser(token);
+
+    if (!session) {
       return res.status(401).json({ error: 'Invalid token' });
     }
 
-    req.user = user;
+    req.user = session.user;
+    req.sessionId = session.sessionId;
     next();
   } catch (error) {
-    return res.status(403).json({ error: 'Invalid or expired token' });
+    // 401 tells the client to refresh its access token
+    return res.status(401).json({ error: 'Invalid or expired token' });
   }
 };
 
+// Sharing waits until the user has verified their email address; use after
+// authenticateToken
+export const requireVerifiedEmail = (req, res, next) => {
+  if (!req.user.email_verified_at) {
+    return res.status(403).json({ error: 'Verify your email address to share documents' });
+  }
+  next();
+};
+
+// Resolve the share link sent with a request, if any. req.shareLink is set
+// when the link is usable; otherwise req.shareLinkError says why it is not.
+const attachShareLink = async (req) => {
+  req.shareLink = null;
+  req.shareLinkError = null;
+
+  const token = req.headers[SHARE_TOKEN_HEADER];
+  if (!token) return;
+
+  const { link, error } = await resolveShareLink(token, {
+    password: req.headers[SHARE_PASSWORD_HEADER],
+    access: req.headers[SHARE_ACCESS_HEADER]
+  });
+  req.shareLink = link;
+  req.shareLinkError = error;
+};
+
+// Signed-in user and/or share link; neither is required
 export const optionalAuth = async (req, res, next) => {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1];
 
+  try {
+    await attachShareLink(req);
+  } catch (error) {
+    req.shareLink = null;
+  }
+
   if (!token) {
     req.user = null;
     return next();
   }
 
-  try {
-    const decoded = jwt.verify(token, JWT_SECRET);
-    
-    const { data: user, error } = await supabaseAdmin
-      .from('users')
-      .select('*')
-      .eq('id', decoded.userId)
-      .single();
-
-    if (!error && user) {
-      req.user = user;
-    } else {
-      req.user = null;
-    }
-  } catch (error) {
-    req.user = null;
+  // A token that is sent must be valid, so that the client refreshes an
+  // expired one instead of being served as a guest
+  const session = await getSessionUser(token).catch(() => null);
+
+  if (!session) {
+    return res.status(401).json({ error: 'Invalid or expired token' });
   }
 
+  req.user = session.user;
+  req.sessionId = session.sessionId;
   next();
+};
+
+// Resolve a user from a raw JWT outside of the request cycle (e.g. WebSockets)
+export const getUserFromToken = async (token) => {
+  if (!token) return null;
+
+  try {
+    const session = await getSessionUser(token);
+    return session?.user ?? null;
+  } catch (error) {
+    return null;
+  }
 };
\ No newline at end of file
@@ -0,0 +1,211 @@
+import { Hocuspocus } from '@hocuspocus/server';
+import * as Y from 'yjs';
+import { supabaseAdmin } from '../config/database.js';
+import { getUserFromToken } from '../middleware/auth.js';
+import { getDocumentAccess, canEdit } from '../utils/permissions.js';
+import { processMentions } from '../utils/mentions.js';
+import { notifyDocumentWatchers } from '../utils/notifications.js';
+import {
+  htmlToYdoc,
+  ydocToHTML,
+  replaceYdocContent,
+  encodeYdocState,
+  applyYdocState
+} from '../utils/editorContent.js';
+
+// Collaborative edits are persisted every few seconds, but a version row is
+// only written this often (or when the last collaborator leaves).
+const VERSION_INTERVAL = 5 * 60 * 1000;
+
+const lastVersionAt = new Map();
+
+// Writes of the collaborative content that may lose to concurrent saves
+// before a store gives up
+const MAX_STORE_ATTEMPTS = 3;
+
+const persistState = async (documentId, ydoc) => {
+  const { error } = await supabaseAdmin
+    .from('document_collab_states')
+    .upsert({
+      document_id: documentId,
+      state: encodeYdocState(ydoc),
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'document_id' });
+
+  if (error) throw error;
+};
+
+export const hocuspocus = new Hocuspocus({
+  debounce: 2000,
+  maxDebounce: 10000,
+  quiet: true,
+
+  async onAuthenticate({ token, documentName, connection }) {
+    const user = await getUserFromToken(token);
+    if (!user) {
+      throw new Error('Authentication required');
+    }
+
+    const { document, permission } = await getDocumentAccess(documentName, user);
+    if (!document || !permission) {
+      throw new Error('Access denied');
+    }
+
+    // Viewers follow along live but their updates are rejected by the server
+    connection.readOnly = !canEdit(permission);
+
+    return { user, permission };
+  },
+
+  async onLoadDocument({ document: ydoc, documentName }) {
+    const { data: stored } = await supabaseAdmin
+      .from('document_collab_states')
+      .select('state')
+      .eq('document_id', documentName)
+      .single();
+
+    if (stored) {
+      applyYdocState(ydoc, stored.state);
+      return;
+    }
+
+    const { data: document, error } = await supabaseAdmin
+      .from('documents')
+      .select('content')
+      .eq('id', documentName)
+      .single();
+
+    if (error || !document) {
+      throw new Error('Document not found');
+    }
+
+    // First collaborative session: seed the shared state from the stored HTML
+    // and persist it right away so every later session starts from the same
+    // Yjs history.
+    Y.applyUpdate(ydoc, Y.encodeStateAsUpdate(htmlToYdoc(document.content)));
+    await persistState(documentName, ydoc);
+  },
+
+  async onStoreDocument({ document: ydoc, documentName, context }) {
+    const now = Date.now();
+    const createVersion =
+      ydoc.getConnectionsCount() === 0 ||
+      now - (lastVersionAt.get(documentName) || 0) >= VERSION_INTERVAL;
+
+    // Matching the version read makes the write fail when a REST save landed
+    // in between. That save has been pushed into the Y.Doc by then (see
+    // syncCollaborationContent), so the content is taken again and retried.
+    let document = null;
+    let content = null;
+    for (let attempt = 1; !document; attempt++) {
+      const { data: current, error: docError } = await supabaseAdmin
+        .from('documents')
+        .select('title, content, version')
+        .eq('id', documentName)
+        .single();
+
+      if (docError || !current) return;
+
+      content = ydocToHTML(ydoc);
+
+      if (content === current.content) {
+        await persistState(documentName, ydoc);
+        return;
+      }
+
+      const { data: stored, error } = await supabaseAdmin
+        .from('documents')
+        .update({
+          content,
+          updated_at: new Date(now).toISOString(),
+          // Every change moves the version on, so saves based on an older
+          // copy are caught (see PUT /api/documents/:id)
+          version: current.version + 1
+        })
+        .match({ id: documentName, version: current.version })
+        .select('id')
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (stored) {
+        document = current;
+      } else if (attempt >= MAX_STORE_ATTEMPTS) {
+        throw new Error(`Document ${documentName} kept changing while being stored`);
+      }
+    }
+
+    await persistState(documentName, ydoc);
+
+    if (context.user) {
+      await processMentions({
+        documentId: documentName,
+        title: document.title,
+        previousContent: document.content,
+        content,
+        mentionedBy: context.user
+      });
+    }
+
+    if (createVersion) {
+      lastVersionAt.set(documentName, now);
+
+      await supabaseAdmin
+        .from('document_versions')
+        .insert({
+          document_id: documentName,
+          content,
+          title: document.title,
+          version_number: document.version + 1,
+          created_by: context.user?.id,
+          change_summary: 'Collaborative edit'
+        });
+
+      if (context.user) {
+        await notifyDocumentWatchers({
+          documentId: documentName,
+          title: document.title,
+          versionNumber: document.version + 1,
+          actor: context.user
+        });
+      }
+    }
+  },
+
+  async afterUnloadDocument({ documentName }) {
+    lastVersionAt.delete(documentName);
+  }
+});
+
+// Push content written through the REST API (saves, restores) into a live
+// collaboration session so connected editors do not overwrite it.
+export const syncCollaborationContent = async (documentId, html) => {
+  const live = hocuspocus.documents.get(documentId);
+
+  if (live) {
+    replaceYdocContent(live, html);
+    await persistState(documentId, live);
+    return;
+  }
+
+  // Nobody is connected: update the stored state rather than reseed it, as
+  // browsers keep their own copy of it and would merge a reseeded one twice
+  const { data: stored, error } = await supabaseAdmin
+    .from('document_collab_states')
+    .select('state')
+    .eq('document_id', documentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!stored) return;
+
+  const ydoc = new Y.Doc();
+  applyYdocState(ydoc, stored.state);
+  replaceYdocContent(ydoc, html);
+  await persistState(documentId, ydoc);
+  ydoc.destroy();
+};
+
+export const handleCollaborationConnection = (ws, request) => {
+  hocuspocus.handleConnection(ws, request);
+};
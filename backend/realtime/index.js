@@ -0,0 +1,25 @@
+import { WebSocketServer } from 'ws';
+import { handleCollaborationConnection } from './collaboration.js';
+import { handlePresenceConnection } from './presence.js';
+
+// WebSocket endpoints share the HTTP server with the REST API
+const handlers = {
+  '/collaboration': handleCollaborationConnection,
+  '/presence': handlePresenceConnection
+};
+
+export const attachRealtime = (server) => {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (request, socket, head) => {
+    const { pathname } = new URL(request.url, 'http://localhost');
+    const handler = handlers[pathname];
+
+    if (!handler) {
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(request, socket, head, (ws) => handler(ws, request));
+  });
+};
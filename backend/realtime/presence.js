@@ -0,0 +1,144 @@
+import { getUserFromToken } from '../middleware/auth.js';
+import { getDocumentAccess, canEdit } from '../utils/permissions.js';
+
+const HEARTBEAT_INTERVAL = 30000;
+
+// documentId -> Map<socket, member>
+const rooms = new Map();
+
+const send = (ws, message) => {
+  if (ws.readyState === ws.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+};
+
+const broadcast = (documentId) => {
+  const room = rooms.get(documentId);
+  if (!room) return;
+
+  // One entry per user even with several tabs open; editing wins over viewing
+  const users = new Map();
+  for (const member of room.values()) {
+    const existing = users.get(member.id);
+    if (!existing || member.mode === 'editing') {
+      users.set(member.id, member);
+    }
+  }
+
+  const message = {
+    type: 'presence',
+    users: [...users.values()].map(({ id, firstName, lastName, mode }) => ({
+      id,
+      firstName,
+      lastName,
+      mode
+    }))
+  };
+
+  for (const ws of room.keys()) {
+    send(ws, message);
+  }
+};
+
+const leave = (ws, documentId) => {
+  const room = rooms.get(documentId);
+  if (!room) return;
+
+  room.delete(ws);
+  if (room.size === 0) {
+    rooms.delete(documentId);
+  } else {
+    broadcast(documentId);
+  }
+};
+
+export const handlePresenceConnection = (ws) => {
+  let member = null;
+  let documentId = null;
+
+  ws.isAlive = true;
+  ws.on('pong', () => {
+    ws.isAlive = true;
+  });
+
+  ws.on('message', async (raw) => {
+    let message;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch (error) {
+      return;
+    }
+
+    if (message.type === 'join' && !member) {
+      // Same access rules as GET /api/documents/:id, but a user is required
+      let user;
+      let permission;
+      try {
+        user = await getUserFromToken(message.token);
+        ({ permission } = user
+          ? await getDocumentAccess(message.documentId, user)
+          : { permission: null });
+      } catch (error) {
+        // Database errors; the client reconnects after a while
+        console.error('Presence access check failed:', error);
+        send(ws, { type: 'error', error: 'Failed to join document' });
+        ws.close(1011, 'Failed to join document');
+        return;
+      }
+
+      // The socket may have closed while the access check was running
+      if (ws.readyState !== ws.OPEN) return;
+
+      if (!user || !permission) {
+        send(ws, { type: 'error', error: 'Access denied' });
+        ws.close(4403, 'Access denied');
+        return;
+      }
+
+      documentId = message.documentId;
+      member = {
+        id: user.id,
+        firstName: user.first_name,
+        lastName: user.last_name,
+        canEdit: canEdit(permission),
+        mode: 'viewing'
+      };
+      member.mode = message.mode === 'editing' && member.canEdit ? 'editing' : 'viewing';
+
+      if (!rooms.has(documentId)) {
+        rooms.set(documentId, new Map());
+      }
+      rooms.get(documentId).set(ws, member);
+      broadcast(documentId);
+      return;
+    }
+
+    if (message.type === 'mode' && member) {
+      member.mode = message.mode === 'editing' && member.canEdit ? 'editing' : 'viewing';
+      broadcast(documentId);
+    }
+  });
+
+  ws.on('close', () => {
+    if (documentId) {
+      leave(ws, documentId);
+    }
+  });
+};
+
+// Drop sockets that stopped answering pings so stale avatars disappear
+const heartbeat = setInterval(() => {
+  for (const [documentId, room] of rooms) {
+    for (const ws of room.keys()) {
+      if (!ws.isAlive) {
+        ws.terminate();
+        leave(ws, documentId);
+        continue;
+      }
+      ws.isAlive = false;
+      ws.ping();
+    }
+  }
+}, HEARTBEAT_INTERVAL);
+
+heartbeat.unref();
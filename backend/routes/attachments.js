@@ -0,0 +1,112 @@
+import express from 'express';
+import { z } from 'zod';
+import { supabaseAdmin } from '../config/database.js';
+import { optionalAuth } from '../middleware/auth.js';
+import { canEdit, getDocumentAccess } from '../utils/permissions.js';
+import { attachmentUrl, isInlineType, readAttachment, storeAttachment } from '../utils/attachments.js';
+
+const router = express.Router();
+
+const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+
+// Validation schemas
+const uploadSchema = z.object({
+  documentId: z.string().uuid(),
+  filename: z.string().trim().min(1).max(255)
+});
+
+// The request body is the file itself, so uploads are not bound by the JSON
+// body limit
+const readFileBody = (req, res, next) => {
+  express.raw({ type: () => true, limit: MAX_ATTACHMENT_SIZE })(req, res, (error) => {
+    if (error) {
+      return error.type === 'entity.too.large'
+        ? res.status(413).json({ error: 'Attachments can be at most 25 MB' })
+        : res.status(400).json({ error: 'Could not read the uploaded file' });
+    }
+    next();
+  });
+};
+
+// Keep the name readable but free of path separators and control characters
+const cleanFilename = (filename) => filename.replace(/[\\/\u0000-\u001f\u007f]/g, '_');
+
+// Upload a file to a document (?documentId=&filename=, the file as the body).
+// Needs edit access, by account or through an edit share link.
+router.post('/', optionalAuth, readFileBody, async (req, res) => {
+  try {
+    const { documentId, filename } = uploadSchema.parse(req.query);
+
+    const { document, permission } = await getDocumentAccess(documentId, req.user, { shareLink: req.shareLink });
+    if (!document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+    if (!canEdit(permission)) {
+      return req.user || req.shareLink
+        ? res.status(403).json({ error: 'Edit permission required' })
+        : res.status(401).json({ error: req.shareLinkError || 'Authentication required' });
+    }
+
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ error: 'The file is empty' });
+    }
+
+    const attachment = await storeAttachment({
+      documentId,
+      filename: cleanFilename(filename),
+      data: req.body,
+      userId: req.user?.id || null
+    });
+
+    res.status(201).json({ ...attachment, url: attachmentUrl(attachment.id) });
+  } catch (error) {
+    console.error('Error uploading attachment:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to upload attachment' });
+  }
+});
+
+// Download an attachment. Anyone who can view its document may read it,
+// including through a share link.
+router.get('/:id', optionalAuth, async (req, res) => {
+  try {
+    const { data: attachment } = await supabaseAdmin
+      .from('attachments')
+      .select('id, document_id, filename, content_type, storage_path')
+      .eq('id', req.params.id)
+      .single();
+
+    if (!attachment) {
+      return res.status(404).json({ error: 'Attachment not found' });
+    }
+
+    const { permission } = await getDocumentAccess(attachment.document_id, req.user, { shareLink: req.shareLink });
+    if (!permission) {
+      return req.user
+        ? res.status(403).json({ error: 'Access denied' })
+        : res.status(401).json({ error: req.shareLinkError || 'Authentication required' });
+    }
+
+    const file = await readAttachment(attachment);
+    if (!file) {
+      return res.status(404).json({ error: 'Attachment not found' });
+    }
+
+    const disposition = isInlineType(attachment.content_type) ? 'inline' : 'attachment';
+
+    res.set({
+      'Content-Type': attachment.content_type,
+      'Content-Length': file.length,
+      'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`,
+      'Cache-Control': 'private, max-age=3600'
+    });
+    res.send(file);
+  } catch (error) {
+    console.error('Error fetching attachment:', error);
+    res.status(500).json({ error: 'Failed to fetch attachment' });
+  }
+});
+
+export default router;
\ No newline at end of file
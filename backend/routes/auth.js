@@ -4,7 +4,15 @@ import jwt from 'jsonwebtoken';
 import { z } from 'zod';
 import { supabaseAdmin } from '../config/database.js';
 import { authenticateToken } from '../middleware/auth.js';
-import { sendPasswordResetEmail } from '../utils/email.js';
+import { sendPasswordResetEmail, sendVerificationEmail } from '../utils/email.js';
+import {
+  SESSION_FIELDS,
+  createSession,
+  rotateSession,
+  revokeSession,
+  revokeSessionByToken,
+  revokeAllSessions
+} from '../utils/sessions.js';
 
 const router = express.Router();
 const JWT_SECRET = process.env.JWT_SECRET || 'your-jwt-secret';
@@ -22,6 +30,49 @@ const loginSchema = z.object({
   password: z.string().min(1)
 });
 
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1)
+});
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1)
+});
+
+// Verification links stay valid this long; a new one can be requested once a minute
+const VERIFICATION_TTL = 24 * 60 * 60 * 1000;
+const VERIFICATION_RESEND_INTERVAL = 60 * 1000;
+
+const formatUser = (user) => ({
+  id: user.id,
+  email: user.email,
+  firstName: user.first_name,
+  lastName: user.last_name,
+  createdAt: user.created_at,
+  emailVerified: !!user.email_verified_at
+});
+
+// Email the user a new verification link, replacing any sent before
+const sendVerification = async (user) => {
+  const verificationToken = jwt.sign({ userId: user.id }, JWT_SECRET, { expiresIn: '24h' });
+
+  await supabaseAdmin
+    .from('email_verifications')
+    .delete()
+    .eq('user_id', user.id);
+
+  const { error } = await supabaseAdmin
+    .from('email_verifications')
+    .insert({
+      user_id: user.id,
+      token: verificationToken,
+      expires_at: new Date(Date.now() + VERIFICATION_TTL).toISOString()
+    });
+
+  if (error) throw error;
+
+  await sendVerificationEmail(user.email, user.first_name, verificationToken);
+};
+
 // Register
 router.post('/register', async (req, res) => {
   try {
@@ -50,25 +101,22 @@ router.post('/register', async (req, res) => {
         first_name: firstName,
         last_name: lastName
       })
-      .select('id, email, first_name, last_name, created_at')
+      .select('id, email, first_name, last_name, created_at, email_verified_at')
       .single();
 
     if (error) {
       throw error;
     }
 
-    // Generate JWT
-    const token = jwt.sign({ userId: user.id }, JWT_SECRET, { expiresIn: '7d' });
+    // The account works right away; sharing waits for the address to be verified
+    await sendVerification(user).catch(error => console.error('Error sending verification email:', error));
+
+    // Start a session
+    const tokens = await createSession(user.id, req);
 
     res.status(201).json({
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.first_name,
-        lastName: user.last_name,
-        createdAt: user.created_at
-      },
-      token
+      user: formatUser(user),
+      ...tokens
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -106,18 +154,12 @@ router.post('/login', async (req, res) => {
       .update({ last_login: new Date().toISOString() })
       .eq('id', user.id);
 
-    // Generate JWT
-    const token = jwt.sign({ userId: user.id }, JWT_SECRET, { expiresIn: '7d' });
+    // Start a session
+    const tokens = await createSession(user.id, req);
 
     res.json({
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.first_name,
-        lastName: user.last_name,
-        createdAt: user.created_at
-      },
-      token
+      user: formatUser(user),
+      ...tokens
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -129,15 +171,170 @@ router.post('/login', async (req, res) => {
 
 // Get current user
 router.get('/me', authenticateToken, (req, res) => {
-  res.json({
-    user: {
-      id: req.user.id,
-      email: req.user.email,
-      firstName: req.user.first_name,
-      lastName: req.user.last_name,
-      createdAt: req.user.created_at
+  res.json({ user: formatUser(req.user) });
+});
+
+// Confirm the user's email address with the token from a verification email
+router.post('/verify-email', async (req, res) => {
+  try {
+    const { token } = verifyEmailSchema.parse(req.body);
+
+    let decoded;
+    try {
+      decoded = jwt.verify(token, JWT_SECRET);
+    } catch (error) {
+      return res.status(400).json({ error: 'Invalid or expired verification link' });
+    }
+
+    const { data: verification } = await supabaseAdmin
+      .from('email_verifications')
+      .select('id')
+      .eq('token', token)
+      .eq('user_id', decoded.userId)
+      .gte('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (!verification) {
+      // Links are removed once used, so opening one again finds a verified user
+      const { data: user } = await supabaseAdmin
+        .from('users')
+        .select('*')
+        .eq('id', decoded.userId)
+        .maybeSingle();
+
+      if (user?.email_verified_at) {
+        return res.json({ message: 'Email already verified', user: formatUser(user) });
+      }
+      return res.status(400).json({ error: 'Invalid or expired verification link' });
+    }
+
+    const { data: user, error } = await supabaseAdmin
+      .from('users')
+      .update({ email_verified_at: new Date().toISOString() })
+      .eq('id', decoded.userId)
+      .select('*')
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    await supabaseAdmin
+      .from('email_verifications')
+      .delete()
+      .eq('user_id', user.id);
+
+    res.json({ message: 'Email verified', user: formatUser(user) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Verify email error:', error);
+    res.status(500).json({ error: 'Failed to verify email' });
+  }
+});
+
+// Send the current user a new verification email
+router.post('/resend-verification', authenticateToken, async (req, res) => {
+  try {
+    if (req.user.email_verified_at) {
+      return res.status(400).json({ error: 'Email already verified' });
+    }
+
+    const { data: latest } = await supabaseAdmin
+      .from('email_verifications')
+      .select('created_at')
+      .eq('user_id', req.user.id)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latest && Date.now() - new Date(latest.created_at).getTime() < VERIFICATION_RESEND_INTERVAL) {
+      return res.status(429).json({ error: 'Please wait a minute before requesting another email' });
     }
-  });
+
+    await sendVerification(req.user);
+
+    res.json({ message: `Verification email sent to ${req.user.email}` });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({ error: 'Failed to send verification email' });
+  }
+});
+
+// Trade a refresh token for a new access and refresh token
+router.post('/refresh', async (req, res) => {
+  try {
+    const { refreshToken } = refreshSchema.parse(req.body);
+
+    const tokens = await rotateSession(refreshToken, req);
+    if (!tokens) {
+      return res.status(401).json({ error: 'Session expired' });
+    }
+
+    res.json(tokens);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Refresh session error:', error);
+    res.status(500).json({ error: 'Failed to refresh session' });
+  }
+});
+
+// Sign out, ending the session of the refresh token
+router.post('/logout', async (req, res) => {
+  try {
+    const { refreshToken } = refreshSchema.parse(req.body);
+
+    await revokeSessionByToken(refreshToken);
+
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Failed to log out' });
+  }
+});
+
+// List the user's active sessions
+router.get('/sessions', authenticateToken, async (req, res) => {
+  try {
+    const { data: sessions, error } = await supabaseAdmin
+      .from('sessions')
+      .select(SESSION_FIELDS)
+      .eq('user_id', req.user.id)
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('last_seen_at', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    res.json(sessions.map(session => ({ ...session, current: session.id === req.sessionId })));
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ error: 'Failed to fetch sessions' });
+  }
+});
+
+// Revoke a session, signing out its device
+router.delete('/sessions/:id', authenticateToken, async (req, res) => {
+  try {
+    const revoked = await revokeSession(req.user.id, req.params.id);
+
+    if (!revoked) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    res.json({ message: 'Session revoked' });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ error: 'Failed to revoke session' });
+  }
 });
 
 // Request password reset
@@ -215,6 +412,9 @@ router.post('/reset-password', async (req, res) => {
       .delete()
       .eq('token', token);
 
+    // Sign out every device, whoever may have been using the old password
+    await revokeAllSessions(decoded.userId);
+
     res.json({ message: 'Password reset successful' });
   } catch (error) {
     res.status(400).json({ error: 'Invalid or expired reset token' });
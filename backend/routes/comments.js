@@ -0,0 +1,223 @@
+import express from 'express';
+import { z } from 'zod';
+import { supabaseAdmin } from '../config/database.js';
+import { authenticateToken } from '../middleware/auth.js';
+import { getDocumentAccess, canComment } from '../utils/permissions.js';
+
+// Mounted at /api/documents/:id/comments
+const router = express.Router({ mergeParams: true });
+
+// Validation schemas
+const createThreadSchema = z.object({
+  anchorStart: z.string().min(1).max(1000),
+  anchorEnd: z.string().min(1).max(1000),
+  quotedText: z.string().min(1).max(1000),
+  body: z.string().trim().min(1).max(5000)
+});
+
+const replySchema = z.object({
+  body: z.string().trim().min(1).max(5000)
+});
+
+const updateThreadSchema = z.object({
+  resolved: z.boolean()
+});
+
+const THREAD_SELECT = `
+  *,
+  created_by_user:users!comment_threads_created_by_fkey(id, first_name, last_name, email),
+  resolved_by_user:users!comment_threads_resolved_by_fkey(id, first_name, last_name, email),
+  comments(
+    *,
+    author:users!comments_author_id_fkey(id, first_name, last_name, email)
+  )
+`;
+
+// Comments come back in insertion order, oldest first
+const sortComments = (thread) => ({
+  ...thread,
+  comments: [...(thread.comments || [])].sort(
+    (a, b) => new Date(a.created_at) - new Date(b.created_at)
+  )
+});
+
+const fetchThread = async (documentId, threadId) => {
+  const { data: thread, error } = await supabaseAdmin
+    .from('comment_threads')
+    .select(THREAD_SELECT)
+    .eq('id', threadId)
+    .eq('document_id', documentId)
+    .single();
+
+  if (error || !thread) return null;
+  return sortComments(thread);
+};
+
+// Get comment threads for a document
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const { document, permission } = await getDocumentAccess(id, req.user);
+    if (!document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+    if (!permission) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const { data: threads, error } = await supabaseAdmin
+      .from('comment_threads')
+      .select(THREAD_SELECT)
+      .eq('document_id', id)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    res.json(threads.map(sortComments));
+  } catch (error) {
+    console.error('Error fetching comments:', error);
+    res.status(500).json({ error: 'Failed to fetch comments' });
+  }
+});
+
+// Start a comment thread on a text selection
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { anchorStart, anchorEnd, quotedText, body } = createThreadSchema.parse(req.body);
+
+    const { document, permission } = await getDocumentAccess(id, req.user);
+    if (!document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+    if (!canComment(permission)) {
+      return res.status(403).json({ error: 'You do not have permission to comment on this document' });
+    }
+
+    const { data: thread, error: threadError } = await supabaseAdmin
+      .from('comment_threads')
+      .insert({
+        document_id: id,
+        anchor_start: anchorStart,
+        anchor_end: anchorEnd,
+        quoted_text: quotedText,
+        created_by: req.user.id
+      })
+      .select('id')
+      .single();
+
+    if (threadError) throw threadError;
+
+    const { error: commentError } = await supabaseAdmin
+      .from('comments')
+      .insert({
+        thread_id: thread.id,
+        author_id: req.user.id,
+        body
+      });
+
+    if (commentError) throw commentError;
+
+    res.status(201).json(await fetchThread(id, thread.id));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Error creating comment thread:', error);
+    res.status(500).json({ error: 'Failed to create comment thread' });
+  }
+});
+
+// Reply to a comment thread
+router.post('/:threadId/replies', authenticateToken, async (req, res) => {
+  try {
+    const { id, threadId } = req.params;
+    const { body } = replySchema.parse(req.body);
+
+    const { document, permission } = await getDocumentAccess(id, req.user);
+    if (!document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+    if (!canComment(permission)) {
+      return res.status(403).json({ error: 'You do not have permission to comment on this document' });
+    }
+
+    const { data: thread } = await supabaseAdmin
+      .from('comment_threads')
+      .select('id')
+      .eq('id', threadId)
+      .eq('document_id', id)
+      .single();
+
+    if (!thread) {
+      return res.status(404).json({ error: 'Comment thread not found' });
+    }
+
+    const { error } = await supabaseAdmin
+      .from('comments')
+      .insert({
+        thread_id: threadId,
+        author_id: req.user.id,
+        body
+      });
+
+    if (error) throw error;
+
+    await supabaseAdmin
+      .from('comment_threads')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('id', threadId);
+
+    res.status(201).json(await fetchThread(id, threadId));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Error replying to comment thread:', error);
+    res.status(500).json({ error: 'Failed to reply to comment thread' });
+  }
+});
+
+// Resolve or reopen a comment thread
+router.put('/:threadId', authenticateToken, async (req, res) => {
+  try {
+    const { id, threadId } = req.params;
+    const { resolved } = updateThreadSchema.parse(req.body);
+
+    const { document, permission } = await getDocumentAccess(id, req.user);
+    if (!document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+    if (!canComment(permission)) {
+      return res.status(403).json({ error: 'You do not have permission to comment on this document' });
+    }
+
+    const now = new Date().toISOString();
+    const { data: thread, error } = await supabaseAdmin
+      .from('comment_threads')
+      .update({
+        resolved_at: resolved ? now : null,
+        resolved_by: resolved ? req.user.id : null,
+        updated_at: now
+      })
+      .eq('id', threadId)
+      .eq('document_id', id)
+      .select('id')
+      .single();
+
+    if (error || !thread) {
+      return res.status(404).json({ error: 'Comment thread not found' });
+    }
+
+    res.json(await fetchThread(id, threadId));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Error updating comment thread:', error);
+    res.status(500).json({ error: 'Failed to update comment thread' });
+  }
+});
+
+export default router;
\ No newline at end of file
@@ -1,118 +1,359 @@
 import express from 'express';
 import { z } from 'zod';
 import { supabaseAdmin } from '../config/database.js';
-import { authenticateToken, optionalAuth } from '../middleware/auth.js';
+import { authenticateToken, optionalAuth, requireVerifiedEmail } from '../middleware/auth.js';
+import { syncCollaborationContent } from '../realtime/collaboration.js';
+import {
+  getDocumentAccess,
+  canEdit,
+  getSpaceRole,
+  getUserSpaces,
+  getSharedPermissions,
+  strongestPermission,
+  SPACE_ROLE_PERMISSIONS
+} from '../utils/permissions.js';
+import {
+  TREE_FIELDS,
+  getNextPosition,
+  wouldCreateCycle,
+  movePage,
+  setSubtreeSpace,
+  getAncestors
+} from '../utils/pageTree.js';
+import { processMentions } from '../utils/mentions.js';
+import { createNotification, createNotifications, notifyDocumentWatchers } from '../utils/notifications.js';
+import {
+  generateShareToken,
+  hashShareToken,
+  hashSharePassword,
+  formatShareLink,
+  recordShareLinkUse
+} from '../utils/shareLinks.js';
+import {
+  MAX_TAGS_PER_DOCUMENT,
+  TAGS_SELECT,
+  normalizeTagName,
+  setDocumentTags,
+  tagNameSchema,
+  withTagNames
+} from '../utils/tags.js';
+import { BUILT_IN_TEMPLATES, applyTemplate, findTemplate } from '../utils/templates.js';
+import { documentToMarkdown, markdownToContent } from '../utils/markdown.js';
+import { documentFilename } from '../utils/exportFormats.js';
+import { findDocumentAttachments, removeAttachmentFiles } from '../utils/attachments.js';
 import { v4 as uuidv4 } from 'uuid';
 
 const router = express.Router();
 
 // Validation schemas
 const createDocumentSchema = z.object({
-  title: z.string().min(1).max(200),
-  content: z.string(),
-  isPublic: z.boolean().default(false)
+  title: z.string().min(1).max(200).optional(),
+  content: z.string().optional(),
+  isPublic: z.boolean().default(false),
+  parentId: z.string().uuid().nullable().optional(),
+  spaceId: z.string().uuid().nullable().optional(),
+  // Built-in template id or the UUID of a saved template
+  templateId: z.union([
+    z.enum(BUILT_IN_TEMPLATES.map(template => template.id)),
+    z.string().uuid()
+  ]).optional()
+}).refine(data => data.title || data.templateId, {
+  message: 'A title or a template is required',
+  path: ['title']
 });
 
 const updateDocumentSchema = z.object({
   title: z.string().min(1).max(200).optional(),
   content: z.string().optional(),
-  isPublic: z.boolean().optional()
+  isPublic: z.boolean().optional(),
+  inheritPermissions: z.boolean().optional(),
+  spaceId: z.string().uuid().nullable().optional(),
+  // Version the title and content were edited from; saving over a newer
+  // version is refused with 409 Conflict
+  baseVersion: z.number().int().nonnegative().optional()
+}).refine(data => data.content === undefined || data.baseVersion !== undefined, {
+  message: 'A base version is required when saving content',
+  path: ['baseVersion']
+});
+
+const shareLinkSchema = z.object({
+  permission: z.enum(['view', 'edit']),
+  expiresAt: z.string().datetime().nullable().optional(),
+  password: z.string().min(4).max(100).nullable().optional()
 });
 
-// Get all documents (user's documents + shared documents)
+const moveDocumentSchema = z.object({
+  parentId: z.string().uuid().nullable(),
+  position: z.number().int().min(0).optional()
+});
+
+const markdownImportSchema = z.object({
+  markdown: z.string().max(5 * 1024 * 1024)
+});
+
+const documentTagsSchema = z.object({
+  tags: z.array(tagNameSchema).max(MAX_TAGS_PER_DOCUMENT)
+});
+
+// Get all documents (user's documents + shared documents + documents in the
+// user's spaces). ?spaceId= limits the list to one space, ?tag= to the
+// documents carrying that tag.
 router.get('/', authenticateToken, async (req, res) => {
   try {
+    const { spaceId } = req.query;
+    const tag = req.query.tag ? normalizeTagName(String(req.query.tag)) : null;
+    const spaceRoles = new Map(
+      (await getUserSpaces(req.user.id)).map(membership => [membership.space_id, membership.role])
+    );
+
+    if (spaceId && !spaceRoles.has(spaceId)) {
+      return res.status(403).json({ error: 'You are not a member of this space' });
+    }
+
+    const documentSelect = `
+      *,
+      author:users!documents_author_id_fkey(id, first_name, last_name, email),
+      ${TAGS_SELECT}
+    `;
+
+    const format = (documents) =>
+      documents
+        .map(withTagNames)
+        .filter(document => !tag || document.tags.includes(tag));
+
+    const withPermission = (document, sharePermission) =>
+      document.author_id === req.user.id
+        ? document
+        : {
+            ...document,
+            userPermission: strongestPermission(
+              sharePermission,
+              SPACE_ROLE_PERMISSIONS[spaceRoles.get(document.space_id)]
+            )
+          };
+
+    if (spaceId) {
+      const { data: spaceDocuments, error } = await supabaseAdmin
+        .from('documents')
+        .select(documentSelect)
+        .eq('space_id', spaceId)
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+
+      return res.json(format(spaceDocuments.map(document => withPermission(document))));
+    }
+
     // Get user's own documents
     const { data: ownDocuments, error: ownError } = await supabaseAdmin
       .from('documents')
-      .select(`
-        *,
-        author:users!documents_author_id_fkey(id, first_name, last_name, email)
-      `)
+      .select(documentSelect)
       .eq('author_id', req.user.id)
       .order('updated_at', { ascending: false });
 
     if (ownError) throw ownError;
 
-    // Get shared documents
-    const { data: sharedDocuments, error: sharedError } = await supabaseAdmin
-      .from('document_shares')
-      .select(`
-        permission,
-        document:documents!inner(
-          *,
-          author:users!documents_author_id_fkey(id, first_name, last_name, email)
-        )
-      `)
-      .eq('user_id', req.user.id);
+    // Get documents shared with the user or one of their groups
+    const sharedPermissions = await getSharedPermissions(req.user.id);
+    let sharedDocuments = [];
+    if (sharedPermissions.size > 0) {
+      const { data, error: sharedError } = await supabaseAdmin
+        .from('documents')
+        .select(documentSelect)
+        .in('id', [...sharedPermissions.keys()]);
+
+      if (sharedError) throw sharedError;
+      sharedDocuments = data;
+    }
 
-    if (sharedError) throw sharedError;
+    // Get documents in the user's spaces
+    let spaceDocuments = [];
+    if (spaceRoles.size > 0) {
+      const { data, error: spaceError } = await supabaseAdmin
+        .from('documents')
+        .select(documentSelect)
+        .in('space_id', [...spaceRoles.keys()]);
 
-    // Combine and format results
-    const allDocuments = [
-      ...ownDocuments,
-      ...sharedDocuments.map(share => ({
-        ...share.document,
-        userPermission: share.permission
-      }))
-    ];
+      if (spaceError) throw spaceError;
+      spaceDocuments = data;
+    }
+
+    // Combine and format results, one entry per document
+    const allDocuments = new Map();
+    ownDocuments.forEach(document => allDocuments.set(document.id, document));
+    sharedDocuments.forEach(document => {
+      if (!allDocuments.has(document.id)) {
+        allDocuments.set(document.id, withPermission(document, sharedPermissions.get(document.id)));
+      }
+    });
+    spaceDocuments.forEach(document => {
+      if (!allDocuments.has(document.id)) {
+        allDocuments.set(document.id, withPermission(document));
+      }
+    });
 
     // Sort by updated_at
-    allDocuments.sort((a, b) => new Date(b.updated_at) - new Date(a.updated_at));
+    const documents = [...allDocuments.values()];
+    documents.sort((a, b) => new Date(b.updated_at) - new Date(a.updated_at));
 
-    res.json(allDocuments);
+    res.json(format(documents));
   } catch (error) {
     console.error('Error fetching documents:', error);
     res.status(500).json({ error: 'Failed to fetch documents' });
   }
 });
 
+// Get the page tree: own and shared pages (directly or through a group) plus
+// the pages that inherit access from them. Pages whose parent the user cannot
+// see are returned as roots.
+router.get('/tree', authenticateToken, async (req, res) => {
+  try {
+    const { spaceId } = req.query;
+    const spaceIds = (await getUserSpaces(req.user.id)).map(membership => membership.space_id);
+    const pages = new Map();
+
+    if (spaceId) {
+      // A single space: every page in it, nothing else
+      if (!spaceIds.includes(spaceId)) {
+        return res.status(403).json({ error: 'You are not a member of this space' });
+      }
+
+      const { data: spacePages, error } = await supabaseAdmin
+        .from('documents')
+        .select(TREE_FIELDS)
+        .eq('space_id', spaceId);
+
+      if (error) throw error;
+      spacePages.forEach(page => pages.set(page.id, page));
+    } else {
+      const { data: ownPages, error: ownError } = await supabaseAdmin
+        .from('documents')
+        .select(TREE_FIELDS)
+        .eq('author_id', req.user.id);
+
+      if (ownError) throw ownError;
+
+      const sharedIds = [...(await getSharedPermissions(req.user.id)).keys()];
+      let sharedPages = [];
+      if (sharedIds.length > 0) {
+        const { data, error: sharedError } = await supabaseAdmin
+          .from('documents')
+          .select(TREE_FIELDS)
+          .in('id', sharedIds);
+
+        if (sharedError) throw sharedError;
+        sharedPages = data;
+      }
+
+      let spacePages = [];
+      if (spaceIds.length > 0) {
+        const { data, error: spaceError } = await supabaseAdmin
+          .from('documents')
+          .select(TREE_FIELDS)
+          .in('space_id', spaceIds);
+
+        if (spaceError) throw spaceError;
+        spacePages = data;
+      }
+
+      [...ownPages, ...sharedPages, ...spacePages]
+        .forEach(page => pages.set(page.id, page));
+    }
+
+    // Walk down one level at a time through pages that inherit permissions
+    let frontier = spaceId ? [] : [...pages.keys()];
+    while (frontier.length > 0) {
+      const { data: children, error } = await supabaseAdmin
+        .from('documents')
+        .select(TREE_FIELDS)
+        .in('parent_id', frontier)
+        .eq('inherit_permissions', true);
+
+      if (error) throw error;
+
+      frontier = [];
+      for (const child of children) {
+        if (!pages.has(child.id)) {
+          pages.set(child.id, child);
+          frontier.push(child.id);
+        }
+      }
+    }
+
+    const tree = [...pages.values()].map(page => ({
+      ...page,
+      parent_id: pages.has(page.parent_id) ? page.parent_id : null
+    }));
+
+    tree.sort((a, b) => a.position - b.position || a.title.localeCompare(b.title));
+
+    res.json(tree);
+  } catch (error) {
+    console.error('Error fetching page tree:', error);
+    res.status(500).json({ error: 'Failed to fetch page tree' });
+  }
+});
+
+// Convert Markdown to editor content; nothing is saved. A leading level-1
+// heading comes back as the title.
+router.post('/import/markdown', authenticateToken, async (req, res) => {
+  try {
+    const { markdown } = markdownImportSchema.parse(req.body);
+    res.json(markdownToContent(markdown));
+  } catch (error) {
+    console.error('Error importing Markdown:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to import Markdown' });
+  }
+});
+
 // Get single document
 router.get('/:id', optionalAuth, async (req, res) => {
   try {
     const { id } = req.params;
 
     // First, get the document
-    const { data: document, error } = await supabaseAdmin
+    const { data, error } = await supabaseAdmin
       .from('documents')
       .select(`
         *,
-        author:users!documents_author_id_fkey(id, first_name, last_name, email)
+        author:users!documents_author_id_fkey(id, first_name, last_name, email),
+        ${TAGS_SELECT}
       `)
       .eq('id', id)
       .single();
 
+    const document = data && withTagNames(data);
+
     if (error || !document) {
       return res.status(404).json({ error: 'Document not found' });
     }
 
-    // Check permissions
-    if (document.is_public) {
-      // Public document - anyone can view
-      return res.json(document);
-    }
+    // Check permissions: author, shared access, share link, then public visibility
+    const { permission } = await getDocumentAccess(id, req.user, { shareLink: req.shareLink });
 
-    if (!req.user) {
-      return res.status(401).json({ error: 'Authentication required' });
+    if (!permission) {
+      if (req.shareLinkError) {
+        return res.status(403).json({ error: req.shareLinkError });
+      }
+      return req.user
+        ? res.status(403).json({ error: 'Access denied' })
+        : res.status(401).json({ error: 'Authentication required' });
     }
 
-    // Check if user is author or has been shared access
-    if (document.author_id === req.user.id) {
-      return res.json(document);
+    if (req.shareLink?.document_id === id) {
+      await recordShareLinkUse(req.shareLink);
     }
 
-    const { data: share } = await supabaseAdmin
-      .from('document_shares')
-      .select('permission')
-      .eq('document_id', id)
-      .eq('user_id', req.user.id)
-      .single();
+    const ancestors = await getAncestors(document, req.user);
 
-    if (!share) {
-      return res.status(403).json({ error: 'Access denied' });
+    if (permission === 'owner') {
+      return res.json({ ...document, ancestors });
     }
 
-    res.json({ ...document, userPermission: share.permission });
+    res.json({ ...document, ancestors, userPermission: permission });
   } catch (error) {
     console.error('Error fetching document:', error);
     res.status(500).json({ error: 'Failed to fetch document' });
@@ -122,7 +363,37 @@ router.get('/:id', optionalAuth, async (req, res) => {
 // Create document
 router.post('/', authenticateToken, async (req, res) => {
   try {
-    const { title, content, isPublic } = createDocumentSchema.parse(req.body);
+    const { isPublic, parentId, spaceId: requestedSpaceId, templateId, ...fields } = createDocumentSchema.parse(req.body);
+
+    // Publishing is sharing with everyone, so it waits for a verified address too
+    if (isPublic && !req.user.email_verified_at) {
+      return res.status(403).json({ error: 'Verify your email address to make documents public' });
+    }
+    let spaceId = requestedSpaceId || null;
+    let { title, content } = fields;
+
+    // A template provides the content, and the title unless one was given
+    if (templateId) {
+      const template = await findTemplate(templateId, req.user.id);
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+      ({ title, content } = applyTemplate(template, { author: req.user, title }));
+    }
+
+    if (parentId) {
+      const { document: parent, permission } = await getDocumentAccess(parentId, req.user);
+      if (!parent) {
+        return res.status(404).json({ error: 'Parent page not found' });
+      }
+      if (!canEdit(permission)) {
+        return res.status(403).json({ error: 'Edit permission on the parent page required' });
+      }
+      // Subpages live in the same space as their parent
+      spaceId = parent.space_id;
+    } else if (spaceId && !canEdit(SPACE_ROLE_PERMISSIONS[await getSpaceRole(spaceId, req.user.id)])) {
+      return res.status(403).json({ error: 'You need to be an editor of this space to add documents' });
+    }
 
     const documentId = uuidv4();
     const { data: document, error } = await supabaseAdmin
@@ -132,7 +403,10 @@ router.post('/', authenticateToken, async (req, res) => {
         title: title || 'Untitled Document',
         content: content || '',
         is_public: isPublic,
-        author_id: req.user.id
+        author_id: req.user.id,
+        parent_id: parentId || null,
+        space_id: spaceId,
+        position: await getNextPosition(parentId, req.user.id)
       })
       .select(`
         *,
@@ -154,6 +428,18 @@ router.post('/', authenticateToken, async (req, res) => {
         change_summary: 'Initial version'
       });
 
+    // Authors watch their own documents by default
+    await supabaseAdmin
+      .from('document_subscriptions')
+      .insert({ document_id: documentId, user_id: req.user.id });
+
+    await processMentions({
+      documentId,
+      title: document.title,
+      content: document.content,
+      mentionedBy: req.user
+    });
+
     res.status(201).json(document);
   } catch (error) {
     console.error('Error creating document:', error);
@@ -164,16 +450,36 @@ router.post('/', authenticateToken, async (req, res) => {
   }
 });
 
-// Update document
-router.put('/:id', authenticateToken, async (req, res) => {
+// Refuse a save that was based on an outdated version, sending the current
+// copy along so the client can merge
+const sendConflict = async (res, id) => {
+  const { data: current, error } = await supabaseAdmin
+    .from('documents')
+    .select(`
+      *,
+      author:users!documents_author_id_fkey(id, first_name, last_name, email),
+      ${TAGS_SELECT}
+    `)
+    .eq('id', id)
+    .single();
+
+  if (error) throw error;
+
+  res.status(409).json({
+    error: 'This document was changed by someone else since you started editing',
+    document: withTagNames(current)
+  });
+};
+
+// Update document (signed in, or anonymously through an edit share link)
+router.put('/:id', optionalAuth, async (req, res) => {
   try {
     const { id } = req.params;
-    const updates = updateDocumentSchema.parse(req.body);
+    const { isPublic, inheritPermissions, spaceId, baseVersion, ...updates } = updateDocumentSchema.parse(req.body);
 
-    // Check if user has edit permission
     const { data: document, error: docError } = await supabaseAdmin
       .from('documents')
-      .select('author_id, title, content, version')
+      .select('author_id, title, content, version, parent_id, space_id')
       .eq('id', id)
       .single();
 
@@ -181,40 +487,80 @@ router.put('/:id', authenticateToken, async (req, res) => {
       return res.status(404).json({ error: 'Document not found' });
     }
 
-    let hasEditPermission = document.author_id === req.user.id;
+    // Check if user has edit permission
+    const { permission } = await getDocumentAccess(id, req.user, { shareLink: req.shareLink });
 
-    if (!hasEditPermission) {
-      const { data: share } = await supabaseAdmin
-        .from('document_shares')
-        .select('permission')
-        .eq('document_id', id)
-        .eq('user_id', req.user.id)
-        .single();
+    if (!canEdit(permission)) {
+      if (!req.user && !req.shareLink) {
+        return res.status(401).json({ error: req.shareLinkError || 'Authentication required' });
+      }
+      return res.status(403).json({ error: 'Edit permission required' });
+    }
+
+    const isAuthor = document.author_id === req.user?.id;
 
-      hasEditPermission = share && share.permission === 'edit';
+    if ((isPublic !== undefined || inheritPermissions !== undefined) && !isAuthor) {
+      return res.status(403).json({ error: 'Only the author can change visibility' });
     }
 
-    if (!hasEditPermission) {
-      return res.status(403).json({ error: 'Edit permission required' });
+    if (isPublic && !req.user.email_verified_at) {
+      return res.status(403).json({ error: 'Verify your email address to make documents public' });
     }
 
-    // Update document
+    if (spaceId !== undefined) {
+      if (!isAuthor) {
+        return res.status(403).json({ error: 'Only the author can move a document to another space' });
+      }
+      if (spaceId && !canEdit(SPACE_ROLE_PERMISSIONS[await getSpaceRole(spaceId, req.user.id)])) {
+        return res.status(403).json({ error: 'You need to be an editor of this space to add documents' });
+      }
+    }
+
+    // Pages share their parent's space, so a page moved to another space
+    // leaves its parent for the top level and takes its subpages along
+    const spaceChanged = spaceId !== undefined && spaceId !== document.space_id;
+    const detach = spaceChanged && document.parent_id
+      ? { parent_id: null, position: await getNextPosition(null, document.author_id) }
+      : {};
+
+    // Visibility changes alone do not produce a new version
+    const contentChanged = updates.title !== undefined || updates.content !== undefined;
+
+    if (contentChanged && baseVersion !== undefined && baseVersion !== document.version) {
+      return sendConflict(res, id);
+    }
+
+    // Update document. Matching the version read above makes the write fail
+    // rather than overwrite a save that landed in between.
     const { data: updatedDocument, error } = await supabaseAdmin
       .from('documents')
       .update({
         ...updates,
+        ...(isPublic !== undefined && { is_public: isPublic }),
+        ...(inheritPermissions !== undefined && { inherit_permissions: inheritPermissions }),
+        ...(spaceId !== undefined && { space_id: spaceId }),
+        ...detach,
         updated_at: new Date().toISOString(),
-        version: document.version + 1
+        version: contentChanged ? document.version + 1 : document.version
       })
-      .eq('id', id)
+      .match({ id, ...(contentChanged && { version: document.version }) })
       .select(`
         *,
-        author:users!documents_author_id_fkey(id, first_name, last_name, email)
+        author:users!documents_author_id_fkey(id, first_name, last_name, email),
+        ${TAGS_SELECT}
       `)
-      .single();
+      .maybeSingle();
 
     if (error) throw error;
 
+    if (!updatedDocument) {
+      return sendConflict(res, id);
+    }
+
+    if (spaceChanged) {
+      await setSubtreeSpace(id, spaceId);
+    }
+
     // Create version if content changed
     if (updates.content && updates.content !== document.content) {
       await supabaseAdmin
@@ -224,12 +570,32 @@ router.put('/:id', authenticateToken, async (req, res) => {
           content: updates.content,
           title: updates.title || document.title,
           version_number: document.version + 1,
-          created_by: req.user.id,
-          change_summary: 'Content updated'
+          created_by: req.user?.id || null,
+          change_summary: req.user ? 'Content updated' : 'Content updated via share link'
+        });
+
+      await syncCollaborationContent(id, updates.content);
+
+      // Watchers and mentions need someone to attribute the change to
+      if (req.user) {
+        await notifyDocumentWatchers({
+          documentId: id,
+          title: updatedDocument.title,
+          versionNumber: document.version + 1,
+          actor: req.user
+        });
+
+        await processMentions({
+          documentId: id,
+          title: updatedDocument.title,
+          previousContent: document.content,
+          content: updates.content,
+          mentionedBy: req.user
         });
+      }
     }
 
-    res.json(updatedDocument);
+    res.json(withTagNames(updatedDocument));
   } catch (error) {
     console.error('Error updating document:', error);
     if (error instanceof z.ZodError) {
@@ -239,6 +605,65 @@ router.put('/:id', authenticateToken, async (req, res) => {
   }
 });
 
+// Export document as GitHub-flavored Markdown
+router.get('/:id/markdown', optionalAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const { document, permission } = await getDocumentAccess(id, req.user, { shareLink: req.shareLink });
+    if (!document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+    if (!permission) {
+      return req.user
+        ? res.status(403).json({ error: 'Access denied' })
+        : res.status(401).json({ error: req.shareLinkError || 'Authentication required' });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('documents')
+      .select('title, content')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+
+    res.json({
+      filename: documentFilename(data.title, 'md'),
+      markdown: documentToMarkdown(data)
+    });
+  } catch (error) {
+    console.error('Error exporting Markdown:', error);
+    res.status(500).json({ error: 'Failed to export Markdown' });
+  }
+});
+
+// Replace document tags
+router.put('/:id/tags', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const tags = [...new Set(documentTagsSchema.parse(req.body).tags)].sort();
+
+    const { document, permission } = await getDocumentAccess(id, req.user);
+    if (!document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+    if (!canEdit(permission)) {
+      return res.status(403).json({ error: 'Edit permission required' });
+    }
+
+    await setDocumentTags(id, tags, req.user.id);
+
+    res.json({ tags });
+  } catch (error) {
+    console.error('Error updating document tags:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to update document tags' });
+  }
+});
+
 // Delete document
 router.delete('/:id', authenticateToken, async (req, res) => {
   try {
@@ -247,7 +672,7 @@ router.delete('/:id', authenticateToken, async (req, res) => {
     // Check if user is the author
     const { data: document, error: docError } = await supabaseAdmin
       .from('documents')
-      .select('author_id')
+      .select('author_id, parent_id')
       .eq('id', id)
       .single();
 
@@ -259,6 +684,17 @@ router.delete('/:id', authenticateToken, async (req, res) => {
       return res.status(403).json({ error: 'Only the author can delete this document' });
     }
 
+    // Child pages move up to the deleted page's parent
+    const { error: reparentError } = await supabaseAdmin
+      .from('documents')
+      .update({ parent_id: document.parent_id })
+      .eq('parent_id', id);
+
+    if (reparentError) throw reparentError;
+
+    // Attachment rows go with the document; their files are removed after
+    const attachments = await findDocumentAttachments([id]);
+
     // Delete document (cascade will handle shares and versions)
     const { error } = await supabaseAdmin
       .from('documents')
@@ -267,6 +703,8 @@ router.delete('/:id', authenticateToken, async (req, res) => {
 
     if (error) throw error;
 
+    await removeAttachmentFiles(attachments);
+
     res.json({ message: 'Document deleted successfully' });
   } catch (error) {
     console.error('Error deleting document:', error);
@@ -274,20 +712,73 @@ router.delete('/:id', authenticateToken, async (req, res) => {
   }
 });
 
-// Share document
-router.post('/:id/share', authenticateToken, async (req, res) => {
+// Move document in the page tree
+router.post('/:id/move', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { parentId, position } = moveDocumentSchema.parse(req.body);
+
+    const { document, permission } = await getDocumentAccess(id, req.user);
+    if (!document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+    if (!canEdit(permission)) {
+      return res.status(403).json({ error: 'Edit permission required' });
+    }
+
+    let parent = null;
+    if (parentId) {
+      const parentAccess = await getDocumentAccess(parentId, req.user);
+      parent = parentAccess.document;
+      if (!parent) {
+        return res.status(404).json({ error: 'Parent page not found' });
+      }
+      if (!canEdit(parentAccess.permission)) {
+        return res.status(403).json({ error: 'Edit permission on the parent page required' });
+      }
+      if (await wouldCreateCycle(id, parentId)) {
+        return res.status(400).json({ error: 'A page cannot be moved under itself or one of its subpages' });
+      }
+    }
+
+    // A page moved under a parent in another space moves to that space, with
+    // the same rules as changing the space directly (PUT /:id)
+    const spaceId = parentId ? parent.space_id : document.space_id;
+    if (spaceId !== document.space_id) {
+      if (document.author_id !== req.user.id) {
+        return res.status(403).json({ error: 'Only the author can move a document to another space' });
+      }
+      if (spaceId && !canEdit(SPACE_ROLE_PERMISSIONS[await getSpaceRole(spaceId, req.user.id)])) {
+        return res.status(403).json({ error: 'You need to be an editor of this space to add documents' });
+      }
+    }
+
+    const moved = await movePage(document, parentId, position, spaceId);
+
+    res.json(moved);
+  } catch (error) {
+    console.error('Error moving document:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to move document' });
+  }
+});
+
+// Share document with a user (userEmail) or one of the sharer's groups (groupId)
+router.post('/:id/share', authenticateToken, requireVerifiedEmail, async (req, res) => {
   try {
     const { id } = req.params;
-    const { userEmail, permission } = req.body;
+    const { userEmail, groupId, permission } = req.body;
 
-    if (!userEmail || !['view', 'edit'].includes(permission)) {
+    if (!userEmail === !groupId || !['view', 'comment', 'edit'].includes(permission)) {
       return res.status(400).json({ error: 'Invalid input' });
     }
 
     // Check if user is the author
     const { data: document, error: docError } = await supabaseAdmin
       .from('documents')
-      .select('author_id')
+      .select('author_id, title')
       .eq('id', id)
       .single();
 
@@ -299,10 +790,58 @@ router.post('/:id/share', authenticateToken, async (req, res) => {
       return res.status(403).json({ error: 'Only the author can share this document' });
     }
 
+    const message = `${req.user.first_name} ${req.user.last_name} shared "${document.title}" with you (can ${permission})`;
+
+    if (groupId) {
+      const { data: group, error: groupError } = await supabaseAdmin
+        .from('groups')
+        .select('id, name, members:group_members(user_id, user:users!group_members_user_id_fkey(email_verified_at))')
+        .eq('id', groupId)
+        .single();
+
+      // Only groups the sharer belongs to can be shared with
+      if (groupError || !group || !group.members.some(member => member.user_id === req.user.id)) {
+        return res.status(404).json({ error: 'Group not found' });
+      }
+
+      // Members are checked when they are added, but a group's creator joins
+      // it without one
+      if (group.members.some(member => !member.user?.email_verified_at)) {
+        return res.status(400).json({ error: 'Everyone in this group needs to verify their email address first' });
+      }
+
+      const { data: share, error: shareError } = await supabaseAdmin
+        .from('document_shares')
+        .upsert({
+          document_id: id,
+          group_id: group.id,
+          permission,
+          shared_by: req.user.id
+        }, { onConflict: 'document_id,group_id' })
+        .select('*')
+        .single();
+
+      if (shareError) throw shareError;
+
+      await createNotifications(
+        group.members
+          .filter(member => member.user_id !== req.user.id)
+          .map(member => ({
+            userId: member.user_id,
+            type: 'share',
+            documentId: id,
+            actorId: req.user.id,
+            message: `${message} through ${group.name}`
+          }))
+      );
+
+      return res.json({ share, group: { id: group.id, name: group.name } });
+    }
+
     // Find user to share with
     const { data: targetUser, error: userError } = await supabaseAdmin
       .from('users')
-      .select('id, first_name, last_name, email')
+      .select('id, first_name, last_name, email, email_verified_at')
       .eq('email', userEmail)
       .single();
 
@@ -310,6 +849,14 @@ router.post('/:id/share', authenticateToken, async (req, res) => {
       return res.status(404).json({ error: 'User not found' });
     }
 
+    if (targetUser.id === req.user.id) {
+      return res.status(400).json({ error: 'You already own this document' });
+    }
+
+    if (!targetUser.email_verified_at) {
+      return res.status(400).json({ error: 'This user has not verified their email address yet' });
+    }
+
     // Create or update share
     const { data: share, error: shareError } = await supabaseAdmin
       .from('document_shares')
@@ -318,12 +865,20 @@ router.post('/:id/share', authenticateToken, async (req, res) => {
         user_id: targetUser.id,
         permission,
         shared_by: req.user.id
-      })
+      }, { onConflict: 'document_id,user_id' })
       .select('*')
       .single();
 
     if (shareError) throw shareError;
 
+    await createNotification({
+      userId: targetUser.id,
+      type: 'share',
+      documentId: id,
+      actorId: req.user.id,
+      message
+    });
+
     res.json({
       share,
       user: {
@@ -363,6 +918,7 @@ router.get('/:id/shares', authenticateToken, async (req, res) => {
       .select(`
         *,
         user:users!document_shares_user_id_fkey(id, first_name, last_name, email),
+        group:groups(id, name),
         shared_by_user:users!document_shares_shared_by_fkey(id, first_name, last_name, email)
       `)
       .eq('document_id', id);
@@ -411,15 +967,50 @@ router.delete('/:id/shares/:userId', authenticateToken, async (req, res) => {
   }
 });
 
-// Get document versions
-router.get('/:id/versions', authenticateToken, async (req, res) => {
+// Remove group share
+router.delete('/:id/shares/groups/:groupId', authenticateToken, async (req, res) => {
+  try {
+    const { id, groupId } = req.params;
+
+    // Check if user is the author
+    const { data: document, error: docError } = await supabaseAdmin
+      .from('documents')
+      .select('author_id')
+      .eq('id', id)
+      .single();
+
+    if (docError || !document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    if (document.author_id !== req.user.id) {
+      return res.status(403).json({ error: 'Only the author can remove shares' });
+    }
+
+    const { error } = await supabaseAdmin
+      .from('document_shares')
+      .delete()
+      .eq('document_id', id)
+      .eq('group_id', groupId);
+
+    if (error) throw error;
+
+    res.json({ message: 'Share removed successfully' });
+  } catch (error) {
+    console.error('Error removing group share:', error);
+    res.status(500).json({ error: 'Failed to remove share' });
+  }
+});
+
+// Get active share links (revoked ones are kept only for the record)
+router.get('/:id/links', authenticateToken, async (req, res) => {
   try {
     const { id } = req.params;
 
-    // Check if user has access to the document
+    // Check if user is the author
     const { data: document, error: docError } = await supabaseAdmin
       .from('documents')
-      .select('author_id, is_public')
+      .select('author_id')
       .eq('id', id)
       .single();
 
@@ -427,20 +1018,127 @@ router.get('/:id/versions', authenticateToken, async (req, res) => {
       return res.status(404).json({ error: 'Document not found' });
     }
 
-    let hasAccess = document.is_public || document.author_id === req.user.id;
+    if (document.author_id !== req.user.id) {
+      return res.status(403).json({ error: 'Only the author can view share links' });
+    }
 
-    if (!hasAccess) {
-      const { data: share } = await supabaseAdmin
-        .from('document_shares')
-        .select('permission')
-        .eq('document_id', id)
-        .eq('user_id', req.user.id)
-        .single();
+    const { data: links, error } = await supabaseAdmin
+      .from('share_links')
+      .select('*')
+      .eq('document_id', id)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    res.json(links.map(formatShareLink));
+  } catch (error) {
+    console.error('Error fetching share links:', error);
+    res.status(500).json({ error: 'Failed to fetch share links' });
+  }
+});
+
+// Create share link
+router.post('/:id/links', authenticateToken, requireVerifiedEmail, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { permission, expiresAt, password } = shareLinkSchema.parse(req.body);
+
+    // Check if user is the author
+    const { data: document, error: docError } = await supabaseAdmin
+      .from('documents')
+      .select('author_id')
+      .eq('id', id)
+      .single();
 
-      hasAccess = !!share;
+    if (docError || !document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    if (document.author_id !== req.user.id) {
+      return res.status(403).json({ error: 'Only the author can create share links' });
+    }
+
+    if (expiresAt && new Date(expiresAt) <= new Date()) {
+      return res.status(400).json({ error: 'Expiry date must be in the future' });
+    }
+
+    const token = generateShareToken();
+
+    const { data: link, error } = await supabaseAdmin
+      .from('share_links')
+      .insert({
+        document_id: id,
+        token_hash: hashShareToken(token),
+        permission,
+        expires_at: expiresAt || null,
+        password_hash: password ? await hashSharePassword(password) : null,
+        created_by: req.user.id
+      })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+
+    // The only time the token is returned
+    res.status(201).json({ ...formatShareLink(link), token });
+  } catch (error) {
+    console.error('Error creating share link:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
     }
+    res.status(500).json({ error: 'Failed to create share link' });
+  }
+});
+
+// Revoke share link
+router.delete('/:id/links/:linkId', authenticateToken, async (req, res) => {
+  try {
+    const { id, linkId } = req.params;
 
-    if (!hasAccess) {
+    // Check if user is the author
+    const { data: document, error: docError } = await supabaseAdmin
+      .from('documents')
+      .select('author_id')
+      .eq('id', id)
+      .single();
+
+    if (docError || !document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    if (document.author_id !== req.user.id) {
+      return res.status(403).json({ error: 'Only the author can revoke share links' });
+    }
+
+    const { error } = await supabaseAdmin
+      .from('share_links')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', linkId)
+      .eq('document_id', id);
+
+    if (error) throw error;
+
+    res.json({ message: 'Share link revoked successfully' });
+  } catch (error) {
+    console.error('Error revoking share link:', error);
+    res.status(500).json({ error: 'Failed to revoke share link' });
+  }
+});
+
+// Get document versions
+router.get('/:id/versions', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Check if user has access to the document
+    const { document, permission } = await getDocumentAccess(id, req.user);
+
+    if (!document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    if (!permission) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
@@ -462,4 +1160,151 @@ router.get('/:id/versions', authenticateToken, async (req, res) => {
   }
 });
 
+// Restore document to a previous version
+router.post('/:id/versions/:versionId/restore', authenticateToken, async (req, res) => {
+  try {
+    const { id, versionId } = req.params;
+
+    const { data: document, error: docError } = await supabaseAdmin
+      .from('documents')
+      .select('author_id, version')
+      .eq('id', id)
+      .single();
+
+    if (docError || !document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    // Check if user has edit permission
+    const { permission } = await getDocumentAccess(id, req.user);
+
+    if (!canEdit(permission)) {
+      return res.status(403).json({ error: 'Edit permission required' });
+    }
+
+    const { data: version, error: versionError } = await supabaseAdmin
+      .from('document_versions')
+      .select('version_number, title, content')
+      .eq('id', versionId)
+      .eq('document_id', id)
+      .single();
+
+    if (versionError || !version) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    const { data: updatedDocument, error } = await supabaseAdmin
+      .from('documents')
+      .update({
+        title: version.title,
+        content: version.content,
+        updated_at: new Date().toISOString(),
+        version: document.version + 1
+      })
+      // A save that landed since the version was read wins over the restore
+      .match({ id, version: document.version })
+      .select(`
+        *,
+        author:users!documents_author_id_fkey(id, first_name, last_name, email)
+      `)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!updatedDocument) {
+      return sendConflict(res, id);
+    }
+
+    await supabaseAdmin
+      .from('document_versions')
+      .insert({
+        document_id: id,
+        content: version.content,
+        title: version.title,
+        version_number: document.version + 1,
+        created_by: req.user.id,
+        change_summary: `Restored from version ${version.version_number}`
+      });
+
+    await syncCollaborationContent(id, version.content);
+
+    await notifyDocumentWatchers({
+      documentId: id,
+      title: version.title,
+      versionNumber: document.version + 1,
+      actor: req.user
+    });
+
+    res.json(updatedDocument);
+  } catch (error) {
+    console.error('Error restoring version:', error);
+    res.status(500).json({ error: 'Failed to restore version' });
+  }
+});
+
+// Get watch status for the current user
+router.get('/:id/watch', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const { data: subscription } = await supabaseAdmin
+      .from('document_subscriptions')
+      .select('id')
+      .eq('document_id', id)
+      .eq('user_id', req.user.id)
+      .single();
+
+    res.json({ watching: !!subscription });
+  } catch (error) {
+    console.error('Error fetching watch status:', error);
+    res.status(500).json({ error: 'Failed to fetch watch status' });
+  }
+});
+
+// Watch document for new versions
+router.post('/:id/watch', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const { permission } = await getDocumentAccess(id, req.user);
+    if (!permission) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const { error } = await supabaseAdmin
+      .from('document_subscriptions')
+      .upsert({
+        document_id: id,
+        user_id: req.user.id
+      }, { onConflict: 'document_id,user_id' });
+
+    if (error) throw error;
+
+    res.json({ watching: true });
+  } catch (error) {
+    console.error('Error watching document:', error);
+    res.status(500).json({ error: 'Failed to watch document' });
+  }
+});
+
+// Stop watching document
+router.delete('/:id/watch', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const { error } = await supabaseAdmin
+      .from('document_subscriptions')
+      .delete()
+      .eq('document_id', id)
+      .eq('user_id', req.user.id);
+
+    if (error) throw error;
+
+    res.json({ watching: false });
+  } catch (error) {
+    console.error('Error unwatching document:', error);
+    res.status(500).json({ error: 'Failed to unwatch document' });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,188 @@
+import express from 'express';
+import { z } from 'zod';
+import { supabaseAdmin } from '../config/database.js';
+import { authenticateToken } from '../middleware/auth.js';
+import { getDocumentAccess } from '../utils/permissions.js';
+import {
+  CONTENT_TYPES,
+  EXPORT_JOB_FIELDS,
+  enqueueExportJob,
+  readExportFile,
+  removeExportJobs
+} from '../utils/exportJobs.js';
+
+const router = express.Router();
+
+// Queued and running exports allowed per user at a time
+const MAX_ACTIVE_EXPORTS = 3;
+
+const JOB_SELECT = `${EXPORT_JOB_FIELDS}, document:documents(id, title)`;
+
+// Validation schemas
+const createExportSchema = z.object({
+  format: z.enum(['pdf', 'html', 'zip']),
+  // The document to export as PDF or HTML; ZIP exports cover every document
+  documentId: z.string().uuid().optional(),
+  includeVersions: z.boolean().default(false)
+}).refine(data => data.format === 'zip' || data.documentId, {
+  message: 'A document is required for PDF and HTML exports',
+  path: ['documentId']
+});
+
+const findOwnJob = async (id, userId) => {
+  const { data: job } = await supabaseAdmin
+    .from('export_jobs')
+    .select(`${JOB_SELECT}, file_path`)
+    .eq('id', id)
+    .eq('user_id', userId)
+    .single();
+
+  return job;
+};
+
+// Get the user's recent exports
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const { data: jobs, error } = await supabaseAdmin
+      .from('export_jobs')
+      .select(JOB_SELECT)
+      .eq('user_id', req.user.id)
+      .order('created_at', { ascending: false })
+      .limit(20);
+
+    if (error) throw error;
+
+    res.json(jobs);
+  } catch (error) {
+    console.error('Error fetching exports:', error);
+    res.status(500).json({ error: 'Failed to fetch exports' });
+  }
+});
+
+// Start an export. Responds right away with the queued job; poll
+// GET /api/exports/:id for progress.
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const { format, documentId, includeVersions } = createExportSchema.parse(req.body);
+
+    if (format !== 'zip') {
+      const { document, permission } = await getDocumentAccess(documentId, req.user);
+      if (!document) {
+        return res.status(404).json({ error: 'Document not found' });
+      }
+      if (!permission) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+    }
+
+    const { count, error: countError } = await supabaseAdmin
+      .from('export_jobs')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', req.user.id)
+      .in('status', ['queued', 'running']);
+
+    if (countError) throw countError;
+
+    if (count >= MAX_ACTIVE_EXPORTS) {
+      return res.status(429).json({ error: 'Wait for your running exports to finish before starting another' });
+    }
+
+    const { data: job, error } = await supabaseAdmin
+      .from('export_jobs')
+      .insert({
+        user_id: req.user.id,
+        format,
+        document_id: format === 'zip' ? null : documentId,
+        include_versions: format === 'zip' && includeVersions
+      })
+      .select(JOB_SELECT)
+      .single();
+
+    if (error) throw error;
+
+    enqueueExportJob(job.id);
+
+    res.status(202).json(job);
+  } catch (error) {
+    console.error('Error creating export:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to start export' });
+  }
+});
+
+// Get export progress
+router.get('/:id', authenticateToken, async (req, res) => {
+  try {
+    const job = await findOwnJob(req.params.id, req.user.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Export not found' });
+    }
+
+    // The storage path stays on the server
+    const { file_path, ...details } = job;
+
+    if (job.status === 'completed' && new Date(job.expires_at) < new Date()) {
+      return res.status(410).json({ error: 'This export has expired' });
+    }
+
+    res.json(details);
+  } catch (error) {
+    console.error('Error fetching export:', error);
+    res.status(500).json({ error: 'Failed to fetch export' });
+  }
+});
+
+// Download the file of a finished export
+router.get('/:id/download', authenticateToken, async (req, res) => {
+  try {
+    const job = await findOwnJob(req.params.id, req.user.id);
+    if (!job || job.status !== 'completed') {
+      return res.status(404).json({ error: 'Export not found' });
+    }
+
+    if (new Date(job.expires_at) < new Date()) {
+      return res.status(410).json({ error: 'This export has expired' });
+    }
+
+    const file = await readExportFile(job);
+    if (!file) {
+      return res.status(404).json({ error: 'Export not found' });
+    }
+
+    res.set({
+      'Content-Type': CONTENT_TYPES[job.format],
+      'Content-Length': file.length,
+      'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(job.filename)}`,
+      'Cache-Control': 'private, no-store'
+    });
+    res.send(file);
+  } catch (error) {
+    console.error('Error downloading export:', error);
+    res.status(500).json({ error: 'Failed to download export' });
+  }
+});
+
+// Delete a finished or failed export and its file
+router.delete('/:id', authenticateToken, async (req, res) => {
+  try {
+    const job = await findOwnJob(req.params.id, req.user.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Export not found' });
+    }
+
+    if (job.status === 'queued' || job.status === 'running') {
+      return res.status(409).json({ error: 'Exports cannot be deleted while they are running' });
+    }
+
+    await removeExportJobs([job]);
+
+    res.json({ message: 'Export deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting export:', error);
+    res.status(500).json({ error: 'Failed to delete export' });
+  }
+});
+
+export default router;
\ No newline at end of file
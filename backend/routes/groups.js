@@ -0,0 +1,299 @@
+import express from 'express';
+import { z } from 'zod';
+import { supabaseAdmin } from '../config/database.js';
+import { authenticateToken, requireVerifiedEmail } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// Validation schemas
+const groupSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional()
+});
+
+const memberSchema = z.object({
+  userEmail: z.string().email(),
+  role: z.enum(['admin', 'member']).default('member')
+});
+
+// Role of a user in a group, or null when they are not a member
+const getGroupRole = async (groupId, userId) => {
+  const { data: membership } = await supabaseAdmin
+    .from('group_members')
+    .select('role')
+    .eq('group_id', groupId)
+    .eq('user_id', userId)
+    .single();
+
+  return membership?.role || null;
+};
+
+const countAdmins = async (groupId) => {
+  const { count, error } = await supabaseAdmin
+    .from('group_members')
+    .select('id', { count: 'exact', head: true })
+    .eq('group_id', groupId)
+    .eq('role', 'admin');
+
+  if (error) throw error;
+  return count;
+};
+
+// Get groups the current user belongs to
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const { data: memberships, error: membershipError } = await supabaseAdmin
+      .from('group_members')
+      .select('group_id, role')
+      .eq('user_id', req.user.id);
+
+    if (membershipError) throw membershipError;
+
+    if (memberships.length === 0) {
+      return res.json([]);
+    }
+
+    const { data: groups, error } = await supabaseAdmin
+      .from('groups')
+      .select('*, members:group_members(count)')
+      .in('id', memberships.map(membership => membership.group_id))
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+
+    const roles = new Map(memberships.map(membership => [membership.group_id, membership.role]));
+    res.json(groups.map(({ members, ...group }) => ({
+      ...group,
+      role: roles.get(group.id),
+      member_count: members[0]?.count || 0
+    })));
+  } catch (error) {
+    console.error('Error fetching groups:', error);
+    res.status(500).json({ error: 'Failed to fetch groups' });
+  }
+});
+
+// Create group; the creator becomes its first admin
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const { name, description } = groupSchema.parse(req.body);
+
+    const { data: group, error } = await supabaseAdmin
+      .from('groups')
+      .insert({
+        name,
+        description: description || '',
+        created_by: req.user.id
+      })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+
+    const { error: memberError } = await supabaseAdmin
+      .from('group_members')
+      .insert({
+        group_id: group.id,
+        user_id: req.user.id,
+        role: 'admin',
+        added_by: req.user.id
+      });
+
+    if (memberError) throw memberError;
+
+    res.status(201).json({ ...group, role: 'admin', member_count: 1 });
+  } catch (error) {
+    console.error('Error creating group:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to create group' });
+  }
+});
+
+// Get group with its members
+router.get('/:id', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const role = await getGroupRole(id, req.user.id);
+    if (!role) {
+      return res.status(404).json({ error: 'Group not found' });
+    }
+
+    const { data: group, error } = await supabaseAdmin
+      .from('groups')
+      .select(`
+        *,
+        members:group_members(
+          user_id, role, created_at,
+          user:users!group_members_user_id_fkey(id, first_name, last_name, email)
+        )
+      `)
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+
+    res.json({ ...group, role });
+  } catch (error) {
+    console.error('Error fetching group:', error);
+    res.status(500).json({ error: 'Failed to fetch group' });
+  }
+});
+
+// Update group
+router.put('/:id', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { name, description } = groupSchema.parse(req.body);
+
+    const role = await getGroupRole(id, req.user.id);
+    if (!role) {
+      return res.status(404).json({ error: 'Group not found' });
+    }
+    if (role !== 'admin') {
+      return res.status(403).json({ error: 'Only group admins can update the group' });
+    }
+
+    const { data: group, error } = await supabaseAdmin
+      .from('groups')
+      .update({
+        name,
+        ...(description !== undefined && { description }),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select('*')
+      .single();
+
+    if (error) throw error;
+
+    res.json({ ...group, role });
+  } catch (error) {
+    console.error('Error updating group:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to update group' });
+  }
+});
+
+// Delete group (documents shared with it are no longer shared)
+router.delete('/:id', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const role = await getGroupRole(id, req.user.id);
+    if (!role) {
+      return res.status(404).json({ error: 'Group not found' });
+    }
+    if (role !== 'admin') {
+      return res.status(403).json({ error: 'Only group admins can delete the group' });
+    }
+
+    const { error } = await supabaseAdmin
+      .from('groups')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+
+    res.json({ message: 'Group deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting group:', error);
+    res.status(500).json({ error: 'Failed to delete group' });
+  }
+});
+
+// Add member or change their role. Access granted through the group's shares
+// is resolved on every request, so new members see them right away.
+router.post('/:id/members', authenticateToken, requireVerifiedEmail, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { userEmail, role } = memberSchema.parse(req.body);
+
+    const callerRole = await getGroupRole(id, req.user.id);
+    if (!callerRole) {
+      return res.status(404).json({ error: 'Group not found' });
+    }
+    if (callerRole !== 'admin') {
+      return res.status(403).json({ error: 'Only group admins can manage members' });
+    }
+
+    const { data: targetUser, error: userError } = await supabaseAdmin
+      .from('users')
+      .select('id, first_name, last_name, email, email_verified_at')
+      .eq('email', userEmail)
+      .single();
+
+    if (userError || !targetUser) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (!targetUser.email_verified_at) {
+      return res.status(400).json({ error: 'This user has not verified their email address yet' });
+    }
+
+    const currentRole = await getGroupRole(id, targetUser.id);
+    if (currentRole === 'admin' && role !== 'admin' && await countAdmins(id) === 1) {
+      return res.status(400).json({ error: 'A group needs at least one admin' });
+    }
+
+    const { data: member, error } = await supabaseAdmin
+      .from('group_members')
+      .upsert({
+        group_id: id,
+        user_id: targetUser.id,
+        role,
+        added_by: req.user.id
+      }, { onConflict: 'group_id,user_id' })
+      .select('user_id, role, created_at')
+      .single();
+
+    if (error) throw error;
+
+    res.json({ ...member, user: targetUser });
+  } catch (error) {
+    console.error('Error adding group member:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to add group member' });
+  }
+});
+
+// Remove member (admins can remove anyone, members can leave)
+router.delete('/:id/members/:userId', authenticateToken, async (req, res) => {
+  try {
+    const { id, userId } = req.params;
+
+    const callerRole = await getGroupRole(id, req.user.id);
+    if (!callerRole) {
+      return res.status(404).json({ error: 'Group not found' });
+    }
+    if (callerRole !== 'admin' && userId !== req.user.id) {
+      return res.status(403).json({ error: 'Only group admins can manage members' });
+    }
+
+    const targetRole = await getGroupRole(id, userId);
+    if (targetRole === 'admin' && await countAdmins(id) === 1) {
+      return res.status(400).json({ error: 'A group needs at least one admin' });
+    }
+
+    const { error } = await supabaseAdmin
+      .from('group_members')
+      .delete()
+      .eq('group_id', id)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+
+    res.json({ message: 'Member removed successfully' });
+  } catch (error) {
+    console.error('Error removing group member:', error);
+    res.status(500).json({ error: 'Failed to remove group member' });
+  }
+});
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,250 @@
+import express from 'express';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { supabaseAdmin } from '../config/database.js';
+import { authenticateToken } from '../middleware/auth.js';
+import { canEdit, getDocumentAccess, getSpaceRole, SPACE_ROLE_PERMISSIONS } from '../utils/permissions.js';
+import {
+  IMPORT_BUCKET,
+  IMPORT_JOB_FIELDS,
+  enqueueImportJob,
+  removeImportJobs
+} from '../utils/importJobs.js';
+
+const router = express.Router();
+
+// Queued and running imports allowed per user at a time
+const MAX_ACTIVE_IMPORTS = 2;
+
+const JOB_SELECT = `${IMPORT_JOB_FIELDS}, space:spaces(id, name), parent:documents(id, title)`;
+
+// Validation schemas
+const createImportSchema = z.object({
+  source: z.enum(['confluence', 'notion']),
+  // Path returned by POST /api/imports/uploads
+  uploadPath: z.string().min(1),
+  filename: z.string().min(1).max(255),
+  spaceId: z.string().uuid().nullable().optional(),
+  parentId: z.string().uuid().nullable().optional()
+});
+
+const isActive = (job) => job.status === 'queued' || job.status === 'running';
+
+const findOwnJob = async (id, userId) => {
+  const { data: job } = await supabaseAdmin
+    .from('import_jobs')
+    .select(`${JOB_SELECT}, upload_path`)
+    .eq('id', id)
+    .eq('user_id', userId)
+    .single();
+
+  return job;
+};
+
+// Imported pages go under `parentId`, or at the top level of `spaceId`. Both
+// need edit rights, like creating a document there. Resolves with the space
+// the pages end up in, or with an error response.
+const checkImportTarget = async (user, { spaceId, parentId }) => {
+  if (parentId) {
+    const { document: parent, permission } = await getDocumentAccess(parentId, user);
+    if (!parent) {
+      return { status: 404, error: 'Parent page not found' };
+    }
+    if (!canEdit(permission)) {
+      return { status: 403, error: 'Edit permission on the parent page required' };
+    }
+    return { spaceId: parent.space_id };
+  }
+
+  if (spaceId && !canEdit(SPACE_ROLE_PERMISSIONS[await getSpaceRole(spaceId, user.id)])) {
+    return { status: 403, error: 'You need to be an editor of this space to add documents' };
+  }
+  return { spaceId: spaceId || null };
+};
+
+const countActiveImports = async (userId) => {
+  const { count, error } = await supabaseAdmin
+    .from('import_jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .in('status', ['queued', 'running']);
+
+  if (error) throw error;
+  return count;
+};
+
+// Get the user's recent imports
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const { data: jobs, error } = await supabaseAdmin
+      .from('import_jobs')
+      .select(JOB_SELECT)
+      .eq('user_id', req.user.id)
+      .order('created_at', { ascending: false })
+      .limit(20);
+
+    if (error) throw error;
+
+    res.json(jobs);
+  } catch (error) {
+    console.error('Error fetching imports:', error);
+    res.status(500).json({ error: 'Failed to fetch imports' });
+  }
+});
+
+// Get a signed URL to upload an export archive to. Archives go straight to
+// storage because they are usually larger than API request bodies may be.
+router.post('/uploads', authenticateToken, async (req, res) => {
+  try {
+    const path = `${req.user.id}/${uuidv4()}.zip`;
+    const { data, error } = await supabaseAdmin.storage
+      .from(IMPORT_BUCKET)
+      .createSignedUploadUrl(path);
+
+    if (error) throw error;
+
+    res.status(201).json({ path, uploadUrl: data.signedUrl });
+  } catch (error) {
+    console.error('Error creating import upload:', error);
+    res.status(500).json({ error: 'Failed to prepare upload' });
+  }
+});
+
+// Start an import of an uploaded archive. Responds right away with the queued
+// job; poll GET /api/imports/:id for progress.
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const { source, uploadPath, filename, spaceId, parentId } = createImportSchema.parse(req.body);
+
+    if (!uploadPath.startsWith(`${req.user.id}/`)) {
+      return res.status(400).json({ error: 'Upload not found' });
+    }
+
+    const target = await checkImportTarget(req.user, { spaceId, parentId });
+    if (target.error) {
+      return res.status(target.status).json({ error: target.error });
+    }
+
+    if (await countActiveImports(req.user.id) >= MAX_ACTIVE_IMPORTS) {
+      return res.status(429).json({ error: 'Wait for your running imports to finish before starting another' });
+    }
+
+    const { data: job, error } = await supabaseAdmin
+      .from('import_jobs')
+      .insert({
+        user_id: req.user.id,
+        source,
+        upload_path: uploadPath,
+        filename,
+        space_id: target.spaceId,
+        parent_id: parentId || null
+      })
+      .select(JOB_SELECT)
+      .single();
+
+    if (error) throw error;
+
+    enqueueImportJob(job.id);
+
+    res.status(202).json(job);
+  } catch (error) {
+    console.error('Error creating import:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to start import' });
+  }
+});
+
+// Get import progress, counts and failures
+router.get('/:id', authenticateToken, async (req, res) => {
+  try {
+    const job = await findOwnJob(req.params.id, req.user.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Import not found' });
+    }
+
+    const { upload_path: uploadPath, ...details } = job;
+    res.json(details);
+  } catch (error) {
+    console.error('Error fetching import:', error);
+    res.status(500).json({ error: 'Failed to fetch import' });
+  }
+});
+
+// Run a finished or failed import again from the same archive. Pages imported
+// before are updated in place rather than duplicated.
+router.post('/:id/rerun', authenticateToken, async (req, res) => {
+  try {
+    const job = await findOwnJob(req.params.id, req.user.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Import not found' });
+    }
+
+    if (isActive(job)) {
+      return res.status(409).json({ error: 'This import is already running' });
+    }
+
+    const target = await checkImportTarget(req.user, { spaceId: job.space_id, parentId: job.parent_id });
+    if (target.error) {
+      return res.status(target.status).json({ error: target.error });
+    }
+
+    if (await countActiveImports(req.user.id) >= MAX_ACTIVE_IMPORTS) {
+      return res.status(429).json({ error: 'Wait for your running imports to finish before starting another' });
+    }
+
+    const { data: queued, error } = await supabaseAdmin
+      .from('import_jobs')
+      .update({
+        status: 'queued',
+        space_id: target.spaceId,
+        progress: 0,
+        processed_items: 0,
+        total_items: null,
+        created_count: 0,
+        updated_count: 0,
+        attachment_count: 0,
+        failures: [],
+        error: null,
+        started_at: null,
+        completed_at: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', job.id)
+      .select(JOB_SELECT)
+      .single();
+
+    if (error) throw error;
+
+    enqueueImportJob(queued.id);
+
+    res.status(202).json(queued);
+  } catch (error) {
+    console.error('Error re-running import:', error);
+    res.status(500).json({ error: 'Failed to re-run import' });
+  }
+});
+
+// Delete a finished or failed import and its archive. Imported documents stay.
+router.delete('/:id', authenticateToken, async (req, res) => {
+  try {
+    const job = await findOwnJob(req.params.id, req.user.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Import not found' });
+    }
+
+    if (isActive(job)) {
+      return res.status(409).json({ error: 'Imports cannot be deleted while they are running' });
+    }
+
+    await removeImportJobs([job]);
+
+    res.json({ message: 'Import deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting import:', error);
+    res.status(500).json({ error: 'Failed to delete import' });
+  }
+});
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,88 @@
+import express from 'express';
+import { supabaseAdmin } from '../config/database.js';
+import { authenticateToken } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// Get notifications for the current user
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit, 10) || 20, 100);
+
+    let query = supabaseAdmin
+      .from('notifications')
+      .select(`
+        *,
+        document:documents(id, title),
+        actor:users!notifications_actor_id_fkey(id, first_name, last_name, email)
+      `)
+      .eq('user_id', req.user.id)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (req.query.unread === 'true') {
+      query = query.is('read_at', null);
+    }
+
+    const { data: notifications, error } = await query;
+
+    if (error) throw error;
+
+    const { count: unreadCount, error: countError } = await supabaseAdmin
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', req.user.id)
+      .is('read_at', null);
+
+    if (countError) throw countError;
+
+    res.json({ notifications, unreadCount });
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    res.status(500).json({ error: 'Failed to fetch notifications' });
+  }
+});
+
+// Mark all notifications as read
+router.post('/read-all', authenticateToken, async (req, res) => {
+  try {
+    const { error } = await supabaseAdmin
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', req.user.id)
+      .is('read_at', null);
+
+    if (error) throw error;
+
+    res.json({ message: 'All notifications marked as read' });
+  } catch (error) {
+    console.error('Error marking notifications as read:', error);
+    res.status(500).json({ error: 'Failed to mark notifications as read' });
+  }
+});
+
+// Mark a single notification as read
+router.post('/:id/read', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const { data: notification, error } = await supabaseAdmin
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', req.user.id)
+      .select('*')
+      .single();
+
+    if (error || !notification) {
+      return res.status(404).json({ error: 'Notification not found' });
+    }
+
+    res.json(notification);
+  } catch (error) {
+    console.error('Error marking notification as read:', error);
+    res.status(500).json({ error: 'Failed to mark notification as read' });
+  }
+});
+
+export default router;
@@ -1,62 +1,188 @@
 import express from 'express';
+import { z } from 'zod';
 import { supabaseAdmin } from '../config/database.js';
 import { authenticateToken } from '../middleware/auth.js';
+import { grantedDocumentsFilter, getAccessGrants } from '../utils/permissions.js';
+import { parseSearchQuery } from '../utils/searchQuery.js';
+import { buildSnippet, buildTermPattern, findMatches } from '../utils/searchSnippets.js';
 
 const router = express.Router();
 
-// Search documents
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Preset "updated within" ranges offered as facets
+const UPDATED_RANGES = { week: 7, month: 30, year: 365 };
+
+const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+// Validation schemas
+const searchFiltersSchema = z.object({
+  author: z.string().uuid().optional(),
+  visibility: z.enum(['public', 'private']).optional(),
+  ownership: z.enum(['all', 'mine', 'shared']).default('all'),
+  from: z.string().regex(datePattern).optional(),
+  to: z.string().regex(datePattern).optional()
+});
+
+// `to` is inclusive: everything before the start of the following day
+const endOfDay = (date) => new Date(new Date(date).getTime() + DAY).toISOString();
+
+// Facet counts for a search, counted by the database over every accessible
+// match. Each facet is counted with the other filters applied so it shows
+// what choosing one of its values would return.
+const countFacets = async (parsed, filters, { userId, grants }) => {
+  const { data: rows, error } = await supabaseAdmin.rpc('search_facets', {
+    search_query: parsed.tsquery,
+    viewer_id: userId,
+    shared_ids: grants.sharedIds,
+    space_ids: grants.spaceIds,
+    author_filter: filters.author ?? null,
+    visibility_filter: filters.visibility ?? null,
+    ownership_filter: filters.ownership,
+    updated_from: filters.from ? new Date(filters.from).toISOString() : null,
+    updated_to: filters.to ? endOfDay(filters.to) : null,
+    tag_names: parsed.tags
+  });
+
+  if (error) throw error;
+
+  const authorCounts = new Map();
+  const facets = {
+    authors: [],
+    visibility: { public: 0, private: 0 },
+    ownership: { all: 0, mine: 0, shared: 0 },
+    updated: Object.fromEntries(Object.keys(UPDATED_RANGES).map(range => [range, 0]))
+  };
+
+  for (const { facet, value, count } of rows) {
+    if (facet === 'author') {
+      authorCounts.set(value, Number(count));
+    } else {
+      facets[facet][value] = Number(count);
+    }
+  }
+
+  if (authorCounts.size > 0) {
+    const { data: authors, error } = await supabaseAdmin
+      .from('users')
+      .select('id, first_name, last_name')
+      .in('id', [...authorCounts.keys()]);
+
+    if (error) throw error;
+
+    facets.authors = authors
+      .map(author => ({
+        id: author.id,
+        name: `${author.first_name} ${author.last_name}`,
+        count: authorCounts.get(author.id)
+      }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+  }
+
+  return facets;
+};
+
+
+const MATCH_FIELDS = 'id, title, author_id, is_public, space_id, created_at, updated_at, rank';
+
+// Search documents, best matches first.
+// Supports "quoted phrases", -exclusions, prefix* matching and tag:name; paged with
+// ?limit= and ?offset=. Filters: ?author=, ?visibility=public|private,
+// ?ownership=all|mine|shared and ?from= / ?to= (YYYY-MM-DD, on updated_at).
+// Facet counts for each filter come back alongside the results.
 router.get('/', authenticateToken, async (req, res) => {
   try {
-    const { q } = req.query;
+    const { q = '' } = req.query;
+    const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const offset = Math.max(parseInt(req.query.offset, 10) || 0, 0);
+    const filters = searchFiltersSchema.parse(req.query);
 
-    if (!q || q.length < 2) {
-      return res.json([]);
+    const parsed = parseSearchQuery(String(q));
+    if (!parsed) {
+      return res.json({ results: [], total: 0, limit, offset, terms: [], tags: [], facets: null });
     }
 
-    // Search in documents user has access to
-    const { data: documents, error } = await supabaseAdmin
-      .from('documents')
-      .select(`
-        id, title, content, created_at, updated_at, is_public,
-        author:users!documents_author_id_fkey(id, first_name, last_name, email),
-        document_shares!left(permission)
-      `)
-      .or(`
-        and(title.ilike.%${q}%,or(author_id.eq.${req.user.id},document_shares.user_id.eq.${req.user.id},is_public.eq.true)),
-        and(content.ilike.%${q}%,or(author_id.eq.${req.user.id},document_shares.user_id.eq.${req.user.id},is_public.eq.true))
-      `)
-      .order('updated_at', { ascending: false })
-      .limit(20);
+    const grants = await getAccessGrants(req.user.id);
+    const granted = grantedDocumentsFilter(grants);
+
+    // Rank matches among the documents the user has access to (own, public,
+    // shared, spaces, and pages inheriting from those); the ranking function
+    // applies access and tag: operators, to the results and the facets
+    // alike. Tag-only queries rank every tagged document 0, so they come most
+    // recently updated first.
+    let query = supabaseAdmin
+      .rpc('search_documents', {
+        search_query: parsed.tsquery,
+        tag_names: parsed.tags,
+        viewer_id: req.user.id,
+        shared_ids: grants.sharedIds,
+        space_ids: grants.spaceIds
+      }, { count: 'exact' })
+      .select(MATCH_FIELDS);
+
+    if (filters.author) query = query.eq('author_id', filters.author);
+    if (filters.visibility) query = query.eq('is_public', filters.visibility === 'public');
+    if (filters.from) query = query.gte('updated_at', new Date(filters.from).toISOString());
+    if (filters.to) query = query.lt('updated_at', endOfDay(filters.to));
+    if (filters.ownership === 'mine') query = query.eq('author_id', req.user.id);
+    if (filters.ownership === 'shared') {
+      query = granted ? query.neq('author_id', req.user.id).or(granted) : query.in('id', []);
+    }
+
+    // Facets are counted over every accessible match, whatever the filters
+    const [{ data: matches, count, error }, facets] = await Promise.all([
+      query
+        .order('rank', { ascending: false })
+        .order('updated_at', { ascending: false })
+        .range(offset, offset + limit - 1),
+      countFacets(parsed, filters, { userId: req.user.id, grants })
+    ]);
 
     if (error) throw error;
 
-    // Remove duplicates and add search highlights
-    const uniqueDocuments = documents.reduce((acc, doc) => {
-      if (!acc.find(d => d.id === doc.id)) {
-        // Add search highlights
-        const titleMatch = doc.title.toLowerCase().includes(q.toLowerCase());
-        const contentMatch = doc.content.toLowerCase().includes(q.toLowerCase());
-        
-        let snippet = '';
-        if (contentMatch) {
-          const index = doc.content.toLowerCase().indexOf(q.toLowerCase());
-          const start = Math.max(0, index - 50);
-          const end = Math.min(doc.content.length, index + q.length + 50);
-          snippet = '...' + doc.content.substring(start, end) + '...';
-        }
-
-        acc.push({
-          ...doc,
-          titleMatch,
-          contentMatch,
-          snippet
-        });
-      }
-      return acc;
-    }, []);
-
-    res.json(uniqueDocuments);
+    let documents = [];
+    if (matches.length > 0) {
+      const { data, error: docError } = await supabaseAdmin
+        .from('documents')
+        .select(`
+          id, title, content, created_at, updated_at, is_public, space_id,
+          author:users!documents_author_id_fkey(id, first_name, last_name, email)
+        `)
+        .in('id', matches.map(match => match.id));
+
+      if (docError) throw docError;
+      documents = data;
+    }
+
+    // Keep the ranked order and replace the content with a plain-text snippet;
+    // highlights are [start, end] offsets into the title and snippet
+    const termPattern = buildTermPattern(parsed.terms);
+    const documentsById = new Map(documents.map(document => [document.id, document]));
+    const results = matches
+      .filter(match => documentsById.has(match.id))
+      .map(match => {
+        const { content, ...document } = documentsById.get(match.id);
+        const { snippet, highlights, section } = buildSnippet(content, termPattern);
+
+        return {
+          ...document,
+          rank: match.rank ?? 0,
+          titleHighlights: findMatches(document.title, termPattern),
+          snippet,
+          snippetHighlights: highlights,
+          section
+        };
+      });
+
+    res.json({ results, total: count, limit, offset, terms: parsed.terms, tags: parsed.tags, facets });
   } catch (error) {
+    console.error('Error searching documents:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
     res.status(500).json({ error: 'Search failed' });
   }
 });
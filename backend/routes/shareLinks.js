@@ -0,0 +1,34 @@
+import express from 'express';
+import { resolveShareLink, issueShareAccess, SHARE_PASSWORD_HEADER } from '../utils/shareLinks.js';
+
+const router = express.Router();
+
+// Look up the document behind a share link. Password-protected links only
+// reveal it once the password is sent along, and then return `access` to send
+// in the X-Share-Access header from then on.
+router.get('/:token', async (req, res) => {
+  try {
+    const password = req.headers[SHARE_PASSWORD_HEADER];
+    const { link, error, passwordRequired } = await resolveShareLink(req.params.token, { password });
+
+    if (passwordRequired && !password) {
+      return res.json({ passwordRequired: true });
+    }
+
+    if (!link) {
+      return res.status(passwordRequired ? 403 : 404).json({ error });
+    }
+
+    res.json({
+      documentId: link.document_id,
+      permission: link.permission,
+      passwordRequired: false,
+      ...(link.password_hash && { access: issueShareAccess(link) })
+    });
+  } catch (error) {
+    console.error('Error resolving share link:', error);
+    res.status(500).json({ error: 'Failed to open share link' });
+  }
+});
+
+export default router;
\ No newline at end of file
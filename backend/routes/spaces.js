@@ -0,0 +1,277 @@
+import express from 'express';
+import { z } from 'zod';
+import { supabaseAdmin } from '../config/database.js';
+import { authenticateToken, requireVerifiedEmail } from '../middleware/auth.js';
+import { getSpaceRole, getUserSpaces } from '../utils/permissions.js';
+
+const router = express.Router();
+
+// Validation schemas
+const spaceSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional()
+});
+
+const memberSchema = z.object({
+  userEmail: z.string().email(),
+  role: z.enum(['admin', 'editor', 'viewer'])
+});
+
+const countAdmins = async (spaceId) => {
+  const { count, error } = await supabaseAdmin
+    .from('space_members')
+    .select('id', { count: 'exact', head: true })
+    .eq('space_id', spaceId)
+    .eq('role', 'admin');
+
+  if (error) throw error;
+  return count;
+};
+
+// Get spaces the current user belongs to
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const memberships = await getUserSpaces(req.user.id);
+    if (memberships.length === 0) {
+      return res.json([]);
+    }
+
+    const { data: spaces, error } = await supabaseAdmin
+      .from('spaces')
+      .select('*')
+      .in('id', memberships.map(membership => membership.space_id))
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+
+    const roles = new Map(memberships.map(membership => [membership.space_id, membership.role]));
+    res.json(spaces.map(space => ({ ...space, role: roles.get(space.id) })));
+  } catch (error) {
+    console.error('Error fetching spaces:', error);
+    res.status(500).json({ error: 'Failed to fetch spaces' });
+  }
+});
+
+// Create space; the creator becomes its first admin
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const { name, description } = spaceSchema.parse(req.body);
+
+    const { data: space, error } = await supabaseAdmin
+      .from('spaces')
+      .insert({
+        name,
+        description: description || '',
+        created_by: req.user.id
+      })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+
+    const { error: memberError } = await supabaseAdmin
+      .from('space_members')
+      .insert({
+        space_id: space.id,
+        user_id: req.user.id,
+        role: 'admin',
+        added_by: req.user.id
+      });
+
+    if (memberError) throw memberError;
+
+    res.status(201).json({ ...space, role: 'admin' });
+  } catch (error) {
+    console.error('Error creating space:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to create space' });
+  }
+});
+
+// Get space with its members
+router.get('/:id', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const role = await getSpaceRole(id, req.user.id);
+    if (!role) {
+      return res.status(404).json({ error: 'Space not found' });
+    }
+
+    const { data: space, error } = await supabaseAdmin
+      .from('spaces')
+      .select(`
+        *,
+        members:space_members(
+          user_id, role, created_at,
+          user:users!space_members_user_id_fkey(id, first_name, last_name, email)
+        )
+      `)
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+
+    res.json({ ...space, role });
+  } catch (error) {
+    console.error('Error fetching space:', error);
+    res.status(500).json({ error: 'Failed to fetch space' });
+  }
+});
+
+// Update space
+router.put('/:id', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { name, description } = spaceSchema.parse(req.body);
+
+    const role = await getSpaceRole(id, req.user.id);
+    if (!role) {
+      return res.status(404).json({ error: 'Space not found' });
+    }
+    if (role !== 'admin') {
+      return res.status(403).json({ error: 'Only space admins can update the space' });
+    }
+
+    const { data: space, error } = await supabaseAdmin
+      .from('spaces')
+      .update({
+        name,
+        ...(description !== undefined && { description }),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select('*')
+      .single();
+
+    if (error) throw error;
+
+    res.json({ ...space, role });
+  } catch (error) {
+    console.error('Error updating space:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to update space' });
+  }
+});
+
+// Delete space (its documents go back to their authors)
+router.delete('/:id', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const role = await getSpaceRole(id, req.user.id);
+    if (!role) {
+      return res.status(404).json({ error: 'Space not found' });
+    }
+    if (role !== 'admin') {
+      return res.status(403).json({ error: 'Only space admins can delete the space' });
+    }
+
+    const { error } = await supabaseAdmin
+      .from('spaces')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+
+    res.json({ message: 'Space deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting space:', error);
+    res.status(500).json({ error: 'Failed to delete space' });
+  }
+});
+
+// Add member or change their role
+router.post('/:id/members', authenticateToken, requireVerifiedEmail, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { userEmail, role } = memberSchema.parse(req.body);
+
+    const callerRole = await getSpaceRole(id, req.user.id);
+    if (!callerRole) {
+      return res.status(404).json({ error: 'Space not found' });
+    }
+    if (callerRole !== 'admin') {
+      return res.status(403).json({ error: 'Only space admins can manage members' });
+    }
+
+    const { data: targetUser, error: userError } = await supabaseAdmin
+      .from('users')
+      .select('id, first_name, last_name, email, email_verified_at')
+      .eq('email', userEmail)
+      .single();
+
+    if (userError || !targetUser) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (!targetUser.email_verified_at) {
+      return res.status(400).json({ error: 'This user has not verified their email address yet' });
+    }
+
+    const currentRole = await getSpaceRole(id, targetUser.id);
+    if (currentRole === 'admin' && role !== 'admin' && await countAdmins(id) === 1) {
+      return res.status(400).json({ error: 'A space needs at least one admin' });
+    }
+
+    const { data: member, error } = await supabaseAdmin
+      .from('space_members')
+      .upsert({
+        space_id: id,
+        user_id: targetUser.id,
+        role,
+        added_by: req.user.id
+      }, { onConflict: 'space_id,user_id' })
+      .select('user_id, role, created_at')
+      .single();
+
+    if (error) throw error;
+
+    res.json({ ...member, user: targetUser });
+  } catch (error) {
+    console.error('Error adding space member:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to add space member' });
+  }
+});
+
+// Remove member (admins can remove anyone, members can leave)
+router.delete('/:id/members/:userId', authenticateToken, async (req, res) => {
+  try {
+    const { id, userId } = req.params;
+
+    const callerRole = await getSpaceRole(id, req.user.id);
+    if (!callerRole) {
+      return res.status(404).json({ error: 'Space not found' });
+    }
+    if (callerRole !== 'admin' && userId !== req.user.id) {
+      return res.status(403).json({ error: 'Only space admins can manage members' });
+    }
+
+    const targetRole = await getSpaceRole(id, userId);
+    if (targetRole === 'admin' && await countAdmins(id) === 1) {
+      return res.status(400).json({ error: 'A space needs at least one admin' });
+    }
+
+    const { error } = await supabaseAdmin
+      .from('space_members')
+      .delete()
+      .eq('space_id', id)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+
+    res.json({ message: 'Member removed successfully' });
+  } catch (error) {
+    console.error('Error removing space member:', error);
+    res.status(500).json({ error: 'Failed to remove space member' });
+  }
+});
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,103 @@
+import express from 'express';
+import { z } from 'zod';
+import { supabaseAdmin } from '../config/database.js';
+import { authenticateToken } from '../middleware/auth.js';
+import { accessibleDocumentsFilter } from '../utils/permissions.js';
+import { normalizeTagName, tagNameSchema } from '../utils/tags.js';
+
+const router = express.Router();
+
+const AUTOCOMPLETE_LIMIT = 10;
+
+// Validation schemas
+const mergeTagsSchema = z.object({
+  from: z.array(tagNameSchema).min(1).max(20),
+  to: tagNameSchema
+});
+
+// Get the tags used on documents the user can access, most used first.
+// ?q= autocompletes: only tags starting with q, at most 10.
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const prefix = req.query.q ? normalizeTagName(String(req.query.q)) : '';
+    const accessible = await accessibleDocumentsFilter(req.user.id);
+
+    let query = supabaseAdmin
+      .from('document_tags')
+      .select('name, documents!inner(id)')
+      .or(accessible, { referencedTable: 'documents' });
+
+    if (prefix) {
+      query = query.like('name', `${prefix.replace(/[%_\\]/g, '\\$&')}%`);
+    }
+
+    const { data: rows, error } = await query;
+
+    if (error) throw error;
+
+    const counts = new Map();
+    rows.forEach(({ name }) => counts.set(name, (counts.get(name) || 0) + 1));
+
+    const tags = [...counts]
+      .map(([name, count]) => ({ name, count }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+
+    res.json(prefix ? tags.slice(0, AUTOCOMPLETE_LIMIT) : tags);
+  } catch (error) {
+    console.error('Error fetching tags:', error);
+    res.status(500).json({ error: 'Failed to fetch tags' });
+  }
+});
+
+// Rename tags, or merge several into one, across every document the user
+// owns. Tags on other people's documents are left alone.
+router.post('/merge', authenticateToken, async (req, res) => {
+  try {
+    const { from, to } = mergeTagsSchema.parse(req.body);
+    const sources = [...new Set(from)].filter(name => name !== to);
+
+    if (sources.length === 0) {
+      return res.status(400).json({ error: 'Choose at least one tag other than the target' });
+    }
+
+    const { data: rows, error: rowsError } = await supabaseAdmin
+      .from('document_tags')
+      .select('id, document_id, documents!inner(author_id)')
+      .in('name', sources)
+      .eq('documents.author_id', req.user.id);
+
+    if (rowsError) throw rowsError;
+
+    if (rows.length === 0) {
+      return res.json({ tag: to, documentCount: 0 });
+    }
+
+    const documentIds = [...new Set(rows.map(row => row.document_id))];
+
+    const { error: insertError } = await supabaseAdmin
+      .from('document_tags')
+      .upsert(
+        documentIds.map(documentId => ({ document_id: documentId, name: to, created_by: req.user.id })),
+        { onConflict: 'document_id,name', ignoreDuplicates: true }
+      );
+
+    if (insertError) throw insertError;
+
+    const { error: deleteError } = await supabaseAdmin
+      .from('document_tags')
+      .delete()
+      .in('id', rows.map(row => row.id));
+
+    if (deleteError) throw deleteError;
+
+    res.json({ tag: to, documentCount: documentIds.length });
+  } catch (error) {
+    console.error('Error merging tags:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to merge tags' });
+  }
+});
+
+export default router;
\ No newline at end of file
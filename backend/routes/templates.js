@@ -0,0 +1,112 @@
+import express from 'express';
+import { z } from 'zod';
+import { supabaseAdmin } from '../config/database.js';
+import { authenticateToken } from '../middleware/auth.js';
+import { getDocumentAccess, getSpaceRole } from '../utils/permissions.js';
+import { TEMPLATE_FIELDS, getUserTemplates } from '../utils/templates.js';
+
+const router = express.Router();
+
+// Validation schemas
+const createTemplateSchema = z.object({
+  documentId: z.string().uuid(),
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional(),
+  // Save for the whole space, or as a personal template when null
+  spaceId: z.string().uuid().nullable().optional()
+});
+
+// Get the templates the user can create documents from
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    res.json(await getUserTemplates(req.user.id));
+  } catch (error) {
+    console.error('Error fetching templates:', error);
+    res.status(500).json({ error: 'Failed to fetch templates' });
+  }
+});
+
+// Save an existing document as a template
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const { documentId, name, description, spaceId } = createTemplateSchema.parse(req.body);
+
+    const { document, permission } = await getDocumentAccess(documentId, req.user);
+    if (!document || !permission) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    if (spaceId && !await getSpaceRole(spaceId, req.user.id)) {
+      return res.status(403).json({ error: 'You are not a member of this space' });
+    }
+
+    const { data: source, error: sourceError } = await supabaseAdmin
+      .from('documents')
+      .select('title, content')
+      .eq('id', documentId)
+      .single();
+
+    if (sourceError) throw sourceError;
+
+    const { data: template, error } = await supabaseAdmin
+      .from('document_templates')
+      .insert({
+        name,
+        description: description || '',
+        title: source.title,
+        content: source.content,
+        space_id: spaceId || null,
+        source_document_id: documentId,
+        created_by: req.user.id
+      })
+      .select(TEMPLATE_FIELDS)
+      .single();
+
+    if (error) throw error;
+
+    res.status(201).json({ ...template, builtIn: false });
+  } catch (error) {
+    console.error('Error creating template:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to create template' });
+  }
+});
+
+// Delete template (its creator, or an admin of its space)
+router.delete('/:id', authenticateToken, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const { data: template } = await supabaseAdmin
+      .from('document_templates')
+      .select('id, space_id, created_by')
+      .eq('id', id)
+      .single();
+
+    const spaceRole = template?.space_id ? await getSpaceRole(template.space_id, req.user.id) : null;
+    const isCreator = template?.created_by === req.user.id;
+
+    if (!template || (!isCreator && !spaceRole)) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+    if (!isCreator && spaceRole !== 'admin') {
+      return res.status(403).json({ error: 'Only the creator or a space admin can delete this template' });
+    }
+
+    const { error } = await supabaseAdmin
+      .from('document_templates')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+
+    res.json({ message: 'Template deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting template:', error);
+    res.status(500).json({ error: 'Failed to delete template' });
+  }
+});
+
+export default router;
\ No newline at end of file
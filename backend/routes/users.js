@@ -4,7 +4,8 @@ import { authenticateToken } from '../middleware/auth.js';
 
 const router = express.Router();
 
-// Search users for mentions
+// Search users for mentions; accounts that are not verified yet cannot be
+// shared with, so they are left out
 router.get('/search', authenticateToken, async (req, res) => {
   try {
     const { q } = req.query;
@@ -18,6 +19,7 @@ router.get('/search', authenticateToken, async (req, res) => {
       .select('id, first_name, last_name, email')
       .or(`first_name.ilike.%${q}%,last_name.ilike.%${q}%,email.ilike.%${q}%`)
       .neq('id', req.user.id)
+      .not('email_verified_at', 'is', null)
       .limit(10);
 
     if (error) throw error;
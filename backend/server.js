@@ -4,9 +4,22 @@ import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import authRoutes from './routes/auth.js';
 import documentRoutes from './routes/documents.js';
+import commentRoutes from './routes/comments.js';
 import userRoutes from './routes/users.js';
 import searchRoutes from './routes/search.js';
+import notificationRoutes from './routes/notifications.js';
+import spaceRoutes from './routes/spaces.js';
+import groupRoutes from './routes/groups.js';
+import shareLinkRoutes from './routes/shareLinks.js';
+import tagRoutes from './routes/tags.js';
+import templateRoutes from './routes/templates.js';
+import exportRoutes from './routes/exports.js';
+import importRoutes from './routes/imports.js';
+import attachmentRoutes from './routes/attachments.js';
 import { errorHandler } from './middleware/errorHandler.js';
+import { attachRealtime } from './realtime/index.js';
+import { startExportWorker } from './utils/exportJobs.js';
+import { startImportWorker } from './utils/importJobs.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -20,16 +33,37 @@ app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:5173',
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Share-Token', 'X-Share-Password', 'X-Share-Access']
 }));
 
-// Rate limiting
+// Rate limiting. The app polls comments, the notification bell and export and
+// import progress; those reads get their own budget so that a few open tabs
+// cannot use up the one saves and everything else depend on.
+const POLLED_ENDPOINTS = [
+  /^\/api\/notifications(\/|\?|$)/,
+  /^\/api\/documents\/[^/]+\/comments(\/|\?|$)/,
+  /^\/api\/(exports|imports)(\/|\?|$)/
+];
+
+const isPolledRead = (req) =>
+  req.method === 'GET' && POLLED_ENDPOINTS.some(pattern => pattern.test(req.originalUrl));
+
 const limiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 100, // limit each IP to 100 requests per windowMs
+  skip: isPolledRead,
+  message: { error: 'Too many requests, please try again later.' }
+});
+
+const pollingLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 1200,
+  skip: (req) => !isPolledRead(req),
   message: { error: 'Too many requests, please try again later.' }
 });
+
 app.use('/api/', limiter);
+app.use('/api/', pollingLimiter);
 
 // Body parsing middleware
 app.use(express.json({ limit: '10mb' }));
@@ -47,8 +81,18 @@ app.get('/api/health', (req, res) => {
 // API routes
 app.use('/api/auth', authRoutes);
 app.use('/api/documents', documentRoutes);
+app.use('/api/documents/:id/comments', commentRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/search', searchRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/spaces', spaceRoutes);
+app.use('/api/groups', groupRoutes);
+app.use('/api/share-links', shareLinkRoutes);
+app.use('/api/tags', tagRoutes);
+app.use('/api/templates', templateRoutes);
+app.use('/api/exports', exportRoutes);
+app.use('/api/imports', importRoutes);
+app.use('/api/attachments', attachmentRoutes);
 
 // Error handling
 app.use(errorHandler);
@@ -58,8 +102,13 @@ app.use('*', (req, res) => {
   res.status(404).json({ error: 'Route not found' });
 });
 
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`🚀 Backend server running on port ${PORT}`);
   console.log(`📊 Health check: http://localhost:${PORT}/api/health`);
+  console.log(`🤝 Collaboration: ws://localhost:${PORT}/collaboration`);
   console.log(`🌐 Frontend URL: ${process.env.FRONTEND_URL || 'http://localhost:5173'}`);
-});
\ No newline at end of file
+});
+
+attachRealtime(server);
+startExportWorker();
+startImportWorker();
\ No newline at end of file
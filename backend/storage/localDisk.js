@@ -0,0 +1,39 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+// Files under a directory on the API server's disk. Fine for a single
+// server; use S3 storage when several API processes share the files.
+export const createLocalDiskStorage = ({ root }) => {
+  const base = path.resolve(root);
+
+  // Keys are generated by the API, but never let one leave the directory
+  const filePath = (key) => {
+    const resolved = path.resolve(base, key);
+    if (!resolved.startsWith(base + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return resolved;
+  };
+
+  return {
+    async put(key, data) {
+      const file = filePath(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, data);
+    },
+
+    // Resolves with null when there is no such file
+    async get(key) {
+      try {
+        return await readFile(filePath(key));
+      } catch (error) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async remove(keys) {
+      await Promise.all(keys.map(key => rm(filePath(key), { force: true })));
+    }
+  };
+};
\ No newline at end of file
@@ -0,0 +1,57 @@
+import {
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client
+} from '@aws-sdk/client-s3';
+
+// S3 allows deleting at most this many objects per request
+const DELETE_BATCH_SIZE = 1000;
+
+// Objects in an S3 bucket or any S3-compatible service (MinIO, Cloudflare R2,
+// Supabase Storage's S3 endpoint, ...), which usually need `endpoint` and
+// path-style URLs. `keyPrefix` is put in front of every key.
+export const createS3Storage = ({
+  bucket,
+  region,
+  endpoint,
+  accessKeyId,
+  secretAccessKey,
+  forcePathStyle,
+  keyPrefix = ''
+}) => {
+  const client = new S3Client({
+    region,
+    endpoint,
+    forcePathStyle,
+    ...(accessKeyId && { credentials: { accessKeyId, secretAccessKey } })
+  });
+
+  return {
+    async put(key, data, { contentType } = {}) {
+      await client.send(new PutObjectCommand({ Bucket: bucket, Key: keyPrefix + key, Body: data, ContentType: contentType }));
+    },
+
+    // Resolves with null when there is no such object
+    async get(key) {
+      try {
+        const { Body } = await client.send(new GetObjectCommand({ Bucket: bucket, Key: keyPrefix + key }));
+        return Buffer.from(await Body.transformToByteArray());
+      } catch (error) {
+        if (error instanceof NoSuchKey) return null;
+        throw error;
+      }
+    },
+
+    async remove(keys) {
+      for (let start = 0; start < keys.length; start += DELETE_BATCH_SIZE) {
+        const batch = keys.slice(start, start + DELETE_BATCH_SIZE);
+        await client.send(new DeleteObjectsCommand({
+          Bucket: bucket,
+          Delete: { Objects: batch.map(key => ({ Key: keyPrefix + key })), Quiet: true }
+        }));
+      }
+    }
+  };
+};
\ No newline at end of file
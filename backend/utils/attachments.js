@@ -0,0 +1,121 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabaseAdmin } from '../config/database.js';
+import { attachmentStorage } from '../config/storage.js';
+
+export const ATTACHMENT_FIELDS = 'id, document_id, filename, content_type, size, created_at';
+
+const CONTENT_TYPES = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  json: 'application/json',
+  zip: 'application/zip',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  mp4: 'video/mp4',
+  mp3: 'audio/mpeg'
+};
+
+// Types browsers may display in place; everything else, SVG included, is
+// served as a download so it cannot run script on the API's origin
+const INLINE_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/pdf']);
+
+export const contentTypeFor = (filename) =>
+  CONTENT_TYPES[filename.split('.').pop().toLowerCase()] || 'application/octet-stream';
+
+export const isInlineType = (contentType) => INLINE_TYPES.has(contentType);
+
+export const isImageType = (contentType) => contentType.startsWith('image/');
+
+// Path documents link to; served by routes/attachments.js
+export const attachmentUrl = (id) => `/api/attachments/${id}`;
+
+// Store a file for a document. `sourcePath` records where an imported file
+// came from so imports can find it again.
+export const storeAttachment = async ({ documentId, filename, data, userId, sourcePath = null }) => {
+  const id = uuidv4();
+  const storagePath = `${documentId}/${id}`;
+  const contentType = contentTypeFor(filename);
+
+  await attachmentStorage.put(storagePath, data, { contentType });
+
+  const { data: attachment, error } = await supabaseAdmin
+    .from('attachments')
+    .insert({
+      id,
+      document_id: documentId,
+      filename,
+      content_type: contentType,
+      size: data.length,
+      storage_path: storagePath,
+      source_path: sourcePath,
+      created_by: userId
+    })
+    .select(ATTACHMENT_FIELDS)
+    .single();
+
+  if (error) throw error;
+  return attachment;
+};
+
+// File contents as a Buffer, or null when the file is gone from storage
+export const readAttachment = (attachment) => attachmentStorage.get(attachment.storage_path);
+
+// Attachments of these documents, for removing their files once the
+// documents are deleted
+export const findDocumentAttachments = async (documentIds) => {
+  const { data, error } = await supabaseAdmin
+    .from('attachments')
+    .select('id, storage_path')
+    .in('document_id', documentIds);
+
+  if (error) throw error;
+  return data;
+};
+
+// Delete the files of attachments whose rows are gone or about to go. Best
+// effort: a leftover file is not worth failing the request over.
+export const removeAttachmentFiles = async (attachments) => {
+  if (attachments.length === 0) return;
+
+  try {
+    await attachmentStorage.remove(attachments.map(attachment => attachment.storage_path));
+  } catch (error) {
+    console.error('Error removing attachment files:', error);
+  }
+};
+
+// The document's attached images that its content shows, by URL, for
+// exports that have to carry the images along
+export const loadDocumentImages = async ({ id, content }) => {
+  if (!content?.includes(attachmentUrl(''))) return new Map();
+
+  const { data, error } = await supabaseAdmin
+    .from('attachments')
+    .select('id, content_type, storage_path')
+    .eq('document_id', id)
+    .like('content_type', 'image/%');
+
+  if (error) throw error;
+
+  const images = new Map();
+  const shown = data.filter(attachment => (content || '').includes(`"${attachmentUrl(attachment.id)}"`));
+
+  await Promise.all(shown.map(async attachment => {
+    const file = await readAttachment(attachment);
+    if (file) {
+      images.set(attachmentUrl(attachment.id), { data: file, contentType: attachment.content_type });
+    }
+  }));
+  return images;
+};
\ No newline at end of file
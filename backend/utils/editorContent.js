@@ -0,0 +1,94 @@
+import { getSchema } from '@tiptap/core';
+import { generateHTML, generateJSON } from '@tiptap/html';
+import StarterKit from '@tiptap/starter-kit';
+import Mention from '@tiptap/extension-mention';
+import Link from '@tiptap/extension-link';
+import Image from '@tiptap/extension-image';
+import Table from '@tiptap/extension-table';
+import TableRow from '@tiptap/extension-table-row';
+import TableHeader from '@tiptap/extension-table-header';
+import TableCell from '@tiptap/extension-table-cell';
+import { TiptapTransformer } from '@hocuspocus/transformer';
+import { prosemirrorJSONToYXmlFragment } from 'y-prosemirror';
+import * as Y from 'yjs';
+
+// Must match the extensions DocumentEditor registers on the client, otherwise
+// nodes the server does not know about are dropped when converting content.
+export const editorExtensions = [
+  StarterKit,
+  Mention.configure({ HTMLAttributes: { class: 'mention' } }),
+  Link.configure({ openOnClick: false }),
+  Image,
+  Table,
+  TableRow,
+  TableHeader,
+  TableCell
+];
+
+export const editorSchema = getSchema(editorExtensions);
+
+// Name of the Y.XmlFragment the TipTap Collaboration extension binds to
+export const COLLABORATION_FIELD = 'default';
+
+// zeed-dom, which parses HTML on the server, has no firstElementChild, so
+// CodeBlock cannot read the language from <pre><code class="language-*">.
+// Restore it from the markup: code blocks come in document order in both.
+const CODE_BLOCK_PATTERN = /<pre\b[^>]*>(?:\s*<code\b([^>]*)>)?/g;
+
+const restoreCodeLanguages = (html, json) => {
+  const languages = [...html.matchAll(CODE_BLOCK_PATTERN)].map(
+    ([, attributes = '']) => attributes.match(/class="[^"]*\blanguage-([^\s"]+)/)?.[1] || null
+  );
+
+  let index = 0;
+  const visit = (node) => {
+    if (node.type === 'codeBlock') {
+      node.attrs = { ...node.attrs, language: languages[index++] ?? null };
+    }
+    node.content?.forEach(visit);
+  };
+  visit(json);
+
+  return json;
+};
+
+export const htmlToJSON = (html) =>
+  restoreCodeLanguages(html || '', generateJSON(html || '<p></p>', editorExtensions));
+
+export const jsonToHTML = (json) => generateHTML(json, editorExtensions);
+
+export const ydocToHTML = (ydoc) =>
+  jsonToHTML(TiptapTransformer.fromYdoc(ydoc, COLLABORATION_FIELD));
+
+export const htmlToYdoc = (html) =>
+  TiptapTransformer.toYdoc(htmlToJSON(html), COLLABORATION_FIELD, editorExtensions);
+
+// Replace the whole shared fragment of a live Y.Doc with the given HTML
+export const replaceYdocContent = (ydoc, html) => {
+  const fragment = ydoc.getXmlFragment(COLLABORATION_FIELD);
+  ydoc.transact(() => {
+    fragment.delete(0, fragment.length);
+    prosemirrorJSONToYXmlFragment(editorSchema, htmlToJSON(html), fragment);
+  });
+};
+
+export const encodeYdocState = (ydoc) =>
+  Buffer.from(Y.encodeStateAsUpdate(ydoc)).toString('base64');
+
+export const applyYdocState = (ydoc, state) =>
+  Y.applyUpdate(ydoc, Buffer.from(state, 'base64'));
+
+// Walk a ProseMirror JSON tree and collect the ids of mentioned users
+export const extractMentionIds = (html) => {
+  const ids = new Set();
+
+  const walk = (node) => {
+    if (node.type === 'mention' && node.attrs?.id) {
+      ids.add(node.attrs.id);
+    }
+    (node.content || []).forEach(walk);
+  };
+
+  walk(htmlToJSON(html));
+  return [...ids];
+};
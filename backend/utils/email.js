@@ -33,5 +33,53 @@ export const sendPasswordResetEmail = async (email, firstName, resetToken) => {
     `
   };
 
+  await transporter.sendMail(mailOptions);
+};
+
+export const sendVerificationEmail = async (email, firstName, verificationToken) => {
+  const verifyUrl = `${process.env.FRONTEND_URL || 'http://localhost:5173'}/verify-email?token=${verificationToken}`;
+
+  const mailOptions = {
+    from: process.env.FROM_EMAIL || 'noreply@knowledgebase.com',
+    to: email,
+    subject: 'Verify your email address',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Welcome to Knowledge Base</h2>
+        <p>Hi ${firstName},</p>
+        <p>Please confirm that this is your email address. Until you do, you can write documents but not share them or have them shared with you.</p>
+        <a href="${verifyUrl}" style="background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+          Verify Email
+        </a>
+        <p>This link will expire in 24 hours.</p>
+        <p>If you didn't create an account, please ignore this email.</p>
+        <p>Best regards,<br>Knowledge Base Team</p>
+      </div>
+    `
+  };
+
+  await transporter.sendMail(mailOptions);
+};
+
+export const sendMentionEmail = async (email, firstName, mentionedByName, documentTitle, documentId) => {
+  const documentUrl = `${process.env.FRONTEND_URL || 'http://localhost:5173'}/documents/${documentId}`;
+
+  const mailOptions = {
+    from: process.env.FROM_EMAIL || 'noreply@knowledgebase.com',
+    to: email,
+    subject: `${mentionedByName} mentioned you in "${documentTitle}"`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>You were mentioned</h2>
+        <p>Hi ${firstName},</p>
+        <p>${mentionedByName} mentioned you in <strong>${documentTitle}</strong>.</p>
+        <a href="${documentUrl}" style="background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+          Open Document
+        </a>
+        <p>Best regards,<br>Knowledge Base Team</p>
+      </div>
+    `
+  };
+
   await transporter.sendMail(mailOptions);
 };
\ No newline at end of file
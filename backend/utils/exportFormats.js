@@ -0,0 +1,108 @@
+import { htmlToJSON, jsonToHTML } from './editorContent.js';
+
+// Title reduced to lowercase letters, digits and dashes for use in file names
+export const documentSlug = (title) =>
+  (title || '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '') || 'document';
+
+export const documentFilename = (title, extension) => `${documentSlug(title)}.${extension}`;
+
+const escapeHtml = (text) =>
+  String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatDate = (date) =>
+  new Date(date).toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC'
+  });
+
+// The byline shown under the title of an exported document, e.g.
+// ['By Ada Lovelace', 'Updated 18 October 2025', 'Version 3']. `label`
+// replaces the version for exported history entries.
+export const documentByline = (document, { label } = {}) =>
+  [
+    document.author && `By ${document.author.first_name} ${document.author.last_name}`,
+    document.updated_at && `Updated ${formatDate(document.updated_at)}`,
+    label || (document.version && `Version ${document.version}`)
+  ].filter(Boolean);
+
+// Mirrors the editor styles in src/index.css, plus print rules so the page
+// can be saved as PDF from a browser
+const STANDALONE_STYLES = `
+  body { margin: 0; background: #fff; color: #111827; font: 16px/1.6 -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; }
+  article { max-width: 48rem; margin: 0 auto; padding: 3rem 1.5rem; }
+  header { border-bottom: 1px solid #e5e7eb; margin-bottom: 2rem; padding-bottom: 1rem; }
+  header h1 { font-size: 2.25rem; line-height: 1.2; margin: 0 0 0.5rem; }
+  .byline { color: #6b7280; font-size: 0.875rem; margin: 0; }
+  .tags { display: flex; flex-wrap: wrap; gap: 0.375rem; list-style: none; margin: 0.75rem 0 0; padding: 0; }
+  .tags li { background: #f3f4f6; border-radius: 9999px; color: #374151; font-size: 0.75rem; padding: 0.125rem 0.625rem; }
+  h1 { font-size: 2rem; line-height: 1.2; margin: 1.5rem 0 1rem; }
+  h2 { font-size: 1.5rem; line-height: 1.3; margin: 1.25rem 0 0.75rem; }
+  h3 { font-size: 1.25rem; line-height: 1.4; margin: 1rem 0 0.5rem; }
+  p { margin: 0.75rem 0; }
+  ul, ol { margin: 0.75rem 0; padding-left: 1.5rem; }
+  li { margin: 0.25rem 0; }
+  li > p { margin: 0; }
+  blockquote { border-left: 4px solid #e5e7eb; color: #6b7280; font-style: italic; margin: 1rem 0; padding-left: 1rem; }
+  code { background: #f3f4f6; border-radius: 0.25rem; font-family: 'Courier New', monospace; font-size: 0.875rem; padding: 0.125rem 0.25rem; }
+  pre { background: #f3f4f6; border-radius: 0.5rem; margin: 1rem 0; overflow-x: auto; padding: 1rem; white-space: pre-wrap; }
+  pre code { background: none; padding: 0; }
+  a { color: #2563eb; text-decoration: underline; }
+  hr { border: 0; border-top: 1px solid #e5e7eb; margin: 1.5rem 0; }
+  table { border-collapse: collapse; margin: 1rem 0; table-layout: fixed; width: 100%; }
+  th, td { border: 1px solid #e5e7eb; padding: 0.25rem 0.5rem; text-align: left; vertical-align: top; }
+  th { background: #f9fafb; font-weight: 600; }
+  th p, td p { margin: 0; }
+  img { height: auto; max-width: 100%; }
+  .mention { background: #dbeafe; border-radius: 0.25rem; color: #1d4ed8; padding: 0.125rem 0.25rem; }
+  @page { margin: 2cm; }
+  @media print {
+    body { font-size: 11pt; }
+    article { max-width: none; padding: 0; }
+    a { color: inherit; }
+    h1, h2, h3 { break-after: avoid; }
+    pre, blockquote, tr, img { break-inside: avoid; }
+  }
+`;
+
+// Swap attached images for data: URIs so the page does not depend on the API
+const embedImages = (node, images) => {
+  if (node.type === 'image' && images.has(node.attrs?.src)) {
+    const { data, contentType } = images.get(node.attrs.src);
+    return { ...node, attrs: { ...node.attrs, src: `data:${contentType};base64,${data.toString('base64')}` } };
+  }
+  return node.content ? { ...node, content: node.content.map(child => embedImages(child, images)) } : node;
+};
+
+// A self-contained HTML page for a document. The content is passed through
+// the editor schema, so only markup the editor produces ends up in the file.
+// `images` maps attachment URLs to their files (see loadDocumentImages).
+export const renderDocumentHTML = (document, { label, images = new Map() } = {}) => {
+  const byline = documentByline(document, { label });
+  const tags = document.tags || [];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(document.title)}</title>
+${document.author ? `<meta name="author" content="${escapeHtml(`${document.author.first_name} ${document.author.last_name}`)}">\n` : ''}<style>${STANDALONE_STYLES}</style>
+</head>
+<body>
+<article>
+<header>
+<h1>${escapeHtml(document.title)}</h1>
+<p class="byline">${byline.map(escapeHtml).join(' · ')}</p>
+${tags.length > 0 ? `<ul class="tags">${tags.map(tag => `<li>${escapeHtml(tag)}</li>`).join('')}</ul>\n` : ''}</header>
+${jsonToHTML(embedImages(htmlToJSON(document.content), images))}
+</article>
+</body>
+</html>
+`;
+};
\ No newline at end of file
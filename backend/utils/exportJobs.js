@@ -0,0 +1,280 @@
+import JSZip from 'jszip';
+import { supabaseAdmin } from '../config/database.js';
+import { getAccessGrants, grantedDocumentsFilter } from './permissions.js';
+import { documentToMarkdown } from './markdown.js';
+import { documentFilename, documentSlug, renderDocumentHTML } from './exportFormats.js';
+import { renderDocumentPDF } from './pdfExport.js';
+import { TAGS_SELECT, withTagNames } from './tags.js';
+import { createJobQueue } from './jobQueue.js';
+import { loadDocumentImages } from './attachments.js';
+import { exportStorage } from '../config/storage.js';
+
+// Exports run in the background (see jobQueue.js) so large workspaces are not
+// bound by request timeouts or body limits. The finished file goes to the
+// configured storage (see config/storage.js), like attachments.
+
+export const EXPORT_JOB_FIELDS = `
+  id, format, document_id, include_versions, status, progress, processed_items,
+  total_items, filename, file_size, error, created_at, started_at, completed_at, expires_at
+`;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Finished exports are kept for a week
+const EXPORT_RETENTION = 7 * DAY;
+
+const DOCUMENT_BATCH_SIZE = 25;
+
+export const CONTENT_TYPES = {
+  pdf: 'application/pdf',
+  html: 'text/html; charset=utf-8',
+  zip: 'application/zip'
+};
+
+const EXPORT_DOCUMENT_SELECT = `
+  id, title, content, is_public, parent_id, version, created_at, updated_at,
+  author:users!documents_author_id_fkey(id, first_name, last_name, email),
+  space:spaces!documents_space_id_fkey(id, name),
+  ${TAGS_SELECT}
+`;
+
+const authorName = (user) => (user ? `${user.first_name} ${user.last_name}` : null);
+
+const buildDocumentExport = async (job, report) => {
+  const { data, error } = await supabaseAdmin
+    .from('documents')
+    .select(EXPORT_DOCUMENT_SELECT)
+    .eq('id', job.document_id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    return { failure: 'The document no longer exists' };
+  }
+
+  await report({ total_items: 1 }, { force: true });
+
+  const document = withTagNames(data);
+  const images = await loadDocumentImages(document);
+  const file = job.format === 'pdf'
+    ? await renderDocumentPDF(document, { images })
+    : Buffer.from(renderDocumentHTML(document, { images }));
+
+  await report({ processed_items: 1, progress: 90 }, { force: true });
+
+  return { file, filename: documentFilename(document.title, job.format) };
+};
+
+// Documents of the user and those reached through shares, groups and spaces,
+// like the dashboard list. Other people's public documents are not included.
+const exportableDocumentIds = async (userId) => {
+  const filter = [`author_id.eq.${userId}`, grantedDocumentsFilter(await getAccessGrants(userId))]
+    .filter(Boolean)
+    .join(',');
+
+  const { data, error } = await supabaseAdmin
+    .from('documents')
+    .select('id')
+    .or(filter)
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  return data.map(document => document.id);
+};
+
+const fetchVersions = async (documentIds) => {
+  const { data, error } = await supabaseAdmin
+    .from('document_versions')
+    .select(`
+      document_id, version_number, title, content, change_summary, created_at,
+      created_by_user:users!document_versions_created_by_fkey(id, first_name, last_name)
+    `)
+    .in('document_id', documentIds)
+    .order('version_number', { ascending: true });
+
+  if (error) throw error;
+
+  const versions = new Map();
+  data.forEach(version => {
+    versions.set(version.document_id, [...(versions.get(version.document_id) || []), version]);
+  });
+  return versions;
+};
+
+// One folder per document: the standalone HTML page, Markdown, metadata.json
+// and, when asked for, the saved versions as HTML pages
+const addDocumentToArchive = (root, document, versions, images) => {
+  const path = `documents/${documentSlug(document.title)}-${document.id.slice(0, 8)}`;
+  const folder = root.folder(path);
+
+  folder.file('index.html', renderDocumentHTML(document, { images }));
+  folder.file('document.md', documentToMarkdown(document));
+
+  const metadata = {
+    id: document.id,
+    title: document.title,
+    author: document.author && {
+      id: document.author.id,
+      name: authorName(document.author),
+      email: document.author.email
+    },
+    space: document.space,
+    parent_id: document.parent_id,
+    is_public: document.is_public,
+    tags: document.tags,
+    version: document.version,
+    created_at: document.created_at,
+    updated_at: document.updated_at
+  };
+
+  if (versions) {
+    metadata.versions = versions.map(version => {
+      const file = `versions/v${version.version_number}.html`;
+      const label = [`Version ${version.version_number}`, version.change_summary].filter(Boolean).join(' – ');
+
+      folder.file(file, renderDocumentHTML(
+        { title: version.title, content: version.content, author: version.created_by_user, updated_at: version.created_at },
+        { label, images }
+      ));
+
+      return {
+        version_number: version.version_number,
+        title: version.title,
+        change_summary: version.change_summary,
+        created_by: authorName(version.created_by_user),
+        created_at: version.created_at,
+        file
+      };
+    });
+  }
+
+  folder.file('metadata.json', JSON.stringify(metadata, null, 2));
+  return { id: document.id, title: document.title, path };
+};
+
+// Collecting documents is 90% of the progress, compressing the archive the rest
+const buildArchive = async (job, report) => {
+  const documentIds = await exportableDocumentIds(job.user_id);
+  await report({ total_items: documentIds.length, processed_items: 0 }, { force: true });
+
+  const { data: user } = await supabaseAdmin
+    .from('users')
+    .select('id, first_name, last_name, email')
+    .eq('id', job.user_id)
+    .single();
+
+  const date = new Date().toISOString().slice(0, 10);
+  const zip = new JSZip();
+  const root = zip.folder(`knowledge-base-export-${date}`);
+  const entries = [];
+
+  for (let start = 0; start < documentIds.length; start += DOCUMENT_BATCH_SIZE) {
+    const batch = documentIds.slice(start, start + DOCUMENT_BATCH_SIZE);
+
+    const [{ data: documents, error }, versions] = await Promise.all([
+      supabaseAdmin.from('documents').select(EXPORT_DOCUMENT_SELECT).in('id', batch),
+      job.include_versions ? fetchVersions(batch) : null
+    ]);
+
+    if (error) throw error;
+
+    // Documents deleted since the export started are skipped
+    const documentsById = new Map(documents.map(document => [document.id, withTagNames(document)]));
+    for (const id of batch.filter(documentId => documentsById.has(documentId))) {
+      const document = documentsById.get(id);
+      const images = await loadDocumentImages(document);
+      entries.push(addDocumentToArchive(root, document, versions && (versions.get(id) || []), images));
+    }
+
+    const processed = Math.min(start + DOCUMENT_BATCH_SIZE, documentIds.length);
+    await report({
+      processed_items: processed,
+      progress: Math.floor((processed / documentIds.length) * 90)
+    }, { force: processed === documentIds.length });
+  }
+
+  root.file('manifest.json', JSON.stringify({
+    exported_at: new Date().toISOString(),
+    exported_by: user && { id: user.id, name: authorName(user), email: user.email },
+    include_versions: job.include_versions,
+    document_count: entries.length,
+    documents: entries
+  }, null, 2));
+
+  const file = await zip.generateAsync(
+    { type: 'nodebuffer', compression: 'DEFLATE', compressionOptions: { level: 6 } },
+    ({ percent }) => report({ progress: 90 + Math.floor(percent / 10) })
+  );
+
+  return { file, filename: `knowledge-base-export-${date}.zip` };
+};
+
+const runExportJob = async (job, { report }) => {
+  const result = job.format === 'zip'
+    ? await buildArchive(job, report)
+    : await buildDocumentExport(job, report);
+
+  if (result.failure) return result;
+
+  // Each attempt writes its own file, so one that was taken over cannot
+  // overwrite the file of the attempt that finishes the job
+  const filePath = `${job.user_id}/${job.id}/${job.attempt_id}/${result.filename}`;
+  await exportStorage.put(filePath, result.file, { contentType: CONTENT_TYPES[job.format] });
+
+  return {
+    file_path: filePath,
+    filename: result.filename,
+    file_size: result.file.length,
+    expires_at: new Date(Date.now() + EXPORT_RETENTION).toISOString()
+  };
+};
+
+// File of a finished export as a Buffer, or null when it is gone from storage
+export const readExportFile = (job) => exportStorage.get(job.file_path);
+
+// Delete export jobs along with their files
+export const removeExportJobs = async (jobs) => {
+  if (jobs.length === 0) return;
+
+  const paths = jobs.map(job => job.file_path).filter(Boolean);
+  if (paths.length > 0) {
+    await exportStorage.remove(paths);
+  }
+
+  const { error } = await supabaseAdmin
+    .from('export_jobs')
+    .delete()
+    .in('id', jobs.map(job => job.id));
+
+  if (error) throw error;
+};
+
+// Remove exports past their expiry date
+const purgeExpiredExports = async () => {
+  const { data: expired, error } = await supabaseAdmin
+    .from('export_jobs')
+    .select('id, file_path')
+    .lt('expires_at', new Date().toISOString());
+
+  if (error) throw error;
+  await removeExportJobs(expired);
+};
+
+const exportQueue = createJobQueue({
+  name: 'export',
+  table: 'export_jobs',
+  run: runExportJob,
+  failureMessage: 'The export could not be completed',
+  onSweep: purgeExpiredExports,
+  discard: async ({ file_path: filePath }) => {
+    if (!filePath) return;
+    await exportStorage.remove([filePath])
+      .catch(error => console.error('Error removing abandoned export:', error));
+  }
+});
+
+// Queue an export for this process to run
+export const enqueueExportJob = exportQueue.enqueue;
+
+// Start working through export jobs; called once when the server starts
+export const startExportWorker = exportQueue.start;
\ No newline at end of file
@@ -0,0 +1,377 @@
+import JSZip from 'jszip';
+import { parse } from 'node-html-parser';
+import { markdownToHTML } from './markdown.js';
+import { htmlToJSON, jsonToHTML } from './editorContent.js';
+import { contentTypeFor, isImageType } from './attachments.js';
+
+// Reads Confluence HTML exports and Notion Markdown/HTML exports. Each page
+// comes out as { path, externalId, title, parentPath, html } where `path` is
+// its file in the archive, `externalId` stays the same across exports of the
+// same page and `parentPath` is the path of the parent page, if any.
+
+// Notion ends file and folder names with the page's 32 character id
+const NOTION_ID = /\s([0-9a-f]{32})$/i;
+const NOTION_URL_ID = /notion\.so\/\S*?([0-9a-f]{32})(?:[?#]|$)/i;
+
+// Confluence names pages Title_12345.html, or 12345.html for some titles
+const CONFLUENCE_ID = /(?:^|_)(\d+)\.html$/;
+const CONFLUENCE_URL_ID = /[?&]pageId=(\d+)/;
+
+// Folders of a Confluence export that hold files rather than pages
+const CONFLUENCE_FILE_FOLDERS = new Set(['attachments', 'images', 'styles']);
+
+const escapeHtml = (value) =>
+  String(value).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const basename = (path) => path.slice(path.lastIndexOf('/') + 1);
+const dirname = (path) => (path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '');
+const withoutExtension = (path) => path.replace(/\.[^./]+$/, '');
+const extension = (path) => (basename(path).match(/\.([^.]+)$/)?.[1] || '').toLowerCase();
+
+// Links with a scheme, protocol-relative and in-page links are left alone
+const isExternalLink = (href) => /^([a-z][a-z0-9+.-]*:|\/\/|#|\/)/i.test(href);
+
+// Path inside the archive that a relative link on the page at `from` points to
+const resolvePath = (from, href) => {
+  const target = href.split(/[?#]/)[0];
+  if (!target) return null;
+
+  let decoded;
+  try {
+    decoded = decodeURIComponent(target);
+  } catch {
+    decoded = target;
+  }
+
+  const parts = dirname(from).split('/').filter(Boolean);
+  decoded.split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+};
+
+// Minimal RFC 4180 reader for Notion database exports
+const parseCsv = (text) => {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+const csvToTable = (text) => {
+  const [header = [], ...rows] = parseCsv(text.replace(/^﻿/, ''));
+  const cells = (row, tag) => header.map((_, i) => `<${tag}>${escapeHtml(row[i] || '')}</${tag}>`).join('');
+
+  return `<table><tr>${cells(header, 'th')}</tr>${rows.map(row => `<tr>${cells(row, 'td')}</tr>`).join('')}</table>`;
+};
+
+const firstElement = (root) => root.childNodes.find(node => node.nodeType === 1);
+
+const parseNotionPage = async (path, file) => {
+  const text = await file.async('string');
+  const nameTitle = withoutExtension(basename(path)).replace(NOTION_ID, '').trim();
+  const page = {
+    path,
+    externalId: withoutExtension(basename(path)).match(NOTION_ID)?.[1]?.toLowerCase() || withoutExtension(path),
+    title: nameTitle
+  };
+
+  if (extension(path) === 'csv') {
+    return { ...page, html: csvToTable(text) };
+  }
+
+  if (extension(path) === 'md') {
+    const root = parse(markdownToHTML(text));
+    const heading = firstElement(root);
+
+    if (heading?.tagName === 'H1') {
+      heading.remove();
+      return { ...page, title: heading.text.trim() || nameTitle, html: root.toString() };
+    }
+    return { ...page, html: root.toString() };
+  }
+
+  const root = parse(text);
+  const title = (root.querySelector('.page-title') || root.querySelector('title'))?.text.trim();
+  const body = root.querySelector('.page-body') || root.querySelector('body') || root;
+  return { ...page, title: title || nameTitle, html: body.innerHTML };
+};
+
+// A Notion page's subpages sit in a folder named like the page file
+const readNotionPages = async (files) => {
+  const paths = [...files.keys()].filter(path =>
+    ['md', 'html'].includes(extension(path)) || (extension(path) === 'csv' && !path.endsWith('_all.csv'))
+  );
+  const pagesByFolder = new Map(paths.map(path => [withoutExtension(path), path]));
+
+  return Promise.all(paths.map(async path => {
+    const page = await parseNotionPage(path, files.get(path));
+
+    let folder = dirname(path);
+    while (folder && !pagesByFolder.has(folder)) folder = dirname(folder);
+    return { ...page, parentPath: folder ? pagesByFolder.get(folder) : null };
+  }));
+};
+
+const isConfluencePage = (path) =>
+  extension(path) === 'html' &&
+  basename(path) !== 'index.html' &&
+  !path.split('/').slice(0, -1).some(folder => CONFLUENCE_FILE_FOLDERS.has(folder));
+
+// The breadcrumbs of a Confluence page end with its parent. Files in the
+// Attachments section that the page body does not show are listed after it.
+const parseConfluencePage = async (path, file, pagePaths) => {
+  const root = parse(await file.async('string'));
+  const heading = (root.querySelector('#title-text') || root.querySelector('title'))?.text.trim() || '';
+  const title = heading.includes(' : ') ? heading.slice(heading.indexOf(' : ') + 3) : heading;
+
+  const breadcrumbs = root.querySelectorAll('#breadcrumbs a[href]');
+  const parentHref = breadcrumbs[breadcrumbs.length - 1]?.getAttribute('href');
+  const parentPath = parentHref && !isExternalLink(parentHref) ? resolvePath(path, parentHref) : null;
+
+  const body = root.querySelector('#main-content') || parse('');
+  body.querySelectorAll('img').forEach(img => {
+    if ((img.getAttribute('src') || '').includes('images/icons/')) img.remove();
+  });
+
+  const referenced = new Set(
+    body.querySelectorAll('a[href], img[src]')
+      .map(element => element.getAttribute('href') || element.getAttribute('src'))
+      .filter(href => !isExternalLink(href))
+      .map(href => resolvePath(path, href))
+  );
+  const unreferenced = root.querySelectorAll('.greybox a[href]').filter(link => {
+    const href = link.getAttribute('href');
+    if (isExternalLink(href)) return false;
+
+    const target = resolvePath(path, href);
+    if (!target?.includes('attachments/') || referenced.has(target)) return false;
+    referenced.add(target);
+    return true;
+  });
+
+  const attachmentList = unreferenced.length > 0
+    ? `<h2>Attachments</h2><ul>${unreferenced.map(link =>
+      `<li><a href="${escapeHtml(link.getAttribute('href'))}">${escapeHtml(link.text.trim())}</a></li>`
+    ).join('')}</ul>`
+    : '';
+
+  return {
+    path,
+    externalId: basename(path).match(CONFLUENCE_ID)?.[1] || withoutExtension(path),
+    title: title || withoutExtension(basename(path)),
+    parentPath: parentPath && pagePaths.has(parentPath) && parentPath !== path ? parentPath : null,
+    html: body.innerHTML + attachmentList
+  };
+};
+
+const readConfluencePages = async (files) => {
+  const pagePaths = new Set([...files.keys()].filter(isConfluencePage));
+  return Promise.all([...pagePaths].map(path => parseConfluencePage(path, files.get(path), pagePaths)));
+};
+
+// What an archive may unpack to, nested ZIP parts included. Checked against
+// the sizes the archive declares before anything is inflated, so a crafted
+// upload fails the import instead of exhausting the server's memory.
+const MAX_ARCHIVE_ENTRIES = 20000;
+const MAX_UNCOMPRESSED_BYTES = 1024 * 1024 * 1024;
+
+const ARCHIVE_TOO_LARGE = {
+  failure: 'The archive is too large to import. Split the export into smaller parts.'
+};
+
+// Files by path, or { failure } when the archive is over the limits. Notion
+// splits large exports into a ZIP of ZIP parts, which are unpacked one level.
+const readFiles = async (data) => {
+  const files = new Map();
+  let entries = 0;
+  let bytes = 0;
+
+  // False once the entries read so far are over the limits
+  const addFiles = (zip) => {
+    zip.forEach((path, file) => {
+      entries += 1;
+      // Only set for entries read from an archive, which all of these are
+      bytes += file._data?.uncompressedSize ?? 0;
+      if (!file.dir && !path.startsWith('__MACOSX/')) files.set(path, file);
+    });
+    return entries <= MAX_ARCHIVE_ENTRIES && bytes <= MAX_UNCOMPRESSED_BYTES;
+  };
+
+  if (!addFiles(await JSZip.loadAsync(data))) return ARCHIVE_TOO_LARGE;
+
+  const parts = [...files.keys()];
+  if (parts.length > 0 && parts.every(path => extension(path) === 'zip')) {
+    const partFiles = parts.map(path => files.get(path));
+    files.clear();
+
+    // One part at a time, so the limits stop the unpacking at the first
+    // part that goes over them
+    for (const part of partFiles) {
+      if (!addFiles(await JSZip.loadAsync(await part.async('nodebuffer')))) return ARCHIVE_TOO_LARGE;
+    }
+  }
+
+  return { files };
+};
+
+// Parents come before their children; a page whose parent chain loops is
+// imported at the top level
+const orderPages = (pages) => {
+  const byPath = new Map(pages.map(page => [page.path, page]));
+
+  const depth = (page) => {
+    const seen = new Set([page.path]);
+    let current = page;
+    let count = 0;
+
+    while (current.parentPath && byPath.has(current.parentPath)) {
+      if (seen.has(current.parentPath)) {
+        page.parentPath = null;
+        return 0;
+      }
+      seen.add(current.parentPath);
+      current = byPath.get(current.parentPath);
+      count += 1;
+    }
+    return count;
+  };
+
+  return pages
+    .map(page => ({ page, depth: depth(page) }))
+    .sort((a, b) => a.depth - b.depth || a.page.title.localeCompare(b.page.title))
+    .map(({ page }) => ({ ...page, parentPath: byPath.has(page.parentPath) ? page.parentPath : null }));
+};
+
+// Read an export archive. Resolves with { pages, files } in import order, or
+// with { failure } when the upload is not an export of that kind.
+export const readImportArchive = async (data, source) => {
+  let read;
+  try {
+    read = await readFiles(data);
+  } catch {
+    return { failure: 'The uploaded file is not a ZIP archive' };
+  }
+  if (read.failure) return read;
+
+  const { files } = read;
+
+  const pages = source === 'confluence' ? await readConfluencePages(files) : await readNotionPages(files);
+  if (pages.length === 0) {
+    return {
+      failure: source === 'confluence'
+        ? 'No Confluence pages found. Upload an HTML export of a space.'
+        : 'No Notion pages found. Upload a Markdown & CSV or HTML export.'
+    };
+  }
+
+  return { pages: orderPages(pages), files };
+};
+
+// Id of the page an absolute link into the source app points to, if any
+export const externalLinkId = (href, source) => {
+  const match = href.match(source === 'confluence' ? CONFLUENCE_URL_ID : NOTION_URL_ID);
+  return match ? match[1].toLowerCase() : null;
+};
+
+// Turn a page's HTML into editor content. Links to pages and files in the
+// archive go through `pageUrl(path)` (null for paths that are not pages) and
+// `fileUrl(path, filename)`. Resolves with { content, missing } where
+// `missing` lists the links that pointed to nothing in the archive.
+export const convertPageContent = async (page, { files, source, pageUrl, pageUrlForId, fileUrl }) => {
+  const root = parse(page.html);
+  const missing = [];
+
+  const linkFor = async (href, label) => {
+    if (isExternalLink(href)) {
+      const id = externalLinkId(href, source);
+      return (id && pageUrlForId(id)) || href;
+    }
+
+    const path = resolvePath(page.path, href);
+    if (!path) return href;
+
+    const url = pageUrl(path);
+    if (url) return url;
+
+    if (!files.has(path)) {
+      missing.push(path);
+      return null;
+    }
+
+    const filename = /\.\w+$/.test(label || '') ? label : basename(path);
+    return fileUrl(path, filename);
+  };
+
+  const imageLabel = (img) =>
+    (img.getAttribute('alt') || img.getAttribute('data-linked-resource-default-alias') || '').trim();
+
+  // Images are blocks in the editor and cannot sit inside a link, so links
+  // around images (usually to the full-size file) give way to the image
+  for (const link of root.querySelectorAll('a[href]')) {
+    if (link.querySelector('img')) {
+      link.replaceWith(link.innerHTML);
+      continue;
+    }
+
+    const url = await linkFor(link.getAttribute('href'), link.text.trim());
+    if (url) {
+      link.setAttribute('href', url);
+    } else {
+      link.replaceWith(link.innerHTML);
+    }
+  }
+
+  // Files that are not images are linked instead
+  for (const img of root.querySelectorAll('img')) {
+    const src = img.getAttribute('src') || '';
+    const label = imageLabel(img);
+    const url = src && !src.startsWith('data:') ? await linkFor(src, label) : null;
+    const filename = basename(src.split(/[?#]/)[0]);
+
+    if (!url) {
+      img.replaceWith(escapeHtml(label));
+    } else if (isExternalLink(src) || isImageType(contentTypeFor(filename))) {
+      img.replaceWith(`<img src="${escapeHtml(url)}" alt="${escapeHtml(label)}">`);
+    } else {
+      img.replaceWith(`<a href="${escapeHtml(url)}">${escapeHtml(label || filename)}</a>`);
+    }
+  }
+
+  return { content: jsonToHTML(htmlToJSON(root.toString())), missing };
+};
\ No newline at end of file
@@ -0,0 +1,329 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabaseAdmin } from '../config/database.js';
+import { syncCollaborationContent } from '../realtime/collaboration.js';
+import { attachmentUrl, storeAttachment } from './attachments.js';
+import { convertPageContent, readImportArchive } from './importArchive.js';
+import { getNextPosition, wouldCreateCycle } from './pageTree.js';
+import { createJobQueue } from './jobQueue.js';
+
+// Imports run in the background (see jobQueue.js) from an archive uploaded to
+// storage. Every page is recorded in import_mappings, so running the import
+// again updates the documents it created instead of adding new ones, as long
+// as nobody edited them since.
+
+export const IMPORT_BUCKET = 'imports';
+
+export const IMPORT_JOB_FIELDS = `
+  id, source, filename, space_id, parent_id, status, progress, processed_items, total_items,
+  created_count, updated_count, attachment_count, failures, error, created_at, started_at, completed_at
+`;
+
+export const IMPORT_SOURCE_NAMES = {
+  confluence: 'Confluence',
+  notion: 'Notion'
+};
+
+// Enough to act on; a badly broken archive should not bloat the job row
+const MAX_FAILURES = 200;
+
+const MAX_TITLE_LENGTH = 200;
+
+const EDITED_FAILURE = 'The document was edited since the last import, so it was not updated';
+
+const fetchMappings = async (job) => {
+  const { data, error } = await supabaseAdmin
+    .from('import_mappings')
+    .select('external_id, document_version, document:documents(id, title, content, version, parent_id)')
+    .eq('user_id', job.user_id)
+    .eq('source', job.source);
+
+  if (error) throw error;
+  return new Map(data.filter(mapping => mapping.document).map(mapping => [
+    mapping.external_id,
+    { ...mapping.document, importedVersion: mapping.document_version }
+  ]));
+};
+
+// Remember the version the import left the document at
+const recordMapping = async (job, externalId, documentId, version) => {
+  const { error } = await supabaseAdmin
+    .from('import_mappings')
+    .upsert(
+      {
+        user_id: job.user_id,
+        source: job.source,
+        external_id: externalId,
+        document_id: documentId,
+        document_version: version,
+        updated_at: new Date().toISOString()
+      },
+      { onConflict: 'user_id,source,external_id' }
+    );
+
+  if (error) throw error;
+};
+
+// Attachments a document got from earlier runs, by their path in the archive
+const fetchImportedAttachments = async (documentId) => {
+  const { data, error } = await supabaseAdmin
+    .from('attachments')
+    .select('id, source_path')
+    .eq('document_id', documentId)
+    .not('source_path', 'is', null);
+
+  if (error) throw error;
+  return new Map(data.map(attachment => [attachment.source_path, attachment.id]));
+};
+
+// New pages start out empty so their children and attachments can point to
+// them; the content follows once every page has a document
+const createPageDocument = async (job, page, parentId) => {
+  const id = uuidv4();
+
+  const { error } = await supabaseAdmin
+    .from('documents')
+    .insert({
+      id,
+      title: page.title,
+      content: '',
+      author_id: job.user_id,
+      parent_id: parentId,
+      space_id: job.space_id,
+      position: await getNextPosition(parentId, job.user_id)
+    });
+
+  if (error) throw error;
+
+  // New documents start at version 1, which filling in the content keeps
+  await recordMapping(job, page.externalId, id, 1);
+  return id;
+};
+
+const finishNewDocument = async (job, documentId, title, content) => {
+  const { error } = await supabaseAdmin
+    .from('documents')
+    .update({ content, updated_at: new Date().toISOString() })
+    .eq('id', documentId);
+
+  if (error) throw error;
+
+  await supabaseAdmin
+    .from('document_versions')
+    .insert({
+      document_id: documentId,
+      content,
+      title,
+      version_number: 1,
+      created_by: job.user_id,
+      change_summary: `Imported from ${IMPORT_SOURCE_NAMES[job.source]}`
+    });
+
+  // Authors watch their own documents by default
+  await supabaseAdmin
+    .from('document_subscriptions')
+    .insert({ document_id: documentId, user_id: job.user_id });
+};
+
+// Resolves with 'updated', 'unchanged', or 'edited' when the document was
+// edited while the page was being converted and is left as it is
+const updateExistingDocument = async (job, page, document, { title, content, parentId }) => {
+  const moved = document.parent_id !== parentId && !(parentId && await wouldCreateCycle(document.id, parentId));
+  const contentChanged = document.title !== title || document.content !== content;
+  if (!moved && !contentChanged) return 'unchanged';
+
+  const { data: updated, error } = await supabaseAdmin
+    .from('documents')
+    .update({
+      title,
+      content,
+      ...(moved && {
+        parent_id: parentId,
+        space_id: job.space_id,
+        position: await getNextPosition(parentId, job.user_id)
+      }),
+      updated_at: new Date().toISOString(),
+      version: contentChanged ? document.version + 1 : document.version
+    })
+    // Matching the version read makes the write miss an edit made meanwhile
+    .match({ id: document.id, version: document.version })
+    .select('version');
+
+  if (error) throw error;
+  if (updated.length === 0) return 'edited';
+
+  if (contentChanged) {
+    await supabaseAdmin
+      .from('document_versions')
+      .insert({
+        document_id: document.id,
+        content,
+        title,
+        version_number: document.version + 1,
+        created_by: job.user_id,
+        change_summary: `Re-imported from ${IMPORT_SOURCE_NAMES[job.source]}`
+      });
+
+    await syncCollaborationContent(document.id, content);
+    await recordMapping(job, page.externalId, document.id, document.version + 1);
+  }
+
+  return 'updated';
+};
+
+// Every page first gets a document, then its content with links rewritten
+// and attachments stored. Both passes count towards the progress.
+const runImportJob = async (job, { report }) => {
+  const { data: upload, error: downloadError } = await supabaseAdmin.storage
+    .from(IMPORT_BUCKET)
+    .download(job.upload_path);
+
+  if (downloadError) {
+    console.error('Error downloading import archive:', downloadError);
+    return { failure: 'The uploaded archive is no longer available' };
+  }
+
+  const archive = await readImportArchive(Buffer.from(await upload.arrayBuffer()), job.source);
+  if (archive.failure) return archive;
+
+  const { pages, files } = archive;
+  const failures = [];
+  const counts = { created_count: 0, updated_count: 0, attachment_count: 0 };
+  let steps = 0;
+
+  const addFailure = (path, message) => {
+    if (failures.length < MAX_FAILURES) failures.push({ path, message });
+  };
+
+  const step = (processed) => {
+    steps += 1;
+    return report({
+      ...counts,
+      processed_items: processed,
+      progress: Math.min(99, Math.floor((steps / (pages.length * 2)) * 100))
+    });
+  };
+
+  await report({ ...counts, total_items: pages.length, processed_items: 0, failures: [] }, { force: true });
+
+  const existing = await fetchMappings(job);
+  const documentIds = new Map();
+  const documentIdsByExternalId = new Map();
+
+  for (const page of pages) {
+    try {
+      const mapped = existing.get(page.externalId);
+      const documentId = mapped
+        ? mapped.id
+        : await createPageDocument(job, page, documentIds.get(page.parentPath) || job.parent_id);
+
+      documentIds.set(page.path, documentId);
+      documentIdsByExternalId.set(page.externalId, documentId);
+    } catch (error) {
+      console.error('Error creating imported document:', error);
+      addFailure(page.path, 'The page could not be created');
+    }
+    await step(0);
+  }
+
+  let processed = 0;
+
+  for (const page of pages) {
+    const documentId = documentIds.get(page.path);
+    if (!documentId) continue;
+
+    const mapped = existing.get(page.externalId);
+
+    // Edits made since the last import win; the page is not even converted,
+    // so none of its attachments are stored
+    if (mapped && mapped.version !== mapped.importedVersion) {
+      addFailure(page.path, EDITED_FAILURE);
+      processed += 1;
+      await step(processed);
+      continue;
+    }
+
+    try {
+      const attachments = mapped ? await fetchImportedAttachments(documentId) : new Map();
+
+      const { content, missing } = await convertPageContent(page, {
+        files,
+        source: job.source,
+        pageUrl: (path) => (documentIds.has(path) ? `/documents/${documentIds.get(path)}` : null),
+        pageUrlForId: (id) => (documentIdsByExternalId.has(id) ? `/documents/${documentIdsByExternalId.get(id)}` : null),
+        fileUrl: async (path, filename) => {
+          if (!attachments.has(path)) {
+            const attachment = await storeAttachment({
+              documentId,
+              filename,
+              data: await files.get(path).async('nodebuffer'),
+              userId: job.user_id,
+              sourcePath: path
+            });
+            attachments.set(path, attachment.id);
+            counts.attachment_count += 1;
+          }
+          return attachmentUrl(attachments.get(path));
+        }
+      });
+
+      missing.forEach(path => addFailure(page.path, `Linked file not found in the archive: ${path}`));
+
+      const title = page.title.slice(0, MAX_TITLE_LENGTH) || 'Untitled Document';
+
+      if (!mapped) {
+        await finishNewDocument(job, documentId, title, content);
+        counts.created_count += 1;
+      } else {
+        const parentId = documentIds.get(page.parentPath) || job.parent_id;
+        const result = await updateExistingDocument(job, page, mapped, { title, content, parentId });
+        if (result === 'updated') {
+          counts.updated_count += 1;
+        } else if (result === 'edited') {
+          addFailure(page.path, EDITED_FAILURE);
+        }
+      }
+    } catch (error) {
+      console.error('Error importing page:', error);
+      addFailure(page.path, 'The page content could not be imported');
+    }
+
+    processed += 1;
+    await step(processed);
+  }
+
+  return { ...counts, processed_items: processed, failures };
+};
+
+// Delete import jobs along with their uploaded archives. The documents they
+// created stay.
+export const removeImportJobs = async (jobs) => {
+  if (jobs.length === 0) return;
+
+  const { error: storageError } = await supabaseAdmin.storage
+    .from(IMPORT_BUCKET)
+    .remove(jobs.map(job => job.upload_path));
+
+  if (storageError) throw storageError;
+
+  const { error } = await supabaseAdmin
+    .from('import_jobs')
+    .delete()
+    .in('id', jobs.map(job => job.id));
+
+  if (error) throw error;
+};
+
+const importQueue = createJobQueue({
+  name: 'import',
+  table: 'import_jobs',
+  run: runImportJob,
+  failureMessage: 'The import could not be completed',
+  // Imports write many rows; one at a time keeps the database responsive
+  concurrency: 1
+});
+
+// Queue an import for this process to run
+export const enqueueImportJob = importQueue.enqueue;
+
+// Start working through import jobs; called once when the server starts
+export const startImportWorker = importQueue.start;
\ No newline at end of file
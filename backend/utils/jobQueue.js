@@ -0,0 +1,209 @@
+import crypto from 'crypto';
+import { supabaseAdmin } from '../config/database.js';
+
+// Background jobs kept in a table with status ('queued', 'running',
+// 'completed', 'failed'), progress, processed_items, error, attempt_id and
+// timestamp columns. Each API process works through queued jobs a few at a
+// time. A job is claimed by switching it from queued to running under a new
+// attempt_id, so several processes can share one table.
+
+// Workers renew their claim this often, whether or not there is progress to
+// report
+const HEARTBEAT_INTERVAL = 60 * 1000;
+
+// Running jobs whose claim has not been renewed for this long were cut off,
+// e.g. by a restart, and go back in the queue
+const STALE_JOB_AFTER = 10 * 60 * 1000;
+
+const SWEEP_INTERVAL = 5 * 60 * 1000;
+const PROGRESS_INTERVAL = 1000;
+
+// The job went back in the queue and may be running elsewhere, so this
+// attempt must stop and leave it alone
+class JobTakenOverError extends Error {
+  constructor() {
+    super('The job was taken over by another attempt');
+    this.name = 'JobTakenOverError';
+  }
+}
+
+// `run(job, { report })` does the work and resolves with the columns to set
+// on the completed job, or with { failure } to fail it with that message.
+// Errors thrown by `run` fail the job with `failureMessage`. When the job was
+// taken over while it ran, its result is handed to `discard` (e.g. to remove
+// the file it wrote) instead. `onSweep` runs with each periodic sweep, e.g.
+// to remove expired results.
+export const createJobQueue = ({ name, table, run, failureMessage, concurrency = 2, onSweep, discard }) => {
+  const queue = [];
+  let running = 0;
+
+  // Writes only land while the attempt still holds the job
+  const updateJob = async (job, fields) => {
+    const { data, error } = await supabaseAdmin
+      .from(table)
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .match({ id: job.id, attempt_id: job.attempt_id })
+      .select('id')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new JobTakenOverError();
+  };
+
+  // Progress writes are throttled and best effort: a failed write should not
+  // fail the job. Losing the job does stop it, at the next report.
+  const progressReporter = (job, lease) => {
+    let lastWrite = 0;
+
+    return async (fields, { force = false } = {}) => {
+      if (lease.lost) throw new JobTakenOverError();
+
+      const now = Date.now();
+      if (!force && now - lastWrite < PROGRESS_INTERVAL) return;
+      lastWrite = now;
+
+      await updateJob(job, fields).catch(error => {
+        if (error instanceof JobTakenOverError) throw error;
+        console.error(`Error updating ${name} progress:`, error);
+      });
+    };
+  };
+
+  // Renew the claim until `stop` is called, noting when it was lost
+  const holdLease = (job) => {
+    const lease = { lost: false };
+
+    const timer = setInterval(() => {
+      updateJob(job, {}).catch(error => {
+        if (error instanceof JobTakenOverError) {
+          lease.lost = true;
+        } else {
+          console.error(`Error renewing ${name} job:`, error);
+        }
+      });
+    }, HEARTBEAT_INTERVAL);
+    timer.unref();
+
+    lease.stop = () => clearInterval(timer);
+    return lease;
+  };
+
+  const runJob = async (jobId) => {
+    // Claim the job; another process may have picked it up already
+    const now = new Date().toISOString();
+    const { data: job, error: claimError } = await supabaseAdmin
+      .from(table)
+      .update({
+        status: 'running',
+        attempt_id: crypto.randomUUID(),
+        started_at: now,
+        completed_at: null,
+        error: null,
+        updated_at: now
+      })
+      .eq('id', jobId)
+      .eq('status', 'queued')
+      .select('*')
+      .maybeSingle();
+
+    if (claimError) throw claimError;
+    if (!job) return;
+
+    const lease = holdLease(job);
+    let result = null;
+
+    try {
+      const { failure, ...output } = await run(job, { report: progressReporter(job, lease) });
+      result = output;
+
+      if (failure) {
+        await updateJob(job, { status: 'failed', error: failure, completed_at: new Date().toISOString() });
+        return;
+      }
+
+      await updateJob(job, {
+        ...result,
+        status: 'completed',
+        progress: 100,
+        completed_at: new Date().toISOString()
+      });
+    } catch (error) {
+      if (error instanceof JobTakenOverError) {
+        console.error(`${name} job ${job.id} was taken over; dropping this attempt`);
+        if (result) await discard?.(result);
+        return;
+      }
+
+      console.error(`Error running ${name} job:`, error);
+      await updateJob(job, { status: 'failed', error: failureMessage, completed_at: new Date().toISOString() })
+        .catch(updateError => {
+          if (!(updateError instanceof JobTakenOverError)) throw updateError;
+        });
+    } finally {
+      lease.stop();
+    }
+  };
+
+  const processQueue = () => {
+    while (running < concurrency && queue.length > 0) {
+      const jobId = queue.shift();
+      running += 1;
+
+      runJob(jobId)
+        .catch(error => console.error(`Error running ${name} job:`, error))
+        .finally(() => {
+          running -= 1;
+          processQueue();
+        });
+    }
+  };
+
+  // Queue a job for this process to run
+  const enqueue = (jobId) => {
+    if (!queue.includes(jobId)) {
+      queue.push(jobId);
+      setImmediate(processQueue);
+    }
+  };
+
+  // Requeue interrupted jobs and pick up queued ones
+  const sweep = async () => {
+    // Clearing attempt_id cuts off the old attempt should it still be running
+    const { error: staleError } = await supabaseAdmin
+      .from(table)
+      .update({
+        status: 'queued',
+        attempt_id: null,
+        progress: 0,
+        processed_items: 0,
+        updated_at: new Date().toISOString()
+      })
+      .eq('status', 'running')
+      .lt('updated_at', new Date(Date.now() - STALE_JOB_AFTER).toISOString());
+
+    if (staleError) throw staleError;
+
+    const { data: queued, error } = await supabaseAdmin
+      .from(table)
+      .select('id')
+      .eq('status', 'queued')
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    queued.forEach(job => enqueue(job.id));
+    await onSweep?.();
+  };
+
+  // Start working through the table; called once when the server starts
+  const start = () => {
+    const sweepJobs = () => sweep().catch(error => {
+      console.error(`Error sweeping ${name} jobs:`, error);
+    });
+
+    sweepJobs();
+    setInterval(sweepJobs, SWEEP_INTERVAL).unref();
+  };
+
+  return { enqueue, start };
+};
\ No newline at end of file
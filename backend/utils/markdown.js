@@ -0,0 +1,162 @@
+import MarkdownIt from 'markdown-it';
+import { MarkdownSerializer, defaultMarkdownSerializer } from '@tiptap/pm/markdown';
+import { Node } from '@tiptap/pm/model';
+import { editorSchema, htmlToJSON, jsonToHTML } from './editorContent.js';
+
+// The default preset includes GFM tables and strikethrough. Inline HTML is
+// allowed because exported mentions are written as HTML; whatever the editor
+// schema does not know is dropped when the HTML is parsed.
+const markdownParser = new MarkdownIt({ html: true, linkify: true });
+
+// Code in Markdown always ends with a line break, code in the editor does not
+markdownParser.core.ruler.push('trim_code', (state) => {
+  state.tokens.forEach(token => {
+    if (token.type === 'fence' || token.type === 'code_block') {
+      token.content = token.content.replace(/\n$/, '');
+    }
+  });
+});
+
+// Images are blocks in the editor. A paragraph holding nothing but an image
+// would leave an empty paragraph behind, so its tags are not rendered.
+markdownParser.core.ruler.push('block_images', (state) => {
+  state.tokens.forEach((token, index) => {
+    const inline = state.tokens[index + 1];
+    if (token.type !== 'paragraph_open' || !inline?.children) return;
+
+    const onlyImages = inline.children.every(child =>
+      child.type === 'image' || child.type === 'softbreak' || (child.type === 'text' && !child.content.trim())
+    );
+    if (onlyImages && inline.children.some(child => child.type === 'image')) {
+      token.hidden = true;
+      state.tokens[index + 2].hidden = true;
+    }
+  });
+});
+
+const defaults = defaultMarkdownSerializer.nodes;
+
+const escapeAttribute = (value) => String(value ?? '').replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+// A table cell as a single line of Markdown
+const cellMarkdown = (cell) =>
+  markdownSerializer
+    .serialize(cell, { tightLists: true })
+    .trim()
+    .replace(/\\\n/g, '<br>')
+    .replace(/\n+/g, '<br>')
+    .replace(/\|/g, '\\|');
+
+// Markdown joins lists of the same kind that follow each other unless their
+// markers differ, so every other list in such a run switches marker
+const alternateMarker = (node, parent, index) => {
+  let previous = 0;
+  while (index - previous > 0 && parent.child(index - previous - 1).type === node.type) {
+    previous += 1;
+  }
+  return previous % 2 === 1;
+};
+
+const markdownSerializer = new MarkdownSerializer(
+  {
+    ...defaults,
+    bulletList(state, node, parent, index) {
+      const bullet = alternateMarker(node, parent, index) ? '*' : '-';
+      state.renderList(node, '  ', () => `${bullet} `);
+    },
+    orderedList(state, node, parent, index) {
+      const delimiter = alternateMarker(node, parent, index) ? ')' : '.';
+      const start = node.attrs.start ?? 1;
+      const width = String(start + node.childCount - 1).length;
+      state.renderList(node, state.repeat(' ', width + 2), i => {
+        const number = String(start + i);
+        return state.repeat(' ', width - number.length) + number + delimiter + ' ';
+      });
+    },
+    listItem: defaults.list_item,
+    codeBlock(state, node) {
+      // The fence must be longer than any run of backticks inside the code
+      const backticks = node.textContent.match(/`{3,}/gm);
+      const fence = backticks ? backticks.sort().slice(-1)[0] + '`' : '```';
+
+      state.write(fence + (node.attrs.language || '') + '\n');
+      state.text(node.textContent, false);
+      state.ensureNewLine();
+      state.write(fence);
+      state.closeBlock(node);
+    },
+    horizontalRule: defaults.horizontal_rule,
+    hardBreak: defaults.hard_break,
+    // Images are blocks in the editor, so each gets a paragraph of its own
+    image(state, node) {
+      defaults.image(state, node);
+      state.closeBlock(node);
+    },
+    // Kept as HTML so importing the file again restores the mention
+    mention(state, node) {
+      const { id, label } = node.attrs;
+      state.write(
+        `<span data-type="mention" data-id="${escapeAttribute(id)}" data-label="${escapeAttribute(label)}">@${label ?? id}</span>`
+      );
+    },
+    // GFM tables have exactly one header row; the first row is used as it
+    table(state, node) {
+      const rows = [];
+      node.forEach(row => {
+        const cells = [];
+        row.forEach(cell => cells.push(cellMarkdown(cell)));
+        rows.push(cells);
+      });
+
+      const width = Math.max(...rows.map(cells => cells.length));
+      const writeRow = (cells) => {
+        const padded = [...cells, ...Array(width - cells.length).fill('')];
+        state.write(`| ${padded.join(' | ')} |`);
+        state.ensureNewLine();
+      };
+
+      writeRow(rows[0]);
+      writeRow(Array(width).fill('---'));
+      rows.slice(1).forEach(writeRow);
+      state.closeBlock(node);
+    }
+  },
+  {
+    bold: defaultMarkdownSerializer.marks.strong,
+    italic: defaultMarkdownSerializer.marks.em,
+    strike: { open: '~~', close: '~~', mixable: true, expelEnclosingWhitespace: true },
+    code: defaultMarkdownSerializer.marks.code,
+    link: defaultMarkdownSerializer.marks.link
+  },
+  { hardBreakNodeName: 'hardBreak' }
+);
+
+// Render Markdown to HTML as is, e.g. to rewrite its links before it becomes
+// editor content
+export const markdownToHTML = (markdown) => markdownParser.render(markdown);
+
+// Convert Markdown to editor HTML. A leading level-1 heading is taken out and
+// returned as the title (null when there is none).
+export const markdownToContent = (markdown) => {
+  const json = htmlToJSON(markdownParser.render(markdown));
+  const [first, ...rest] = json.content || [];
+
+  if (first?.type === 'heading' && first.attrs?.level === 1) {
+    const title = (first.content || []).map(node => node.text || '').join('').trim();
+    return {
+      title: title || null,
+      content: jsonToHTML({ ...json, content: rest.length > 0 ? rest : [{ type: 'paragraph' }] })
+    };
+  }
+
+  return { title: null, content: jsonToHTML(json) };
+};
+
+// Convert a document to GitHub-flavored Markdown, with its title as the
+// leading level-1 heading
+export const documentToMarkdown = ({ title, content }) => {
+  const doc = Node.fromJSON(editorSchema, htmlToJSON(content));
+  const body = markdownSerializer.serialize(doc, { tightLists: true });
+  const markdown = `# ${title}\n\n${body}`;
+  return `${markdown.trimEnd()}\n`;
+};
\ No newline at end of file
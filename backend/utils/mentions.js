@@ -0,0 +1,68 @@
+import { supabaseAdmin } from '../config/database.js';
+import { extractMentionIds } from './editorContent.js';
+import { getDocumentAccess } from './permissions.js';
+import { sendMentionEmail } from './email.js';
+import { createNotification } from './notifications.js';
+
+// Handle users newly mentioned in a document's content: anyone who cannot
+// open the document yet gets a view share, and everyone mentioned is notified.
+// Without verified email addresses on both sides there is no share, and
+// mentioned users who cannot open the document are skipped.
+// Failures are logged rather than thrown so they never block a save.
+export const processMentions = async ({ documentId, title, previousContent = '', content, mentionedBy }) => {
+  try {
+    const previous = new Set(extractMentionIds(previousContent));
+    const added = extractMentionIds(content).filter(
+      userId => !previous.has(userId) && userId !== mentionedBy.id
+    );
+
+    if (added.length === 0) return [];
+
+    const { data: users, error } = await supabaseAdmin
+      .from('users')
+      .select('id, email, first_name, last_name, email_verified_at')
+      .in('id', added);
+
+    if (error) throw error;
+
+    for (const user of users) {
+      const { permission } = await getDocumentAccess(documentId, user);
+
+      if (!permission) {
+        if (!mentionedBy.email_verified_at || !user.email_verified_at) continue;
+
+        const { error: shareError } = await supabaseAdmin
+          .from('document_shares')
+          .insert({
+            document_id: documentId,
+            user_id: user.id,
+            permission: 'view',
+            shared_by: mentionedBy.id
+          });
+
+        if (shareError) throw shareError;
+      }
+
+      await createNotification({
+        userId: user.id,
+        type: 'mention',
+        documentId,
+        actorId: mentionedBy.id,
+        message: `${mentionedBy.first_name} ${mentionedBy.last_name} mentioned you in "${title}"`
+      });
+
+      await sendMentionEmail(
+        user.email,
+        user.first_name,
+        `${mentionedBy.first_name} ${mentionedBy.last_name}`,
+        title,
+        documentId
+      ).catch(error => console.error('Error sending mention email:', error));
+    }
+
+    return users;
+  } catch (error) {
+    console.error('Error processing mentions:', error);
+    return [];
+  }
+};
@@ -0,0 +1,56 @@
+import { supabaseAdmin } from '../config/database.js';
+import { getDocumentAccess } from './permissions.js';
+
+// Notifications are a side effect of other actions: failures are logged and
+// never bubble up to the request that triggered them.
+export const createNotifications = async (notifications) => {
+  if (notifications.length === 0) return;
+
+  const { error } = await supabaseAdmin
+    .from('notifications')
+    .insert(notifications.map(({ userId, type, documentId, actorId, message }) => ({
+      user_id: userId,
+      type,
+      document_id: documentId,
+      actor_id: actorId,
+      message
+    })));
+
+  if (error) {
+    console.error('Error creating notifications:', error);
+  }
+};
+
+export const createNotification = (notification) => createNotifications([notification]);
+
+// Let everyone watching a document know that a new version was saved
+export const notifyDocumentWatchers = async ({ documentId, title, versionNumber, actor }) => {
+  try {
+    const { data: subscriptions, error } = await supabaseAdmin
+      .from('document_subscriptions')
+      .select('user_id')
+      .eq('document_id', documentId)
+      .neq('user_id', actor.id);
+
+    if (error) throw error;
+
+    const notifications = [];
+    for (const { user_id: userId } of subscriptions) {
+      // Watchers who have since lost access are skipped
+      const { permission } = await getDocumentAccess(documentId, { id: userId });
+      if (!permission) continue;
+
+      notifications.push({
+        userId,
+        type: 'document_update',
+        documentId,
+        actorId: actor.id,
+        message: `${actor.first_name} ${actor.last_name} saved version ${versionNumber} of "${title}"`
+      });
+    }
+
+    await createNotifications(notifications);
+  } catch (error) {
+    console.error('Error notifying watchers:', error);
+  }
+};
@@ -0,0 +1,125 @@
+import { supabaseAdmin } from '../config/database.js';
+import { getDocumentAccess, MAX_TREE_DEPTH } from './permissions.js';
+
+export const TREE_FIELDS = 'id, title, parent_id, position, is_public, inherit_permissions, author_id, space_id, updated_at';
+
+// Top-level pages are ordered per author; child pages per parent
+const siblingsQuery = (parentId, authorId) => {
+  const query = supabaseAdmin
+    .from('documents')
+    .select('id, position')
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  return parentId
+    ? query.eq('parent_id', parentId)
+    : query.is('parent_id', null).eq('author_id', authorId);
+};
+
+export const getNextPosition = async (parentId, authorId) => {
+  const { data: siblings, error } = await siblingsQuery(parentId, authorId);
+  if (error) throw error;
+  return siblings.length === 0 ? 0 : siblings[siblings.length - 1].position + 1;
+};
+
+// True when newParentId is the page itself or one of its descendants
+export const wouldCreateCycle = async (documentId, newParentId) => {
+  let currentId = newParentId;
+
+  for (let depth = 0; currentId && depth < MAX_TREE_DEPTH; depth++) {
+    if (currentId === documentId) return true;
+
+    const { data: page } = await supabaseAdmin
+      .from('documents')
+      .select('parent_id')
+      .eq('id', currentId)
+      .single();
+
+    currentId = page?.parent_id;
+  }
+
+  // A chain this deep is treated as a cycle rather than walked forever
+  return !!currentId;
+};
+
+// Put a page and all of its subpages in a space (null for personal pages).
+// Pages always share their parent's space, so the tree and space roles agree.
+export const setSubtreeSpace = async (documentId, spaceId) => {
+  let level = [documentId];
+
+  for (let depth = 0; level.length > 0 && depth < MAX_TREE_DEPTH; depth++) {
+    const { error } = await supabaseAdmin
+      .from('documents')
+      .update({ space_id: spaceId })
+      .in('id', level);
+
+    if (error) throw error;
+
+    const { data: children, error: childError } = await supabaseAdmin
+      .from('documents')
+      .select('id')
+      .in('parent_id', level);
+
+    if (childError) throw childError;
+    level = children.map(child => child.id);
+  }
+};
+
+// Place a page under newParentId at the given index and renumber its siblings.
+// spaceId is the new parent's space; the page and its subpages move along.
+export const movePage = async (document, newParentId, position, spaceId = document.space_id) => {
+  const { data: siblings, error } = await siblingsQuery(newParentId, document.author_id);
+  if (error) throw error;
+
+  // position is an index into the sibling list as the client saw it, which
+  // still contained the page when it is reordered within the same parent
+  const currentIndex = siblings.findIndex(sibling => sibling.id === document.id);
+  const others = siblings.filter(sibling => sibling.id !== document.id);
+  let index = Math.min(position ?? others.length, others.length);
+  if (currentIndex !== -1 && currentIndex < index) {
+    index -= 1;
+  }
+
+  const ordered = [...others.slice(0, index), { id: document.id }, ...others.slice(index)];
+
+  for (const [newPosition, sibling] of ordered.entries()) {
+    if (sibling.id === document.id) {
+      const { error: moveError } = await supabaseAdmin
+        .from('documents')
+        .update({ parent_id: newParentId, position: newPosition })
+        .eq('id', document.id);
+
+      if (moveError) throw moveError;
+    } else if (sibling.position !== newPosition) {
+      const { error: orderError } = await supabaseAdmin
+        .from('documents')
+        .update({ position: newPosition })
+        .eq('id', sibling.id);
+
+      if (orderError) throw orderError;
+    }
+  }
+
+  if (spaceId !== document.space_id) {
+    await setSubtreeSpace(document.id, spaceId);
+  }
+
+  return { id: document.id, parent_id: newParentId, position: index, space_id: spaceId };
+};
+
+// Ancestors from the top of the tree down to the direct parent, stopping at
+// the first one the user is not allowed to see
+export const getAncestors = async (document, user) => {
+  const ancestors = [];
+  let parentId = document.parent_id;
+
+  while (parentId && ancestors.length < MAX_TREE_DEPTH) {
+    const { document: parent, permission } = await getDocumentAccess(parentId, user);
+    if (!parent || !permission) break;
+
+    ancestors.unshift({ id: parent.id, title: parent.title });
+    parentId = parent.parent_id;
+  }
+
+  return ancestors;
+};
\ No newline at end of file
@@ -0,0 +1,395 @@
+import { createRequire } from 'module';
+import PDFDocument from 'pdfkit';
+import { htmlToJSON } from './editorContent.js';
+import { documentByline } from './exportFormats.js';
+
+// Renders editor content straight from its ProseMirror JSON with pdfkit, so
+// no browser is needed on the server. Text is set in the bundled DejaVu fonts,
+// which cover Latin, Greek, Cyrillic and most symbols; the standard PDF fonts
+// only cover Latin scripts. CJK characters still do not render.
+
+const require = createRequire(import.meta.url);
+
+// Each font is registered under its file name
+const FONTS = {
+  regular: 'DejaVuSans',
+  bold: 'DejaVuSans-Bold',
+  italic: 'DejaVuSans-Oblique',
+  boldItalic: 'DejaVuSans-BoldOblique',
+  code: 'DejaVuSansMono',
+  codeBold: 'DejaVuSansMono-Bold'
+};
+
+const registerFonts = (doc) => {
+  Object.values(FONTS).forEach(font => {
+    doc.registerFont(font, require.resolve(`dejavu-fonts-ttf/ttf/${font}.ttf`));
+  });
+};
+
+const COLORS = {
+  text: '#111827',
+  muted: '#6b7280',
+  link: '#2563eb',
+  mention: '#1d4ed8',
+  rule: '#e5e7eb',
+  codeBackground: '#f3f4f6',
+  headerBackground: '#f9fafb'
+};
+
+const BODY_SIZE = 11;
+const CODE_SIZE = 9;
+const TABLE_SIZE = 10;
+const HEADING_SIZES = { 1: 20, 2: 16, 3: 14, 4: 12, 5: 11, 6: 11 };
+
+const LIST_INDENT = 18;
+const QUOTE_INDENT = 14;
+const CODE_PADDING = 8;
+const CELL_PADDING = 5;
+
+const BULLETS = ['•', '–', '·'];
+
+// Image types pdfkit can embed
+const PDF_IMAGE_TYPES = new Set(['image/png', 'image/jpeg']);
+
+const bottomEdge = (doc) => doc.page.height - doc.page.margins.bottom;
+
+// Start a new page unless `height` still fits on the current one
+const ensureSpace = (doc, height) => {
+  if (doc.y + height > bottomEdge(doc)) {
+    doc.addPage();
+  }
+};
+
+const fontFor = (marks, base) => {
+  const names = new Set(marks.map(mark => mark.type));
+  const bold = names.has('bold') || base === 'bold';
+  const italic = names.has('italic') || base === 'italic';
+
+  if (names.has('code')) return bold ? FONTS.codeBold : FONTS.code;
+  if (bold && italic) return FONTS.boldItalic;
+  if (bold) return FONTS.bold;
+  return italic ? FONTS.italic : FONTS.regular;
+};
+
+// A styled run of text for one inline node
+const inlineRun = (node, base) => {
+  if (node.type === 'hardBreak') {
+    return [{ text: '\n', font: fontFor([], base) }];
+  }
+  if (node.type === 'mention') {
+    return [{ text: `@${node.attrs?.label || node.attrs?.id}`, font: fontFor([], base), color: COLORS.mention }];
+  }
+  if (node.type !== 'text') return [];
+
+  const marks = node.marks || [];
+  const link = marks.find(mark => mark.type === 'link')?.attrs?.href || null;
+  return [{
+    text: node.text,
+    font: fontFor(marks, base),
+    link,
+    color: link ? COLORS.link : null,
+    strike: marks.some(mark => mark.type === 'strike')
+  }];
+};
+
+// Flatten inline nodes into styled runs of text. pdfkit drops line breaks at
+// the end of a continued run, so breaks start the run after them instead.
+const inlineRuns = (nodes = [], base) => {
+  const runs = [];
+  let breaks = '';
+
+  nodes.flatMap(node => inlineRun(node, base)).forEach(run => {
+    if (run.text === '\n') {
+      breaks += '\n';
+    } else {
+      runs.push({ ...run, text: `${breaks}${run.text}` });
+      breaks = '';
+    }
+  });
+
+  return runs;
+};
+
+const plainText = (node) =>
+  node.type === 'text'
+    ? node.text
+    : node.type === 'hardBreak'
+      ? '\n'
+      : node.type === 'mention'
+        ? `@${node.attrs?.label || node.attrs?.id}`
+        : (node.content || []).map(plainText).join(node.type === 'tableCell' || node.type === 'tableHeader' ? '\n' : '');
+
+// Write a line-wrapped block of inline content at the current y position
+const renderInline = (doc, nodes, { x, width, size, color = COLORS.text, base }) => {
+  const runs = inlineRuns(nodes, base).filter(run => run.text);
+
+  if (runs.length === 0) {
+    // Empty paragraphs still take up a line
+    doc.font(fontFor([], base)).fontSize(size).text(' ', x, doc.y, { width });
+    return;
+  }
+
+  runs.forEach((run, index) => {
+    const options = {
+      continued: index < runs.length - 1,
+      link: run.link || null,
+      underline: !!run.link,
+      strike: !!run.strike
+    };
+
+    doc.font(run.font).fontSize(size).fillColor(run.color || color);
+    if (index === 0) {
+      doc.text(run.text, x, doc.y, { ...options, width });
+    } else {
+      doc.text(run.text, options);
+    }
+  });
+};
+
+const renderCodeBlock = (doc, node, { x, width }) => {
+  const text = plainText(node) || ' ';
+  const innerWidth = width - CODE_PADDING * 2;
+
+  doc.font(FONTS.code).fontSize(CODE_SIZE);
+  const height = doc.heightOfString(text, { width: innerWidth }) + CODE_PADDING * 2;
+  const pageHeight = bottomEdge(doc) - doc.page.margins.top;
+
+  // Keep blocks that fit on a page together; longer ones flow without a background
+  if (height <= pageHeight) {
+    ensureSpace(doc, height);
+    doc.rect(x, doc.y, width, height).fill(COLORS.codeBackground);
+  }
+
+  const top = doc.y;
+  doc.fillColor(COLORS.text).text(text, x + CODE_PADDING, top + CODE_PADDING, { width: innerWidth });
+  if (height <= pageHeight) {
+    doc.y = top + height;
+  }
+};
+
+const renderTable = (doc, node, { x, width }) => {
+  const rows = node.content || [];
+  const columns = Math.max(
+    ...rows.map(row => (row.content || []).reduce((sum, cell) => sum + (cell.attrs?.colspan || 1), 0)),
+    1
+  );
+  const columnWidth = width / columns;
+
+  rows.forEach(row => {
+    const cells = (row.content || []).map(cell => ({
+      text: plainText(cell).trim() || ' ',
+      font: cell.type === 'tableHeader' ? FONTS.bold : FONTS.regular,
+      header: cell.type === 'tableHeader',
+      width: columnWidth * (cell.attrs?.colspan || 1)
+    }));
+
+    doc.fontSize(TABLE_SIZE);
+    const rowHeight = Math.max(
+      ...cells.map(cell =>
+        doc.font(cell.font).heightOfString(cell.text, { width: cell.width - CELL_PADDING * 2 })
+      ),
+      0
+    ) + CELL_PADDING * 2;
+
+    ensureSpace(doc, rowHeight);
+    const top = doc.y;
+    let cellX = x;
+
+    cells.forEach(cell => {
+      if (cell.header) {
+        doc.rect(cellX, top, cell.width, rowHeight).fillAndStroke(COLORS.headerBackground, COLORS.rule);
+      } else {
+        doc.rect(cellX, top, cell.width, rowHeight).stroke(COLORS.rule);
+      }
+      doc.font(cell.font).fillColor(COLORS.text)
+        .text(cell.text, cellX + CELL_PADDING, top + CELL_PADDING, { width: cell.width - CELL_PADDING * 2 });
+      cellX += cell.width;
+    });
+
+    doc.y = top + rowHeight;
+  });
+};
+
+// Attached PNG and JPEG images are drawn at most as wide as the text and half
+// a page high. Anything else is named in brackets instead.
+const renderImage = (doc, node, { x, width, images }) => {
+  const image = images?.get(node.attrs?.src);
+
+  if (image && PDF_IMAGE_TYPES.has(image.contentType)) {
+    let opened = null;
+    try {
+      opened = doc.openImage(image.data);
+    } catch {
+      // Not a readable image after all; fall back to its name
+    }
+
+    if (opened) {
+      const maxHeight = (bottomEdge(doc) - doc.page.margins.top) / 2;
+      const scale = Math.min(1, width / opened.width, maxHeight / opened.height);
+      const imageHeight = opened.height * scale;
+
+      ensureSpace(doc, imageHeight);
+      const top = doc.y;
+      doc.image(opened, x, top, { width: opened.width * scale, height: imageHeight });
+      doc.y = top + imageHeight;
+      return;
+    }
+  }
+
+  doc.font(FONTS.italic).fontSize(BODY_SIZE).fillColor(COLORS.muted)
+    .text(`[${node.attrs?.alt || node.attrs?.title || 'Image'}]`, x, doc.y, { width });
+};
+
+// Render block nodes one after the other; `tight` drops the space after
+// paragraphs inside list items
+const renderBlocks = (doc, nodes = [], context) => {
+  nodes.forEach(node => {
+    switch (node.type) {
+      case 'heading': {
+        const size = HEADING_SIZES[node.attrs?.level] || BODY_SIZE;
+        // Keep the heading on the same page as the line that follows it
+        doc.moveDown(0.4);
+        ensureSpace(doc, size * 3);
+        renderInline(doc, node.content, { ...context, size, base: 'bold' });
+        doc.moveDown(0.3);
+        break;
+      }
+
+      case 'paragraph':
+        renderInline(doc, node.content, { ...context, size: BODY_SIZE, color: context.color });
+        doc.moveDown(context.tight ? 0.2 : 0.6);
+        break;
+
+      case 'bulletList':
+      case 'orderedList': {
+        const start = node.attrs?.start ?? 1;
+        (node.content || []).forEach((item, index) => {
+          const marker = node.type === 'orderedList'
+            ? `${start + index}.`
+            : BULLETS[(context.listDepth || 0) % BULLETS.length];
+
+          ensureSpace(doc, BODY_SIZE * 1.5);
+          const top = doc.y;
+          doc.font(FONTS.regular).fontSize(BODY_SIZE).fillColor(context.color || COLORS.text)
+            .text(marker, context.x, top, { width: LIST_INDENT, lineBreak: false });
+          doc.y = top;
+
+          renderBlocks(doc, item.content, {
+            ...context,
+            x: context.x + LIST_INDENT,
+            width: context.width - LIST_INDENT,
+            listDepth: (context.listDepth || 0) + 1,
+            tight: true
+          });
+        });
+        if (!context.tight) doc.moveDown(0.4);
+        break;
+      }
+
+      case 'blockquote': {
+        const top = doc.y;
+        const page = doc.page;
+        renderBlocks(doc, node.content, {
+          ...context,
+          x: context.x + QUOTE_INDENT,
+          width: context.width - QUOTE_INDENT,
+          color: COLORS.muted
+        });
+        // The bar is only drawn when the quote did not cross a page break
+        if (doc.page === page) {
+          doc.moveTo(context.x + 2, top).lineTo(context.x + 2, doc.y - BODY_SIZE * 0.4)
+            .lineWidth(3).stroke(COLORS.rule).lineWidth(1);
+        }
+        break;
+      }
+
+      case 'codeBlock':
+        renderCodeBlock(doc, node, context);
+        doc.moveDown(0.6);
+        break;
+
+      case 'horizontalRule':
+        doc.moveDown(0.4);
+        ensureSpace(doc, BODY_SIZE);
+        doc.moveTo(context.x, doc.y).lineTo(context.x + context.width, doc.y).stroke(COLORS.rule);
+        doc.moveDown(0.8);
+        break;
+
+      case 'table':
+        renderTable(doc, node, context);
+        doc.moveDown(0.6);
+        break;
+
+      case 'image':
+        renderImage(doc, node, context);
+        doc.moveDown(0.6);
+        break;
+
+      default:
+        // Unknown wrappers: render whatever blocks they hold
+        renderBlocks(doc, node.content, context);
+    }
+  });
+};
+
+// Page numbers go in the bottom margin once all pages exist
+const addPageNumbers = (doc) => {
+  const { start, count } = doc.bufferedPageRange();
+
+  for (let index = start; index < start + count; index++) {
+    doc.switchToPage(index);
+    const { margins } = doc.page;
+    const bottom = margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc.font(FONTS.regular).fontSize(8).fillColor(COLORS.muted)
+      .text(`${index + 1} / ${count}`, margins.left, doc.page.height - bottom / 2, {
+        width: doc.page.width - margins.left - margins.right,
+        align: 'center',
+        lineBreak: false
+      });
+    doc.page.margins.bottom = bottom;
+  }
+};
+
+// Render a document as an A4 PDF: title, byline, then the content. `images`
+// maps attachment URLs to their files (see loadDocumentImages). Resolves with
+// the file as a Buffer.
+export const renderDocumentPDF = (document, { label, images = new Map() } = {}) =>
+  new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margins: { top: 64, bottom: 64, left: 64, right: 64 },
+      bufferPages: true,
+      info: {
+        Title: document.title,
+        ...(document.author && { Author: `${document.author.first_name} ${document.author.last_name}` }),
+        ...(document.tags?.length > 0 && { Keywords: document.tags.join(', ') })
+      }
+    });
+    registerFonts(doc);
+
+    const chunks = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const x = doc.page.margins.left;
+    const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+    doc.font(FONTS.bold).fontSize(24).fillColor(COLORS.text).text(document.title, x, doc.y, { width });
+    doc.moveDown(0.3);
+
+    const byline = [...documentByline(document, { label }), ...(document.tags || []).map(tag => `#${tag}`)];
+    doc.font(FONTS.regular).fontSize(9).fillColor(COLORS.muted).text(byline.join('  ·  '), x, doc.y, { width });
+    doc.moveDown(0.8);
+    doc.moveTo(x, doc.y).lineTo(x + width, doc.y).stroke(COLORS.rule);
+    doc.moveDown(1);
+
+    try {
+      renderBlocks(doc, htmlToJSON(document.content).content, { x, width, images });
+      addPageNumbers(doc);
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
\ No newline at end of file
@@ -0,0 +1,185 @@
+import { supabaseAdmin } from '../config/database.js';
+
+// Guards the walk up the page tree against corrupted parent chains
+export const MAX_TREE_DEPTH = 50;
+
+const PERMISSION_RANK = { view: 1, comment: 2, edit: 3 };
+
+// What each space role may do with the documents in the space
+export const SPACE_ROLE_PERMISSIONS = {
+  admin: 'edit',
+  editor: 'edit',
+  viewer: 'view'
+};
+
+export const strongestPermission = (...permissions) =>
+  permissions
+    .filter(Boolean)
+    .sort((a, b) => PERMISSION_RANK[b] - PERMISSION_RANK[a])[0] || null;
+
+// Role of a user in a space, or null when they are not a member
+export const getSpaceRole = async (spaceId, userId) => {
+  const { data: membership } = await supabaseAdmin
+    .from('space_members')
+    .select('role')
+    .eq('space_id', spaceId)
+    .eq('user_id', userId)
+    .single();
+
+  return membership?.role || null;
+};
+
+// Spaces a user belongs to, as [{ space_id, role }]
+export const getUserSpaces = async (userId) => {
+  const { data: memberships, error } = await supabaseAdmin
+    .from('space_members')
+    .select('space_id, role')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return memberships;
+};
+
+// IDs of the groups a user belongs to
+export const getUserGroupIds = async (userId) => {
+  const { data: memberships, error } = await supabaseAdmin
+    .from('group_members')
+    .select('group_id')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return memberships.map(membership => membership.group_id);
+};
+
+// PostgREST `or` filter for shares that target the user or one of their groups
+const shareTargetFilter = (userId, groupIds) =>
+  groupIds.length > 0
+    ? `user_id.eq.${userId},group_id.in.(${groupIds.join(',')})`
+    : `user_id.eq.${userId}`;
+
+// Documents shared with a user, directly or through a group, mapped to the
+// strongest permission those shares grant
+export const getSharedPermissions = async (userId) => {
+  const groupIds = await getUserGroupIds(userId);
+
+  const { data: shares, error } = await supabaseAdmin
+    .from('document_shares')
+    .select('document_id, permission')
+    .or(shareTargetFilter(userId, groupIds));
+
+  if (error) throw error;
+
+  const permissions = new Map();
+  shares.forEach(share => {
+    permissions.set(
+      share.document_id,
+      strongestPermission(permissions.get(share.document_id), share.permission)
+    );
+  });
+  return permissions;
+};
+
+// Where a user's access to other people's documents comes from: shares (to
+// them or their groups) and space memberships
+export const getAccessGrants = async (userId) => {
+  const [sharedPermissions, memberships] = await Promise.all([
+    getSharedPermissions(userId),
+    getUserSpaces(userId)
+  ]);
+
+  return {
+    sharedIds: [...sharedPermissions.keys()],
+    spaceIds: memberships.map(membership => membership.space_id)
+  };
+};
+
+// PostgREST `or` filter for the documents reached through grants, or null
+// when there are none
+export const grantedDocumentsFilter = ({ sharedIds, spaceIds }) => {
+  const conditions = [];
+  if (sharedIds.length > 0) {
+    conditions.push(`id.in.(${sharedIds.join(',')})`);
+  }
+  if (spaceIds.length > 0) {
+    conditions.push(`space_id.in.(${spaceIds.join(',')})`);
+  }
+
+  return conditions.length > 0 ? conditions.join(',') : null;
+};
+
+// PostgREST `or` filter for the documents a user can reach directly: their
+// own, public ones, those shared with them or their groups and those in their
+// spaces. Pages only visible through an inheriting parent page are not included;
+// search reaches those through the search_documents function.
+export const accessibleDocumentsFilter = async (userId, grants) => {
+  const granted = grantedDocumentsFilter(grants || await getAccessGrants(userId));
+
+  return [`author_id.eq.${userId}`, 'is_public.eq.true', granted]
+    .filter(Boolean)
+    .join(',');
+};
+
+// Resolve what a user may do with a document. A share link (see
+// utils/shareLinks.js) grants its permission on the document it was made for,
+// with or without a user.
+// permission is 'owner', 'edit', 'comment', 'view' or null when the user has no access.
+export const getDocumentAccess = async (documentId, user, { shareLink = null, depth = 0 } = {}) => {
+  const { data: document, error } = await supabaseAdmin
+    .from('documents')
+    .select('id, title, author_id, is_public, parent_id, inherit_permissions, space_id')
+    .eq('id', documentId)
+    .single();
+
+  if (error || !document) {
+    return { document: null, permission: null };
+  }
+
+  if (user && document.author_id === user.id) {
+    return { document, permission: 'owner' };
+  }
+
+  let permission = shareLink?.document_id === document.id ? shareLink.permission : null;
+
+  if (user) {
+    const [groupIds, spaceRole] = await Promise.all([
+      getUserGroupIds(user.id),
+      document.space_id ? getSpaceRole(document.space_id, user.id) : null
+    ]);
+
+    const { data: shares } = await supabaseAdmin
+      .from('document_shares')
+      .select('permission')
+      .eq('document_id', documentId)
+      .or(shareTargetFilter(user.id, groupIds));
+
+    // Personal shares, group shares, the space role and the link can each grant the most
+    permission = strongestPermission(
+      ...(shares || []).map(share => share.permission),
+      SPACE_ROLE_PERMISSIONS[spaceRole],
+      permission
+    );
+  }
+
+  if (permission) {
+    return { document, permission };
+  }
+
+  if (document.is_public) {
+    return { document, permission: 'view' };
+  }
+
+  // Anyone who can see the parent page can view pages that inherit from it
+  if (document.parent_id && document.inherit_permissions && depth < MAX_TREE_DEPTH) {
+    const { permission } = await getDocumentAccess(document.parent_id, user, { depth: depth + 1 });
+    if (permission) {
+      return { document, permission: 'view' };
+    }
+  }
+
+  return { document, permission: null };
+};
+
+export const canEdit = (permission) => permission === 'owner' || permission === 'edit';
+
+// Commenting sits between viewing and editing
+export const canComment = (permission) => canEdit(permission) || permission === 'comment';
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { normalizeTagName } from './tags.js';
+
+// Turn what the user typed into a to_tsquery expression:
+//   word            documents must contain it
+//   "exact phrase"  words must appear next to each other
+//   -word, -"a b"   documents containing them are left out
+//   word*           prefix match; the last word (unless excluded) is also
+//                   prefix-matched so results appear while typing
+//   tag:name        documents must carry the tag (tag:"two words" works too)
+// Only letters and digits reach the query, so the result is always valid
+// tsquery syntax. Returns { tsquery, terms, tags } with the words to
+// highlight, or null when nothing would be searched for. tsquery is null when
+// the query only filters by tag.
+const TOKEN_PATTERN = /(-?)(?:"([^"]*)"?|(\S+))/g;
+const TAG_PATTERN = /(^|\s)tag:(?:"([^"]*)"?|(\S+))/gi;
+
+const toLexemes = (text) => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+export const parseSearchQuery = (input) => {
+  const clauses = [];
+  const terms = [];
+  const tags = [];
+  const text = input
+    .replace(TAG_PATTERN, (_match, space, quoted, word) => {
+      const tag = normalizeTagName(quoted ?? word);
+      if (tag && !tags.includes(tag)) tags.push(tag);
+      return space;
+    })
+    .trim();
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const [raw, negate, phrase, word] = match;
+    const lexemes = toLexemes(phrase ?? word);
+    if (lexemes.length === 0) continue;
+
+    const isPhrase = phrase !== undefined;
+    const isLast = match.index + raw.length === text.length;
+    const isPrefix = !isPhrase && (word.endsWith('*') || (isLast && !negate));
+    const operands = lexemes.map((lexeme, i) =>
+      isPrefix && i === lexemes.length - 1 ? `${lexeme}:*` : lexeme
+    );
+    // Words joined by punctuation (e-mail, v2.1) are matched as a phrase, as Postgres does
+    const clause = operands.length > 1 ? `(${operands.join(' <-> ')})` : operands[0];
+
+    if (negate) {
+      clauses.push(`!${clause}`);
+    } else {
+      clauses.push(clause);
+      terms.push(...(isPhrase ? [lexemes.join(' ')] : lexemes));
+    }
+  }
+
+  // Exclusions alone would match nearly everything
+  if (terms.length === 0) {
+    return tags.length > 0 ? { tsquery: null, terms: [], tags } : null;
+  }
+
+  return { tsquery: clauses.join(' & '), terms, tags };
+};
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { htmlToJSON } from './editorContent.js';
+
+// Characters of context kept on each side of the first match
+const SNIPPET_CONTEXT = 80;
+
+const INLINE_TYPES = new Set(['text', 'mention', 'hardBreak']);
+
+const inlineText = (node) => {
+  if (node.type === 'text') return node.text;
+  if (node.type === 'mention') return `@${node.attrs?.label ?? node.attrs?.id ?? ''}`;
+  if (node.type === 'hardBreak') return ' ';
+  return (node.content || []).map(inlineText).join('');
+};
+
+// Flatten a document into its text blocks, each tagged with the heading it
+// sits under (null before the first heading)
+const extractBlocks = (html) => {
+  const blocks = [];
+  let heading = null;
+
+  const visit = (node) => {
+    const children = node.content || [];
+    if (node.type !== 'doc' && children.every(child => INLINE_TYPES.has(child.type))) {
+      const text = children.map(inlineText).join('').trim();
+      if (node.type === 'heading') heading = text;
+      if (text) blocks.push({ heading, text });
+      return;
+    }
+    children.forEach(visit);
+  };
+
+  visit(htmlToJSON(html));
+  return blocks;
+};
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches words starting with any of the terms; the words of a phrase may be
+// separated by any punctuation or whitespace
+export const buildTermPattern = (terms) => {
+  const alternatives = [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map(term => term.split(' ').map(escapeRegExp).join('[^\\p{L}\\p{N}]+'));
+
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})`, 'giu');
+};
+
+// [start, end] offsets of every match in text
+export const findMatches = (text, pattern) =>
+  [...text.matchAll(pattern)].map(match => [match.index, match.index + match[0].length]);
+
+// Plain-text snippet around the first match in the body, with the offsets of
+// every match inside it and the heading of the section it was found in.
+// Documents that only match on their title get their opening text.
+export const buildSnippet = (html, pattern) => {
+  const blocks = extractBlocks(html);
+
+  for (const block of blocks) {
+    const matches = findMatches(block.text, pattern);
+    if (matches.length === 0) continue;
+
+    let start = Math.max(0, matches[0][0] - SNIPPET_CONTEXT);
+    let end = Math.min(block.text.length, matches[0][1] + SNIPPET_CONTEXT);
+
+    // Do not cut words in half
+    if (start > 0) {
+      const space = block.text.indexOf(' ', start);
+      if (space !== -1 && space < matches[0][0]) start = space + 1;
+    }
+    if (end < block.text.length) {
+      const space = block.text.lastIndexOf(' ', end);
+      if (space > matches[0][1]) end = space;
+    }
+
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < block.text.length ? '…' : '';
+
+    return {
+      snippet: prefix + block.text.slice(start, end) + suffix,
+      highlights: matches
+        .filter(([from, to]) => from >= start && to <= end)
+        .map(([from, to]) => [from - start + prefix.length, to - start + prefix.length]),
+      section: block.heading
+    };
+  }
+
+  const opening = blocks[0]?.text || '';
+  return {
+    snippet: opening.length > SNIPPET_CONTEXT * 2
+      ? opening.slice(0, opening.lastIndexOf(' ', SNIPPET_CONTEXT * 2)) + '…'
+      : opening,
+    highlights: [],
+    section: null
+  };
+};
\ No newline at end of file
@@ -0,0 +1,162 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { supabaseAdmin } from '../config/database.js';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your-jwt-secret';
+
+// Access tokens only live briefly; the client trades its refresh token for a
+// new one. A session ends once it has not been refreshed for SESSION_TTL.
+const ACCESS_TOKEN_TTL = '15m';
+const SESSION_TTL = 30 * 24 * 60 * 60 * 1000;
+
+export const SESSION_FIELDS = 'id, user_agent, ip_address, created_at, last_seen_at';
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+const signAccessToken = (userId, sessionId) =>
+  jwt.sign({ userId, sessionId }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
+
+// A fresh refresh token, what to store for it, and when the session expires
+const issueRefreshToken = (req) => {
+  const refreshToken = crypto.randomBytes(32).toString('base64url');
+  const now = Date.now();
+
+  return {
+    refreshToken,
+    fields: {
+      refresh_token_hash: hashToken(refreshToken),
+      user_agent: req.headers['user-agent']?.slice(0, 500) || null,
+      ip_address: req.ip || null,
+      last_seen_at: new Date(now).toISOString(),
+      expires_at: new Date(now + SESSION_TTL).toISOString()
+    }
+  };
+};
+
+// Start a session for a user who just signed in. Resolves with the access
+// and refresh token to hand to the client.
+export const createSession = async (userId, req) => {
+  // Ended sessions are only kept until the user signs in again
+  await supabaseAdmin
+    .from('sessions')
+    .delete()
+    .eq('user_id', userId)
+    .or(`revoked_at.not.is.null,expires_at.lt.${new Date().toISOString()}`);
+
+  const { refreshToken, fields } = issueRefreshToken(req);
+
+  const { data: session, error } = await supabaseAdmin
+    .from('sessions')
+    .insert({ user_id: userId, ...fields })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+
+  return { token: signAccessToken(userId, session.id), refreshToken };
+};
+
+// Trade a refresh token for a new pair. Every refresh token works once: one
+// presented again has leaked or been copied, so its session is ended. Resolves
+// with null when the token is not valid (any more).
+export const rotateSession = async (refreshToken, req) => {
+  const hash = hashToken(refreshToken);
+
+  const { data: session, error } = await supabaseAdmin
+    .from('sessions')
+    .select('id, user_id, revoked_at, expires_at')
+    .eq('refresh_token_hash', hash)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!session) {
+    const { data: reused } = await supabaseAdmin
+      .from('sessions')
+      .select('id, user_id')
+      .eq('previous_token_hash', hash)
+      .is('revoked_at', null)
+      .maybeSingle();
+
+    if (reused) {
+      await revokeSession(reused.user_id, reused.id);
+    }
+    return null;
+  }
+
+  if (session.revoked_at || new Date(session.expires_at) <= new Date()) {
+    return null;
+  }
+
+  const next = issueRefreshToken(req);
+
+  // Matching the old hash makes the second of two refreshes racing with the
+  // same token fail rather than fork the session
+  const { data: rotated, error: updateError } = await supabaseAdmin
+    .from('sessions')
+    .update({ ...next.fields, previous_token_hash: hash })
+    .eq('id', session.id)
+    .eq('refresh_token_hash', hash)
+    .select('id')
+    .maybeSingle();
+
+  if (updateError) throw updateError;
+  if (!rotated) return null;
+
+  return { token: signAccessToken(session.user_id, session.id), refreshToken: next.refreshToken };
+};
+
+// Resolve the user and session an access token was issued for. Tokens of
+// revoked or expired sessions resolve with null.
+export const getSessionUser = async (token) => {
+  const decoded = jwt.verify(token, JWT_SECRET);
+  if (!decoded.sessionId) return null;
+
+  const { data: session, error } = await supabaseAdmin
+    .from('sessions')
+    .select('id, user:users(*)')
+    .eq('id', decoded.sessionId)
+    .eq('user_id', decoded.userId)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  if (error || !session?.user) return null;
+  return { user: session.user, sessionId: session.id };
+};
+
+// Resolves with false when the user has no such active session
+export const revokeSession = async (userId, sessionId) => {
+  const { data, error } = await supabaseAdmin
+    .from('sessions')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) throw error;
+  return data.length > 0;
+};
+
+// Sign out the device holding this refresh token
+export const revokeSessionByToken = async (refreshToken) => {
+  const { error } = await supabaseAdmin
+    .from('sessions')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('refresh_token_hash', hashToken(refreshToken))
+    .is('revoked_at', null);
+
+  if (error) throw error;
+};
+
+// Sign the user out everywhere, e.g. after a password reset
+export const revokeAllSessions = async (userId) => {
+  const { error } = await supabaseAdmin
+    .from('sessions')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('revoked_at', null);
+
+  if (error) throw error;
+};
\ No newline at end of file
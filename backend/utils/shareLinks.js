@@ -0,0 +1,82 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { supabaseAdmin } from '../config/database.js';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your-jwt-secret';
+
+// Share links travel in headers so they never end up in server logs or the
+// Referer of outgoing requests
+export const SHARE_TOKEN_HEADER = 'x-share-token';
+export const SHARE_PASSWORD_HEADER = 'x-share-password';
+export const SHARE_ACCESS_HEADER = 'x-share-access';
+
+// Checking a link password is slow on purpose (bcrypt), too slow for every
+// request of a viewer who polls comments. Once the password was right, the
+// viewer gets a signed pass for the link to send instead.
+const SHARE_ACCESS_TTL = '12h';
+
+export const issueShareAccess = (link) =>
+  jwt.sign({ shareLinkId: link.id }, JWT_SECRET, { expiresIn: SHARE_ACCESS_TTL });
+
+const hasShareAccess = (link, access) => {
+  if (!access) return false;
+  try {
+    return jwt.verify(access, JWT_SECRET).shareLinkId === link.id;
+  } catch (error) {
+    return false;
+  }
+};
+
+export const generateShareToken = () => crypto.randomBytes(24).toString('base64url');
+
+// Only a hash of the token is stored, so the links cannot be read back from
+// the database; the token is shown once, when the link is created
+export const hashShareToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+export const hashSharePassword = (password) => bcrypt.hash(password, 12);
+
+// Public fields of a link; the token and password hashes never leave the server
+export const formatShareLink = ({ password_hash, token_hash, ...link }) => ({
+  ...link,
+  has_password: !!password_hash
+});
+
+const isExpired = (link) => !!link.expires_at && new Date(link.expires_at) <= new Date();
+
+// Find the active link for a token. Password-protected links need the password
+// or a pass from issueShareAccess. Returns { link } when the link may be used,
+// or { link: null, error } explaining why it may not.
+export const resolveShareLink = async (token, { password, access } = {}) => {
+  const { data: link } = await supabaseAdmin
+    .from('share_links')
+    .select('*')
+    .eq('token_hash', hashShareToken(token))
+    .is('revoked_at', null)
+    .single();
+
+  if (!link || isExpired(link)) {
+    return { link: null, error: 'This link is invalid or has expired' };
+  }
+
+  if (link.password_hash && !hasShareAccess(link, access)) {
+    if (!password) {
+      return { link: null, error: 'This link requires a password', passwordRequired: true };
+    }
+    if (!await bcrypt.compare(password, link.password_hash)) {
+      return { link: null, error: 'Incorrect link password', passwordRequired: true };
+    }
+  }
+
+  return { link, error: null };
+};
+
+// Usage counts are informational: failures are logged, never thrown. The
+// count is incremented in the database so concurrent opens are not lost.
+export const recordShareLinkUse = async (link) => {
+  const { error } = await supabaseAdmin.rpc('record_share_link_use', { link_id: link.id });
+
+  if (error) {
+    console.error('Error recording share link use:', error);
+  }
+};
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { supabaseAdmin } from '../config/database.js';
+
+export const MAX_TAGS_PER_DOCUMENT = 20;
+
+// "Design Docs" and "design-docs" are the same tag
+export const normalizeTagName = (name) => name.trim().toLowerCase().replace(/\s+/g, '-');
+
+export const tagNameSchema = z
+  .string()
+  .transform(normalizeTagName)
+  .pipe(
+    z.string()
+      .min(1)
+      .max(40)
+      .regex(/^[\p{L}\p{N}][\p{L}\p{N}_.-]*$/u, 'Tags may only contain letters, digits, hyphens, underscores and dots')
+  );
+
+// Embeds a document's tags in a documents select; see withTagNames
+export const TAGS_SELECT = 'tags:document_tags(name)';
+
+// Replace the embedded tag rows with the sorted tag names
+export const withTagNames = ({ tags = [], ...document }) => ({
+  ...document,
+  tags: tags.map(tag => tag.name).sort()
+});
+
+// Make the document's tags exactly `names`
+export const setDocumentTags = async (documentId, names, userId) => {
+  let removal = supabaseAdmin
+    .from('document_tags')
+    .delete()
+    .eq('document_id', documentId);
+
+  if (names.length > 0) {
+    removal = removal.not('name', 'in', `(${names.join(',')})`);
+  }
+
+  const { error: removeError } = await removal;
+  if (removeError) throw removeError;
+
+  if (names.length === 0) return;
+
+  const { error } = await supabaseAdmin
+    .from('document_tags')
+    .upsert(
+      names.map(name => ({ document_id: documentId, name, created_by: userId })),
+      { onConflict: 'document_id,name', ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+};
\ No newline at end of file
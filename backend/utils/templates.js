@@ -0,0 +1,140 @@
+import { supabaseAdmin } from '../config/database.js';
+import { getSpaceRole, getUserSpaces } from './permissions.js';
+
+// Templates shipped with the app. Their ids are fixed strings; templates
+// saved by users (document_templates) have UUIDs.
+export const BUILT_IN_TEMPLATES = [
+  {
+    id: 'meeting-notes',
+    name: 'Meeting notes',
+    description: 'Attendees, agenda, decisions and action items',
+    title: 'Meeting notes {{date}}',
+    content: [
+      '<p><strong>Date:</strong> {{date}}<br><strong>Note taker:</strong> {{author}}</p>',
+      '<h2>Attendees</h2><ul><li><p></p></li></ul>',
+      '<h2>Agenda</h2><ol><li><p></p></li></ol>',
+      '<h2>Discussion</h2><p></p>',
+      '<h2>Decisions</h2><ul><li><p></p></li></ul>',
+      '<h2>Action items</h2><ul><li><p><strong>Owner</strong> – task, due date</p></li></ul>'
+    ].join('')
+  },
+  {
+    id: 'rfc',
+    name: 'RFC',
+    description: 'Propose a change and collect feedback before building it',
+    title: 'RFC: ',
+    content: [
+      '<p><strong>Author:</strong> {{author}}<br><strong>Status:</strong> Draft<br><strong>Created:</strong> {{date}}</p>',
+      '<h2>Summary</h2><p>One paragraph explaining the proposal.</p>',
+      '<h2>Motivation</h2><p>What problem does this solve, and why now?</p>',
+      '<h2>Proposal</h2><p>How it works, in enough detail to review.</p>',
+      '<h2>Alternatives considered</h2><ul><li><p></p></li></ul>',
+      '<h2>Risks and open questions</h2><ul><li><p></p></li></ul>',
+      '<h2>Rollout</h2><p></p>'
+    ].join('')
+  },
+  {
+    id: 'runbook',
+    name: 'Runbook',
+    description: 'Step-by-step instructions for operating a service',
+    title: 'Runbook: ',
+    content: [
+      '<p><strong>Owner:</strong> {{author}}<br><strong>Last reviewed:</strong> {{date}}</p>',
+      '<h2>Overview</h2><p>What the service does and who depends on it.</p>',
+      '<h2>Dashboards and alerts</h2><ul><li><p></p></li></ul>',
+      '<h2>Common tasks</h2><h3>Task name</h3><ol><li><p></p></li></ol>',
+      '<h2>Troubleshooting</h2><h3>Symptom</h3><p><strong>Cause:</strong></p><p><strong>Fix:</strong></p>',
+      '<h2>Escalation</h2><p>Who to contact when the steps above do not help.</p>'
+    ].join('')
+  },
+  {
+    id: 'postmortem',
+    name: 'Postmortem',
+    description: 'Blameless review of an incident and what follows from it',
+    title: 'Postmortem: ',
+    content: [
+      '<p><strong>Incident date:</strong><br><strong>Author:</strong> {{author}}<br><strong>Written:</strong> {{date}}</p>',
+      '<h2>Summary</h2><p>What happened and what the impact was.</p>',
+      '<h2>Timeline</h2><ul><li><p><strong>HH:MM</strong> – event</p></li></ul>',
+      '<h2>Root cause</h2><p></p>',
+      '<h2>What went well</h2><ul><li><p></p></li></ul>',
+      '<h2>What went wrong</h2><ul><li><p></p></li></ul>',
+      '<h2>Action items</h2><ul><li><p><strong>Owner</strong> – follow-up, due date</p></li></ul>'
+    ].join('')
+  }
+].map(template => ({ ...template, builtIn: true, space_id: null, created_by: null }));
+
+export const TEMPLATE_FIELDS = 'id, name, description, title, content, space_id, created_by, created_at, updated_at';
+
+const escapeHtml = (text) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const replacePlaceholders = (text, values) =>
+  text.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name) =>
+    Object.hasOwn(values, name) ? values[name] : placeholder
+  );
+
+// Fill in {{date}}, {{time}}, {{author}} and {{title}}; unknown placeholders
+// are left as they are. {{title}} in the content is the filled-in title.
+export const applyTemplate = (template, { author, title }) => {
+  const now = new Date();
+  const values = {
+    date: now.toISOString().slice(0, 10),
+    time: now.toISOString().slice(11, 16),
+    author: `${author.first_name} ${author.last_name}`
+  };
+
+  const filledTitle = replacePlaceholders(title || template.title, values).trim();
+  const htmlValues = Object.fromEntries(
+    Object.entries({ ...values, title: filledTitle }).map(([name, value]) => [name, escapeHtml(value)])
+  );
+
+  return {
+    title: filledTitle,
+    content: replacePlaceholders(template.content, htmlValues)
+  };
+};
+
+// Templates the user may use: built-in ones, their own personal templates
+// and those saved in their spaces
+export const getUserTemplates = async (userId) => {
+  const spaceIds = (await getUserSpaces(userId)).map(membership => membership.space_id);
+  const conditions = [`and(created_by.eq.${userId},space_id.is.null)`];
+  if (spaceIds.length > 0) {
+    conditions.push(`space_id.in.(${spaceIds.join(',')})`);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('document_templates')
+    .select(TEMPLATE_FIELDS)
+    .or(conditions.join(','))
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+
+  return [...BUILT_IN_TEMPLATES, ...data.map(template => ({ ...template, builtIn: false }))];
+};
+
+// Find a template the user may use by id, or null
+export const findTemplate = async (templateId, userId) => {
+  const builtIn = BUILT_IN_TEMPLATES.find(template => template.id === templateId);
+  if (builtIn) return builtIn;
+
+  const { data: template } = await supabaseAdmin
+    .from('document_templates')
+    .select(TEMPLATE_FIELDS)
+    .eq('id', templateId)
+    .single();
+
+  if (!template) return null;
+
+  const allowed = template.space_id
+    ? !!(await getSpaceRole(template.space_id, userId))
+    : template.created_by === userId;
+
+  return allowed ? { ...template, builtIn: false } : null;
+};
\ No newline at end of file
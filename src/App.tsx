@@ -2,14 +2,26 @@ import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { Toaster } from 'react-hot-toast';
 import { useAuthStore } from './store/authStore';
+import { useOfflineSync } from './hooks/useOfflineSync';
 import AppLayout from './components/Layout/AppLayout';
 import LoginForm from './components/Auth/LoginForm';
 import RegisterForm from './components/Auth/RegisterForm';
 import Dashboard from './pages/Dashboard';
 import DocumentView from './pages/DocumentView';
+import DocumentHistory from './pages/DocumentHistory';
+import ShareDocument from './pages/ShareDocument';
 import NewDocument from './pages/NewDocument';
 import SearchPage from './pages/SearchPage';
+import Spaces from './pages/Spaces';
+import SpaceSettings from './pages/SpaceSettings';
+import Groups from './pages/Groups';
+import GroupSettings from './pages/GroupSettings';
+import Imports from './pages/Imports';
+import Exports from './pages/Exports';
+import Settings from './pages/Settings';
 import DocumentList from './components/Documents/DocumentList';
+import SharedLinkView from './pages/SharedLinkView';
+import VerifyEmail from './pages/VerifyEmail';
 
 const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { isAuthenticated } = useAuthStore();
@@ -22,6 +34,8 @@ const PublicRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
 };
 
 function App() {
+  useOfflineSync();
+
   return (
     <Router>
       <div className="App">
@@ -49,6 +63,12 @@ function App() {
             </PublicRoute>
           } />
 
+          {/* Share links work with or without an account */}
+          <Route path="/s/:token" element={<SharedLinkView />} />
+
+          {/* Verification links work signed in or out */}
+          <Route path="/verify-email" element={<VerifyEmail />} />
+
           {/* Protected Routes */}
           <Route path="/" element={
             <ProtectedRoute>
@@ -77,8 +97,17 @@ function App() {
                 </div>
               </div>
             } />
+            <Route path="spaces" element={<Spaces />} />
+            <Route path="spaces/:id" element={<SpaceSettings />} />
+            <Route path="groups" element={<Groups />} />
+            <Route path="groups/:id" element={<GroupSettings />} />
+            <Route path="imports" element={<Imports />} />
+            <Route path="exports" element={<Exports />} />
+            <Route path="settings" element={<Settings />} />
             <Route path="documents/new" element={<NewDocument />} />
             <Route path="documents/:id" element={<DocumentView />} />
+            <Route path="documents/:id/versions" element={<DocumentHistory />} />
+            <Route path="documents/:id/share" element={<ShareDocument />} />
           </Route>
 
           {/* Catch all */}
@@ -53,7 +53,7 @@ const LoginForm: React.FC = () => {
         requireAuth: false
       });
 
-      setAuth(response.user, response.token);
+      setAuth(response.user, response.token, response.refreshToken);
       toast.success('Welcome back!');
       navigate('/dashboard');
     } catch (error: any) {
@@ -78,8 +78,8 @@ const RegisterForm: React.FC = () => {
         requireAuth: false
       });
 
-      setAuth(response.user, response.token);
-      toast.success('Account created successfully!');
+      setAuth(response.user, response.token, response.refreshToken);
+      toast.success('Account created! Check your email to verify your address.');
       navigate('/dashboard');
     } catch (error: any) {
       toast.error(error.message || 'Registration failed');
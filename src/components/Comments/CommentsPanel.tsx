@@ -0,0 +1,267 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquare, Check, RotateCcw, X } from 'lucide-react';
+import { CommentThread } from '../../hooks/useComments';
+import { CommentAnchor } from '../Editor/commentAnchors';
+import { formatDistanceToNow } from 'date-fns';
+import toast from 'react-hot-toast';
+
+interface CommentsPanelProps {
+  threads: CommentThread[];
+  activeThreadId: string | null;
+  draft: CommentAnchor | null;
+  canComment: boolean;
+  onSelect: (threadId: string | null) => void;
+  onCreate: (body: string) => Promise<unknown>;
+  onCancelDraft: () => void;
+  onReply: (threadId: string, body: string) => Promise<unknown>;
+  onResolve: (threadId: string, resolved: boolean) => Promise<unknown>;
+  onClose: () => void;
+}
+
+interface CommentFormProps {
+  placeholder: string;
+  submitLabel: string;
+  autoFocus?: boolean;
+  onSubmit: (body: string) => Promise<unknown>;
+  onCancel?: () => void;
+}
+
+const CommentForm: React.FC<CommentFormProps> = ({
+  placeholder,
+  submitLabel,
+  autoFocus = false,
+  onSubmit,
+  onCancel
+}) => {
+  const [body, setBody] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    setSubmitting(true);
+    try {
+      await onSubmit(body.trim());
+      setBody('');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to post comment');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            handleSubmit(e);
+          }
+        }}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        rows={2}
+        className="block w-full px-3 py-2 text-sm border border-gray-300 rounded-lg placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
+      />
+      <div className="flex justify-end space-x-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={!body.trim() || submitting}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {submitting ? 'Posting...' : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const CommentsPanel: React.FC<CommentsPanelProps> = ({
+  threads,
+  activeThreadId,
+  draft,
+  canComment,
+  onSelect,
+  onCreate,
+  onCancelDraft,
+  onReply,
+  onResolve,
+  onClose
+}) => {
+  const [showResolved, setShowResolved] = useState(false);
+  const threadRefs = useRef(new Map<string, HTMLDivElement>());
+
+  const openThreads = threads.filter(thread => !thread.resolved_at);
+  const resolvedThreads = threads.filter(thread => thread.resolved_at);
+  const visible = showResolved ? resolvedThreads : openThreads;
+
+  // Switch to the tab holding a thread when its highlight is clicked in the editor
+  const activeResolved = threads.find(t => t.id === activeThreadId)?.resolved_at;
+  useEffect(() => {
+    if (activeThreadId) {
+      setShowResolved(!!activeResolved);
+    }
+    // Only when the selection changes, so the tabs stay usable afterwards
+  }, [activeThreadId]);
+
+  useEffect(() => {
+    if (activeThreadId) {
+      threadRefs.current.get(activeThreadId)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [activeThreadId, showResolved]);
+
+  const handleResolve = async (thread: CommentThread) => {
+    try {
+      await onResolve(thread.id, !thread.resolved_at);
+      toast.success(thread.resolved_at ? 'Thread reopened' : 'Thread resolved');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to update thread');
+    }
+  };
+
+  return (
+    <div className="w-80 border-l border-gray-200 bg-gray-50 flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 bg-white">
+        <div className="flex items-center space-x-2">
+          <MessageSquare className="h-4 w-4 text-gray-400" />
+          <h2 className="text-sm font-semibold text-gray-900">Comments</h2>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 text-gray-400 hover:text-gray-600 rounded transition-colors"
+          aria-label="Close comments"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="flex px-4 pt-3 space-x-4 text-sm border-b border-gray-200 bg-white">
+        <button
+          onClick={() => setShowResolved(false)}
+          className={`pb-2 border-b-2 transition-colors ${
+            !showResolved ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'
+          }`}
+        >
+          Open ({openThreads.length})
+        </button>
+        <button
+          onClick={() => setShowResolved(true)}
+          className={`pb-2 border-b-2 transition-colors ${
+            showResolved ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'
+          }`}
+        >
+          Resolved ({resolvedThreads.length})
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4 space-y-3">
+        {draft && (
+          <div className="bg-white rounded-lg border border-blue-300 p-3 space-y-2">
+            <p className="text-xs text-gray-500 border-l-2 border-yellow-400 pl-2 line-clamp-2">
+              {draft.quotedText}
+            </p>
+            <CommentForm
+              placeholder="Add a comment..."
+              submitLabel="Comment"
+              autoFocus
+              onSubmit={onCreate}
+              onCancel={onCancelDraft}
+            />
+          </div>
+        )}
+
+        {visible.length === 0 && !draft && (
+          <p className="text-center text-sm text-gray-500 py-8">
+            {showResolved
+              ? 'No resolved comments.'
+              : canComment
+                ? 'No comments yet. Select some text to start a thread.'
+                : 'No comments yet.'}
+          </p>
+        )}
+
+        {visible.map((thread) => (
+          <div
+            key={thread.id}
+            ref={(element) => {
+              if (element) threadRefs.current.set(thread.id, element);
+              else threadRefs.current.delete(thread.id);
+            }}
+            onClick={() => onSelect(thread.id)}
+            className={`bg-white rounded-lg border p-3 space-y-3 cursor-pointer transition-colors ${
+              thread.id === activeThreadId ? 'border-blue-400 shadow-sm' : 'border-gray-200 hover:border-gray-300'
+            }`}
+          >
+            <div className="flex items-start justify-between space-x-2">
+              <p className="text-xs text-gray-500 border-l-2 border-yellow-400 pl-2 line-clamp-2">
+                {thread.quoted_text}
+              </p>
+              {canComment && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleResolve(thread);
+                  }}
+                  className="flex-shrink-0 p-1 text-gray-400 hover:text-green-600 hover:bg-gray-100 rounded transition-colors"
+                  title={thread.resolved_at ? 'Reopen' : 'Resolve'}
+                >
+                  {thread.resolved_at ? <RotateCcw className="h-4 w-4" /> : <Check className="h-4 w-4" />}
+                </button>
+              )}
+            </div>
+
+            {thread.comments.map((comment) => (
+              <div key={comment.id} className="flex items-start space-x-2">
+                <div className="w-6 h-6 bg-blue-100 rounded-full flex items-center justify-center flex-shrink-0">
+                  <span className="text-blue-600 font-medium text-xs">
+                    {comment.author?.first_name?.[0]}{comment.author?.last_name?.[0]}
+                  </span>
+                </div>
+                <div className="min-w-0">
+                  <p className="text-xs">
+                    <span className="font-medium text-gray-900">
+                      {comment.author ? `${comment.author.first_name} ${comment.author.last_name}` : 'Deleted user'}
+                    </span>
+                    <span className="text-gray-500"> · {formatDistanceToNow(new Date(comment.created_at))} ago</span>
+                  </p>
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap break-words">{comment.body}</p>
+                </div>
+              </div>
+            ))}
+
+            {thread.resolved_at && (
+              <p className="text-xs text-gray-500">
+                Resolved{thread.resolved_by_user && ` by ${thread.resolved_by_user.first_name} ${thread.resolved_by_user.last_name}`}
+                {' '}{formatDistanceToNow(new Date(thread.resolved_at))} ago
+              </p>
+            )}
+
+            {canComment && !thread.resolved_at && thread.id === activeThreadId && (
+              <div onClick={(e) => e.stopPropagation()}>
+                <CommentForm
+                  placeholder="Reply..."
+                  submitLabel="Reply"
+                  onSubmit={(body) => onReply(thread.id, body)}
+                />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CommentsPanel;
@@ -13,6 +13,8 @@ import {
 } from 'lucide-react';
 import { useApi } from '../../hooks/useApi';
 import { useAuthStore } from '../../store/authStore';
+import { useSpaceStore } from '../../store/spaceStore';
+import TagChip from '../Tags/TagChip';
 import { formatDistanceToNow } from 'date-fns';
 import toast from 'react-hot-toast';
 
@@ -30,26 +32,37 @@ interface Document {
     email: string;
   };
   userPermission?: 'view' | 'edit';
+  tags: string[];
 }
 
 interface DocumentListProps {
   showSharedOnly?: boolean;
+  // Only list documents carrying this tag
+  tag?: string | null;
 }
 
-const DocumentList: React.FC<DocumentListProps> = ({ showSharedOnly = false }) => {
+const DocumentList: React.FC<DocumentListProps> = ({ showSharedOnly = false, tag = null }) => {
   const [documents, setDocuments] = useState<Document[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedDoc, setSelectedDoc] = useState<string | null>(null);
   const { request } = useApi();
   const { user } = useAuthStore();
+  const { currentSpaceId } = useSpaceStore();
+  // "Shared with me" always lists everything shared, whatever the current space
+  const spaceId = showSharedOnly ? null : currentSpaceId;
 
   useEffect(() => {
     fetchDocuments();
-  }, [showSharedOnly]);
+  }, [showSharedOnly, spaceId, tag]);
 
   const fetchDocuments = async () => {
+    const params = new URLSearchParams();
+    if (spaceId) params.set('spaceId', spaceId);
+    if (tag) params.set('tag', tag);
+    const query = params.toString();
+
     try {
-      const data = await request('/documents');
+      const data = await request(query ? `/documents?${query}` : '/documents');
       
       let filteredDocs = data;
       if (showSharedOnly) {
@@ -91,6 +104,16 @@ const DocumentList: React.FC<DocumentListProps> = ({ showSharedOnly = false }) =
     );
   }
 
+  if (documents.length === 0 && tag) {
+    return (
+      <div className="text-center py-12">
+        <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">No documents tagged #{tag}</h3>
+        <p className="text-gray-500">Tags are added from the document header.</p>
+      </div>
+    );
+  }
+
   if (documents.length === 0) {
     return (
       <div className="text-center py-12">
@@ -151,6 +174,14 @@ const DocumentList: React.FC<DocumentListProps> = ({ showSharedOnly = false }) =
                   {getContentPreview(document.content)}
                 </p>
 
+                {document.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mb-3">
+                    {document.tags.map((name) => (
+                      <TagChip key={name} name={name} />
+                    ))}
+                  </div>
+                )}
+
                 <div className="flex items-center space-x-4 text-xs text-gray-500">
                   <div className="flex items-center space-x-1">
                     <User className="h-3 w-3" />
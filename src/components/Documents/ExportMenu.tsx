@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, FileCode, FileText, FileType } from 'lucide-react';
+import { useApi } from '../../hooks/useApi';
+import { ExportFormat, useExports } from '../../hooks/useExports';
+import { downloadText } from '../../utils/download';
+import toast from 'react-hot-toast';
+
+interface ExportMenuProps {
+  documentId: string;
+  // PDF and HTML exports run as background jobs, which need an account
+  allowJobs: boolean;
+}
+
+const FORMAT_LABELS: Record<Exclude<ExportFormat, 'zip'>, string> = {
+  pdf: 'PDF',
+  html: 'HTML'
+};
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ documentId, allowJobs }) => {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { request } = useApi();
+  const { startExport, waitForExport, downloadExport } = useExports();
+
+  // Close the dropdown when clicking outside of it
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleMarkdown = async () => {
+    setOpen(false);
+
+    try {
+      const { filename, markdown } = await request(`/documents/${documentId}/markdown`);
+      downloadText(filename, markdown, 'text/markdown');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to export Markdown');
+    }
+  };
+
+  // The export keeps running if the user navigates away; the toast follows it
+  const handleExport = async (format: 'pdf' | 'html') => {
+    setOpen(false);
+    const label = FORMAT_LABELS[format];
+    const toastId = toast.loading(`Preparing ${label}…`);
+
+    try {
+      const job = await startExport({ format, documentId });
+      const finished = await waitForExport(job.id, {
+        onUpdate: (update) => toast.loading(`Preparing ${label}… ${update.progress}%`, { id: toastId })
+      });
+
+      if (!finished || finished.status === 'failed') {
+        throw new Error(finished?.error || `Failed to export ${label}`);
+      }
+
+      await downloadExport(finished);
+      toast.success(`${label} ready`, { id: toastId });
+    } catch (error) {
+      toast.error((error as Error).message || `Failed to export ${label}`, { id: toastId });
+    }
+  };
+
+  const itemClassName =
+    'w-full flex items-center space-x-2 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 transition-colors';
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className={`flex items-center space-x-1 px-3 py-2 rounded-lg transition-colors ${
+          open ? 'bg-gray-100 text-gray-900' : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+        }`}
+      >
+        <Download className="h-4 w-4" />
+        <span>Export</span>
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-11 w-48 py-1 bg-white rounded-lg shadow-lg border border-gray-200 z-20">
+          {allowJobs && (
+            <button onClick={() => handleExport('pdf')} className={itemClassName}>
+              <FileType className="h-4 w-4 text-gray-400" />
+              <span>PDF</span>
+            </button>
+          )}
+          {allowJobs && (
+            <button onClick={() => handleExport('html')} className={itemClassName}>
+              <FileCode className="h-4 w-4 text-gray-400" />
+              <span>Standalone HTML</span>
+            </button>
+          )}
+          <button onClick={handleMarkdown} className={itemClassName}>
+            <FileText className="h-4 w-4 text-gray-400" />
+            <span>Markdown</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,169 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, GitMerge } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import DiffViewer from '../History/DiffViewer';
+import { diffHtml } from '../../utils/htmlDiff';
+import { SectionChoice, applyMerge, mergeHtml, mergeTitle } from '../../utils/threeWayMerge';
+
+export interface DocumentCopy {
+  title: string;
+  content: string;
+}
+
+interface ConflictMergeProps {
+  // The copy the edits started from, the edits, and what is saved now
+  base: DocumentCopy;
+  mine: DocumentCopy;
+  theirs: DocumentCopy & { updated_at?: string };
+  saving: boolean;
+  onKeepMine: () => void;
+  onTakeTheirs: () => void;
+  onMerge: (merged: DocumentCopy) => void;
+}
+
+const CHOICE_LABELS: Record<SectionChoice, string> = {
+  mine: 'Mine',
+  theirs: 'Theirs',
+  both: 'Both'
+};
+
+const ChoiceButtons: React.FC<{ value: SectionChoice; onChange: (choice: SectionChoice) => void; allowBoth?: boolean }> = ({
+  value,
+  onChange,
+  allowBoth = true
+}) => (
+  <div className="inline-flex rounded-lg border border-gray-200 overflow-hidden text-xs">
+    {(allowBoth ? ['mine', 'theirs', 'both'] as const : ['mine', 'theirs'] as const).map((choice) => (
+      <button
+        key={choice}
+        onClick={() => onChange(choice)}
+        className={`px-3 py-1 transition-colors ${
+          value === choice ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'
+        }`}
+      >
+        {CHOICE_LABELS[choice]}
+      </button>
+    ))}
+  </div>
+);
+
+// Shown when a save was refused because someone else saved first. Changes on
+// one side only are combined automatically; sections both sides changed are
+// shown next to each other, each against the common base, to pick from.
+const ConflictMerge: React.FC<ConflictMergeProps> = ({
+  base,
+  mine,
+  theirs,
+  saving,
+  onKeepMine,
+  onTakeTheirs,
+  onMerge
+}) => {
+  const sections = useMemo(() => mergeHtml(base.content, mine.content, theirs.content), [base, mine, theirs]);
+  const title = useMemo(() => mergeTitle(base.title, mine.title, theirs.title), [base, mine, theirs]);
+  const [choices, setChoices] = useState<Record<number, SectionChoice>>({});
+  const [titleChoice, setTitleChoice] = useState<SectionChoice>('mine');
+
+  const conflicts = sections.filter(section => section.conflict).length + (title.conflict ? 1 : 0);
+
+  const handleMerge = () => {
+    onMerge({
+      title: title.conflict ? (titleChoice === 'theirs' ? theirs.title : mine.title) : title.title,
+      content: applyMerge(sections, choices)
+    });
+  };
+
+  return (
+    <div className="flex-1 overflow-auto bg-white">
+      <div className="p-6 space-y-6">
+        <div className="flex items-start justify-between space-x-4 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className="h-5 w-5 text-amber-600 flex-shrink-0 mt-0.5" />
+            <div>
+              <p className="text-sm font-medium text-gray-900">
+                Someone else saved this document while you were editing
+                {theirs.updated_at && ` (${formatDistanceToNow(new Date(theirs.updated_at))} ago)`}
+              </p>
+              <p className="text-sm text-gray-600 mt-1">
+                {conflicts === 0
+                  ? 'Your changes and theirs touch different sections and can be combined.'
+                  : `Sections changed on one side only are combined; choose a version for the ${conflicts} changed on both sides.`}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2 flex-shrink-0">
+            <button
+              onClick={onTakeTheirs}
+              disabled={saving}
+              className="px-3 py-2 text-sm text-gray-700 hover:bg-amber-100 rounded-lg disabled:opacity-50 transition-colors"
+              title="Discard your changes"
+            >
+              Take theirs
+            </button>
+            <button
+              onClick={onKeepMine}
+              disabled={saving}
+              className="px-3 py-2 text-sm text-gray-700 hover:bg-amber-100 rounded-lg disabled:opacity-50 transition-colors"
+              title="Save your version over theirs"
+            >
+              Keep mine
+            </button>
+            <button
+              onClick={handleMerge}
+              disabled={saving}
+              className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <GitMerge className="h-4 w-4" />
+              <span>{saving ? 'Saving...' : 'Save merge'}</span>
+            </button>
+          </div>
+        </div>
+
+        {title.conflict && (
+          <div className="border border-gray-200 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-3">
+              <span className="text-xs font-medium text-gray-500 uppercase tracking-wide">Title</span>
+              <ChoiceButtons value={titleChoice} onChange={setTitleChoice} allowBoth={false} />
+            </div>
+            <div className="grid grid-cols-2 divide-x divide-gray-200 text-sm">
+              <p className={`pr-4 ${titleChoice === 'mine' ? 'text-gray-900' : 'text-gray-400'}`}>{mine.title}</p>
+              <p className={`pl-4 ${titleChoice === 'theirs' ? 'text-gray-900' : 'text-gray-400'}`}>{theirs.title}</p>
+            </div>
+          </div>
+        )}
+
+        {sections.map((section, index) => {
+          if (!section.conflict) return null;
+          const choice = choices[index] || 'mine';
+          const baseHtml = section.base.join('');
+
+          return (
+            <div key={index} className="border border-gray-200 rounded-lg">
+              <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 bg-gray-50 rounded-t-lg">
+                <span className="text-xs font-medium text-gray-500 uppercase tracking-wide">
+                  Changed on both sides
+                </span>
+                <ChoiceButtons
+                  value={choice}
+                  onChange={(next) => setChoices(prev => ({ ...prev, [index]: next }))}
+                />
+              </div>
+              <div className="grid grid-cols-2 divide-x divide-gray-200">
+                <div className={`p-4 ${choice === 'theirs' ? 'opacity-50' : ''}`}>
+                  <p className="mb-2 text-xs font-medium text-gray-500 uppercase tracking-wide">Your changes</p>
+                  <DiffViewer parts={diffHtml(baseHtml, section.mine.join(''))} mode="inline" />
+                </div>
+                <div className={`p-4 ${choice === 'mine' ? 'opacity-50' : ''}`}>
+                  <p className="mb-2 text-xs font-medium text-gray-500 uppercase tracking-wide">Their changes</p>
+                  <DiffViewer parts={diffHtml(baseHtml, section.theirs.join(''))} mode="inline" />
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ConflictMerge;
@@ -1,6 +1,18 @@
-import React, { useEffect, useState } from 'react';
-import { useEditor, EditorContent } from '@tiptap/react';
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useEditor, EditorContent, BubbleMenu } from '@tiptap/react';
+import { Editor, createDocument, getHTMLFromFragment } from '@tiptap/core';
 import StarterKit from '@tiptap/starter-kit';
+import Collaboration from '@tiptap/extension-collaboration';
+import CollaborationCursor from '@tiptap/extension-collaboration-cursor';
+import Mention from '@tiptap/extension-mention';
+import Link from '@tiptap/extension-link';
+import Table from '@tiptap/extension-table';
+import TableRow from '@tiptap/extension-table-row';
+import TableHeader from '@tiptap/extension-table-header';
+import TableCell from '@tiptap/extension-table-cell';
+import { HocuspocusProvider, WebSocketStatus } from '@hocuspocus/provider';
+import * as Y from 'yjs';
 import { 
   Bold, 
   Italic, 
@@ -9,49 +21,396 @@ import {
   Quote,
   Undo,
   Redo,
-  Save
+  Save,
+  MessageSquarePlus,
+  Paperclip
 } from 'lucide-react';
-import { useApi } from '../../hooks/useApi';
+import { ApiError, useApi } from '../../hooks/useApi';
+import { useAttachments } from '../../hooks/useAttachments';
+import { useOnlineStatus } from '../../hooks/useOfflineSync';
+import { useAuthStore } from '../../store/authStore';
+import { getFreshAccessToken } from '../../utils/authSession';
+import { COLLAB_URL } from '../../config/supabase';
+import { colorForUser } from '../../utils/presence';
+import { downloadBlob } from '../../utils/download';
+import {
+  getQueuedSave,
+  persistCollabState,
+  queueSave,
+  registerOpenEditor,
+  removeQueuedSave
+} from '../../utils/offlineCache';
+import { createMentionSuggestion } from './mentionSuggestion';
+import { CommentAnchor, createCommentAnchor, resolveCommentAnchor } from './commentAnchors';
+import { CommentHighlights, HighlightedThread, commentHighlightsKey } from './commentHighlights';
+import { SearchHighlights, searchHighlightsKey } from './searchHighlights';
+import { LinkClicks } from './linkClicks';
+import { AttachmentImage } from './attachmentImage';
+import { FileUploads } from './fileUploads';
+import ConflictMerge, { DocumentCopy } from './ConflictMerge';
 import toast from 'react-hot-toast';
 
 interface DocumentEditorProps {
   documentId?: string;
   initialTitle?: string;
   initialContent?: string;
-  onSave?: (title: string, content: string) => void;
+  // Server version of the initial title and content, sent back as the base of
+  // saves so that saving over someone else's changes is refused
+  initialVersion?: number;
+  // content is omitted for collaborative documents: the collaboration server
+  // persists it. Resolves with the saved document.
+  onSave?: (title: string, content?: string, baseVersion?: number) => Promise<SavedDocument | void>;
   readOnly?: boolean;
+  collaborative?: boolean;
+  // Comment threads are only available in collaborative mode
+  commentThreads?: HighlightedThread[];
+  activeCommentId?: string | null;
+  onCommentSelect?: (threadId: string) => void;
+  onStartComment?: (anchor: CommentAnchor) => void;
+  // Search terms to highlight; the first match is scrolled into view
+  highlightTerms?: string[];
+  // Sent along with attachment requests, e.g. share link credentials
+  requestHeaders?: Record<string, string>;
 }
 
+interface SavedDocument extends DocumentCopy {
+  version: number;
+  updated_at?: string;
+}
+
+// Content nodes beyond the StarterKit. The server converts content with the
+// same schema (backend/utils/editorContent.js), so keep both lists in sync.
+// Images are configured in the editor as they load through its credentials.
+const contentExtensions = [
+  Link.configure({ openOnClick: false }),
+  Table,
+  TableRow,
+  TableHeader,
+  TableCell,
+];
+
+// Server HTML as the editor would write it, so it compares block by block
+const editorHtml = (editor: Editor, html: string) =>
+  getHTMLFromFragment(createDocument(html, editor.schema).content, editor.schema);
+
+const NO_THREADS: HighlightedThread[] = [];
+const NO_TERMS: string[] = [];
+
 const DocumentEditor: React.FC<DocumentEditorProps> = ({
   documentId,
   initialTitle = '',
   initialContent = '',
+  initialVersion,
   onSave,
-  readOnly = false
+  readOnly = false,
+  collaborative = false,
+  commentThreads = NO_THREADS,
+  activeCommentId = null,
+  onCommentSelect,
+  onStartComment,
+  highlightTerms = NO_TERMS,
+  requestHeaders
 }) => {
   const [title, setTitle] = useState(initialTitle);
   const [isSaving, setIsSaving] = useState(false);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
+  const [provider, setProvider] = useState<HocuspocusProvider | null>(null);
+  const [connectionStatus, setConnectionStatus] = useState<WebSocketStatus>(WebSocketStatus.Connecting);
+  // A save refused because the server copy moved on: the edits being saved
+  // and the server copy to merge them with
+  const [conflict, setConflict] = useState<{ mine: DocumentCopy; theirs: SavedDocument } | null>(null);
+  // Edits are queued on this device (see offlineCache.ts) until they are saved
+  const [pendingOffline, setPendingOffline] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const { request } = useApi();
+  const { uploadAttachment, fetchAttachment } = useAttachments(requestHeaders);
+  const { token, user } = useAuthStore();
+  const online = useOnlineStatus();
+  const navigate = useNavigate();
+  const userId = user?.id ?? null;
+  const signedIn = !!token;
+
+  // The editor is only recreated when the provider changes, so the mention
+  // search reads the latest request function through a ref
+  const requestRef = useRef(request);
+  requestRef.current = request;
+  const onCommentSelectRef = useRef(onCommentSelect);
+  onCommentSelectRef.current = onCommentSelect;
+  // Auto-saves wait while a conflict is being resolved
+  const conflictRef = useRef(conflict);
+  conflictRef.current = conflict;
+  // The server copy the current edits started from
+  const baseRef = useRef<SavedDocument | null>(null);
+  const pendingRef = useRef(pendingOffline);
+  pendingRef.current = pendingOffline;
+
+  // Attachments need the same credentials as the document, so they are
+  // fetched here rather than opened as plain links
+  const downloadAttachment = async (href: string) => {
+    try {
+      const { filename, blob } = await fetchAttachment(href);
+      downloadBlob(filename, blob);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to download attachment');
+    }
+  };
+
+  // Object URLs of attachment images shown in this editor, by their src
+  const imageUrls = useRef(new Map<string, Promise<string>>());
+  const loadImage = (src: string) => {
+    if (!src.startsWith('/api/attachments/')) return Promise.resolve(src);
+
+    if (!imageUrls.current.has(src)) {
+      const loading = fetchAttachment(src).then(({ blob }) => URL.createObjectURL(blob));
+      // A failed image is tried again the next time it is rendered
+      loading.catch(() => imageUrls.current.delete(src));
+      imageUrls.current.set(src, loading);
+    }
+    return imageUrls.current.get(src)!;
+  };
+  const loadImageRef = useRef(loadImage);
+  loadImageRef.current = loadImage;
+
+  useEffect(() => {
+    const urls = imageUrls.current;
+    return () => {
+      urls.forEach(loading => loading.then(url => URL.revokeObjectURL(url)).catch(() => undefined));
+      urls.clear();
+    };
+  }, []);
+
+  // Upload files dropped, pasted or picked, and insert them where they were
+  // dropped or at the cursor: images inline, other files as links
+  const addFiles = async (files: File[], position: number | null) => {
+    if (!editor || readOnly) return;
+    if (!documentId) {
+      toast.error('Save the document before adding files');
+      return;
+    }
+
+    let at = position;
+    for (const file of files) {
+      const toastId = toast.loading(`Uploading ${file.name}...`);
+      try {
+        const attachment = await uploadAttachment(documentId, file);
+        const content = attachment.content_type.startsWith('image/')
+          ? { type: 'image', attrs: { src: attachment.url, alt: attachment.filename } }
+          : { type: 'text', text: attachment.filename, marks: [{ type: 'link', attrs: { href: attachment.url } }] };
+
+        if (editor.isDestroyed) return;
+        // Later files follow the first one, which leaves the cursor after it
+        const chain = editor.chain().focus();
+        (at === null ? chain.insertContent(content) : chain.insertContentAt(at, content)).run();
+        at = null;
+
+        toast.success(`${file.name} added`, { id: toastId });
+      } catch (error) {
+        toast.error((error as Error).message || `Failed to upload ${file.name}`, { id: toastId });
+      }
+    }
+  };
+  const addFilesRef = useRef(addFiles);
+  addFilesRef.current = addFiles;
+
+  // Links to documents stay in the app; anything else opens in a new tab
+  const openLink = (href: string) => {
+    if (href.startsWith('/documents/')) {
+      navigate(href);
+    } else if (href.startsWith('/api/attachments/')) {
+      downloadAttachment(href);
+    } else {
+      window.open(href, '_blank', 'noopener,noreferrer');
+    }
+  };
+  const openLinkRef = useRef(openLink);
+  openLinkRef.current = openLink;
+
+  const mention = Mention.configure({
+    HTMLAttributes: { class: 'mention' },
+    suggestion: createMentionSuggestion(
+      (query) => requestRef.current(`/users/search?q=${encodeURIComponent(query)}`)
+    ),
+  });
+
+  const linkClicks = LinkClicks.configure({
+    onOpen: (href) => openLinkRef.current(href),
+  });
+
+  const image = AttachmentImage.configure({
+    loadImage: (src) => loadImageRef.current(src),
+  });
+
+  const fileUploads = FileUploads.configure({
+    onFiles: (files, position) => addFilesRef.current(files, position),
+  });
+
+  // Join the document's collaboration room. The shared state is kept on this
+  // device too, so edits made while disconnected survive a reload and are
+  // sent once the provider reconnects.
+  useEffect(() => {
+    if (!collaborative || !documentId || !signedIn || !userId) return;
+
+    const ydoc = new Y.Doc();
+    const persistence = persistCollabState(userId, documentId, ydoc);
+    const instance = new HocuspocusProvider({
+      url: COLLAB_URL,
+      name: documentId,
+      document: ydoc,
+      // Read on every (re)connect, as access tokens expire
+      token: async () => (await getFreshAccessToken()) ?? '',
+      onStatus: ({ status }) => setConnectionStatus(status),
+    });
+    setProvider(instance);
+
+    return () => {
+      instance.destroy();
+      persistence.destroy();
+      ydoc.destroy();
+      setProvider(null);
+    };
+  }, [collaborative, documentId, signedIn, userId]);
 
   const editor = useEditor({
-    extensions: [StarterKit],
-    content: initialContent,
+    extensions: provider
+      ? [
+          // Undo history is tracked per user by the Collaboration extension
+          StarterKit.configure({ history: false }),
+          mention,
+          ...contentExtensions,
+          image,
+          Collaboration.configure({ document: provider.document }),
+          CollaborationCursor.configure({
+            provider,
+            user: {
+              name: user ? `${user.firstName} ${user.lastName}` : 'Anonymous',
+              color: user ? colorForUser(user.id) : '#6b7280',
+            },
+          }),
+          CommentHighlights.configure({
+            onSelect: (threadId) => onCommentSelectRef.current?.(threadId),
+          }),
+          SearchHighlights,
+          linkClicks,
+          fileUploads,
+        ]
+      : [StarterKit, mention, ...contentExtensions, image, SearchHighlights, linkClicks, fileUploads],
+    content: provider ? undefined : initialContent,
     editable: !readOnly,
-    onUpdate: ({ editor }) => {
+    onUpdate: () => {
       // Auto-save after 2 seconds of inactivity
-      if (!readOnly && documentId) {
+      if (!provider && !readOnly && documentId) {
         debounceAutoSave();
       }
     },
-  });
+  }, [provider]);
 
   // Update editor content when initialContent changes
   useEffect(() => {
-    if (editor && initialContent !== editor.getHTML()) {
+    // Collaborative content comes from the shared document, never from props
+    if (!editor || provider) return;
+    if (initialContent !== editor.getHTML() || !baseRef.current) {
       editor.commands.setContent(initialContent);
+      baseRef.current = { version: initialVersion ?? 0, title: initialTitle, content: editor.getHTML() };
+    }
+  }, [initialContent, initialTitle, initialVersion, editor, provider]);
+
+  useEffect(() => {
+    editor?.setEditable(!readOnly);
+  }, [editor, readOnly]);
+
+  // Pick up edits queued while offline, possibly before a reload. While the
+  // document is open here, this editor replays them rather than the
+  // background sync.
+  useEffect(() => {
+    if (!editor || provider || !documentId || readOnly) return;
+    const release = registerOpenEditor(documentId);
+    let cancelled = false;
+
+    getQueuedSave(userId, documentId)
+      .then(save => {
+        if (cancelled || !save || editor.isDestroyed) return;
+
+        editor.commands.setContent(save.content);
+        setTitle(save.title);
+        baseRef.current = save.base;
+        setPendingOffline(true);
+
+        if (save.conflict) {
+          setConflict({
+            mine: { title: save.title, content: save.content },
+            theirs: { ...save.conflict, content: editorHtml(editor, save.conflict.content) }
+          });
+        }
+      })
+      .catch(error => console.error('Failed to read offline changes:', error));
+
+    return () => {
+      cancelled = true;
+      release();
+    };
+  }, [editor, provider, documentId, readOnly, userId]);
+
+  // Send the queued edits once the connection is back
+  useEffect(() => {
+    if (online && pendingOffline) {
+      handleSave(false);
+    }
+  }, [online, pendingOffline]);
+
+  // Hand the comment threads to the highlight plugin
+  useEffect(() => {
+    if (!editor || editor.isDestroyed || !provider) return;
+    editor.view.dispatch(
+      editor.state.tr.setMeta(commentHighlightsKey, {
+        threads: commentThreads,
+        activeId: activeCommentId,
+      })
+    );
+  }, [editor, provider, commentThreads, activeCommentId]);
+
+  // Scroll the highlighted text into view when a thread is picked in the panel
+  useEffect(() => {
+    if (!editor || editor.isDestroyed || !activeCommentId) return;
+    const thread = commentThreads.find(t => t.id === activeCommentId);
+    const range = thread && resolveCommentAnchor(editor.state, thread);
+    if (range) {
+      const { node } = editor.view.domAtPos(range.from);
+      const element = node instanceof Element ? node : node.parentElement;
+      element?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
     }
-  }, [initialContent, editor]);
+    // Only when the active thread changes, not on every poll
+  }, [editor, activeCommentId]);
+
+  // Highlight the search terms and scroll to the first match. Collaborative
+  // content arrives after the editor is created, so keep watching until a
+  // match shows up.
+  useEffect(() => {
+    if (!editor || editor.isDestroyed) return;
+    editor.view.dispatch(editor.state.tr.setMeta(searchHighlightsKey, highlightTerms));
+    if (highlightTerms.length === 0) return;
+
+    const scrollToFirstMatch = () => {
+      const [first] = searchHighlightsKey.getState(editor.state)?.decorations.find() || [];
+      if (!first) return false;
+
+      const { node } = editor.view.domAtPos(first.from);
+      const element = node instanceof Element ? node : node.parentElement;
+      element?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+      return true;
+    };
+
+    if (scrollToFirstMatch()) return;
+
+    const handleTransaction = () => {
+      if (scrollToFirstMatch()) {
+        editor.off('transaction', handleTransaction);
+      }
+    };
+    editor.on('transaction', handleTransaction);
+    return () => {
+      editor.off('transaction', handleTransaction);
+    };
+  }, [editor, highlightTerms]);
 
   // Update title when initialTitle changes
   useEffect(() => {
@@ -68,28 +427,59 @@ const DocumentEditor: React.FC<DocumentEditorProps> = ({
     [editor, documentId, readOnly]
   );
 
-  const handleSave = async (showToast = true) => {
-    if (!editor || readOnly) return;
+  // `copy` replaces the editor's title and content, e.g. a merge result
+  const handleSave = async (showToast = true, copy?: DocumentCopy) => {
+    if (!editor || readOnly || conflictRef.current) return;
+
+    const saveTitle = copy?.title ?? title;
+    const content = provider ? undefined : copy?.content ?? editor.getHTML();
+    // Collaborative content is merged by the collaboration server, so only
+    // plain saves (share links, offline edits) say which version they started
+    // from; they are the only ones that can end up in the merge view
+    const baseVersion = content !== undefined ? baseRef.current?.version : undefined;
+
+    if (content !== undefined && !navigator.onLine) {
+      await saveOffline({ title: saveTitle, content }, showToast);
+      return;
+    }
 
     setIsSaving(true);
     try {
-      const content = editor.getHTML();
-      
+      let saved: SavedDocument | void = undefined;
       if (onSave) {
-        await onSave(title, content);
+        saved = await onSave(saveTitle, content, baseVersion);
       } else if (documentId) {
-        await request(`/documents/${documentId}`, {
+        saved = await request(`/documents/${documentId}`, {
           method: 'PUT',
-          body: { title, content }
+          body: { title: saveTitle, content, baseVersion }
         });
       }
 
+      if (saved && content !== undefined) {
+        baseRef.current = { version: saved.version, title: saved.title, content };
+      }
+
+      if (pendingRef.current && documentId) {
+        setPendingOffline(false);
+        await removeQueuedSave(userId, documentId);
+      }
+
       setLastSaved(new Date());
       if (showToast) {
         toast.success('Document saved successfully');
       }
     } catch (error) {
-      if (showToast) {
+      if (error instanceof ApiError && error.status === 409 && content !== undefined) {
+        const { document: theirs } = error.data as { document: SavedDocument };
+        setConflict({
+          // Including anything typed while the save was under way
+          mine: { title: saveTitle, content: copy?.content ?? editor.getHTML() },
+          theirs: { ...theirs, content: editorHtml(editor, theirs.content) }
+        });
+      } else if (!(error instanceof ApiError) && content !== undefined) {
+        // The request never reached the server
+        await saveOffline({ title: saveTitle, content }, showToast);
+      } else if (showToast || pendingRef.current) {
         toast.error('Failed to save document');
       }
     } finally {
@@ -97,6 +487,44 @@ const DocumentEditor: React.FC<DocumentEditorProps> = ({
     }
   };
 
+  // Keep the edits on this device until they can be saved
+  const saveOffline = async (copy: DocumentCopy, showToast: boolean) => {
+    if (!documentId || !baseRef.current) return;
+
+    try {
+      await queueSave({ documentId, userId, ...copy, base: baseRef.current, headers: requestHeaders });
+      setPendingOffline(true);
+      if (showToast) {
+        toast.success('You are offline. Your changes are kept on this device until you reconnect');
+      }
+    } catch (error) {
+      console.error('Failed to keep changes offline:', error);
+      if (showToast) {
+        toast.error('Failed to save document');
+      }
+    }
+  };
+
+  // Continue from the server copy, then save `copy` on top of it if given
+  const resolveConflict = (copy?: DocumentCopy) => {
+    if (!editor || !conflict) return;
+    const { theirs } = conflict;
+    const next = copy || theirs;
+
+    editor.commands.setContent(next.content);
+    setTitle(next.title);
+    baseRef.current = theirs;
+    conflictRef.current = null;
+    setConflict(null);
+
+    if (copy) {
+      handleSave(true, { title: copy.title, content: editor.getHTML() });
+    } else if (pendingOffline && documentId) {
+      setPendingOffline(false);
+      removeQueuedSave(userId, documentId).catch(error => console.error('Failed to drop offline changes:', error));
+    }
+  };
+
   if (!editor) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -117,15 +545,55 @@ const DocumentEditor: React.FC<DocumentEditorProps> = ({
           className="w-full text-3xl font-bold text-gray-900 placeholder-gray-400 border-none outline-none bg-transparent"
           readOnly={readOnly}
         />
-        {lastSaved && (
+        {provider ? (
+          <p className="flex items-center space-x-2 text-sm text-gray-500 mt-2">
+            <span
+              className={`inline-block h-2 w-2 rounded-full ${
+                connectionStatus === WebSocketStatus.Connected
+                  ? 'bg-green-500'
+                  : connectionStatus === WebSocketStatus.Connecting
+                    ? 'bg-yellow-400'
+                    : 'bg-gray-400'
+              }`}
+            />
+            <span>
+              {connectionStatus === WebSocketStatus.Connected && 'Live: changes are saved automatically'}
+              {connectionStatus === WebSocketStatus.Connecting && 'Connecting...'}
+              {connectionStatus === WebSocketStatus.Disconnected && 'Offline: changes will sync when reconnected'}
+            </span>
+          </p>
+        ) : documentId && !readOnly && (!online || pendingOffline) ? (
+          <p className="flex items-center space-x-2 text-sm text-gray-500 mt-2">
+            <span className={`inline-block h-2 w-2 rounded-full ${online ? 'bg-yellow-400' : 'bg-gray-400'}`} />
+            <span>
+              {!online
+                ? 'Offline: changes are kept on this device and saved when you reconnect'
+                : isSaving
+                  ? 'Syncing changes made offline...'
+                  : 'Changes made offline are not saved yet'}
+            </span>
+          </p>
+        ) : lastSaved && (
           <p className="text-sm text-gray-500 mt-2">
             Last saved: {lastSaved.toLocaleTimeString()}
           </p>
         )}
       </div>
 
+      {conflict && baseRef.current && (
+        <ConflictMerge
+          base={baseRef.current}
+          mine={conflict.mine}
+          theirs={conflict.theirs}
+          saving={isSaving}
+          onKeepMine={() => resolveConflict(conflict.mine)}
+          onTakeTheirs={() => resolveConflict()}
+          onMerge={(merged) => resolveConflict(merged)}
+        />
+      )}
+
       {/* Toolbar */}
-      {!readOnly && (
+      {!readOnly && !conflict && (
         <div className="flex items-center space-x-2 p-4 border-b border-gray-200 bg-gray-50">
           <button
             onClick={() => editor.chain().focus().toggleBold().run()}
@@ -202,6 +670,26 @@ const DocumentEditor: React.FC<DocumentEditorProps> = ({
             <Redo className="h-4 w-4" />
           </button>
 
+          <div className="w-px h-6 bg-gray-300 mx-2" />
+
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="p-2 rounded-lg text-gray-600 hover:bg-gray-200 transition-colors"
+            title="Attach files"
+          >
+            <Paperclip className="h-4 w-4" />
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              addFiles(Array.from(e.target.files || []), null);
+              e.target.value = '';
+            }}
+          />
+
           <div className="flex-1" />
 
           <button
@@ -215,8 +703,29 @@ const DocumentEditor: React.FC<DocumentEditorProps> = ({
         </div>
       )}
 
+      {provider && onStartComment && (
+        <BubbleMenu
+          editor={editor}
+          shouldShow={({ state }) => !state.selection.empty}
+          tippyOptions={{ duration: 100 }}
+        >
+          <button
+            // Keep the text selection while clicking
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => {
+              const anchor = createCommentAnchor(editor.state);
+              if (anchor) onStartComment(anchor);
+            }}
+            className="flex items-center space-x-1 px-3 py-1.5 bg-white text-sm text-gray-700 border border-gray-200 rounded-lg shadow-lg hover:bg-gray-50 transition-colors"
+          >
+            <MessageSquarePlus className="h-4 w-4" />
+            <span>Comment</span>
+          </button>
+        </BubbleMenu>
+      )}
+
       {/* Editor */}
-      <div className="flex-1 overflow-auto">
+      <div className={`flex-1 overflow-auto ${conflict ? 'hidden' : ''}`}>
         <EditorContent 
           editor={editor} 
           className="prose prose-lg max-w-none p-6 h-full focus:outline-none"
@@ -227,9 +736,9 @@ const DocumentEditor: React.FC<DocumentEditorProps> = ({
 };
 
 // Debounce utility
-function debounce(func: Function, wait: number) {
-  let timeout: NodeJS.Timeout;
-  return function executedFunction(...args: any[]) {
+function debounce<Args extends unknown[]>(func: (...args: Args) => void, wait: number) {
+  let timeout: ReturnType<typeof setTimeout>;
+  return function executedFunction(...args: Args) {
     const later = () => {
       clearTimeout(timeout);
       func(...args);
@@ -0,0 +1,81 @@
+import { forwardRef, useEffect, useImperativeHandle, useState } from 'react';
+
+export interface MentionItem {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface MentionListProps {
+  items: MentionItem[];
+  query: string;
+  command: (attrs: { id: string; label: string }) => void;
+}
+
+export interface MentionListHandle {
+  onKeyDown: (props: { event: KeyboardEvent }) => boolean;
+}
+
+const MentionList = forwardRef<MentionListHandle, MentionListProps>(({ items, query, command }, ref) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  useEffect(() => setSelectedIndex(0), [items]);
+
+  const selectItem = (index: number) => {
+    const item = items[index];
+    if (item) {
+      command({ id: item.id, label: item.name });
+    }
+  };
+
+  useImperativeHandle(ref, () => ({
+    onKeyDown: ({ event }) => {
+      if (items.length === 0) return false;
+
+      if (event.key === 'ArrowUp') {
+        setSelectedIndex((selectedIndex + items.length - 1) % items.length);
+        return true;
+      }
+
+      if (event.key === 'ArrowDown') {
+        setSelectedIndex((selectedIndex + 1) % items.length);
+        return true;
+      }
+
+      if (event.key === 'Enter' || event.key === 'Tab') {
+        selectItem(selectedIndex);
+        return true;
+      }
+
+      return false;
+    },
+  }));
+
+  return (
+    <div className="mention-suggestions w-64">
+      {items.length > 0 ? (
+        items.map((item, index) => (
+          <button
+            key={item.id}
+            type="button"
+            onClick={() => selectItem(index)}
+            className={`mention-suggestion w-full text-left ${index === selectedIndex ? 'selected' : ''}`}
+          >
+            <div className="mention-user">
+              <span className="text-sm font-medium text-gray-900">{item.name}</span>
+              <span className="mention-email">{item.email}</span>
+            </div>
+          </button>
+        ))
+      ) : (
+        <div className="px-2 py-1 text-sm text-gray-500">
+          {query.length < 2 ? 'Type a name or email...' : 'No users found'}
+        </div>
+      )}
+    </div>
+  );
+});
+
+MentionList.displayName = 'MentionList';
+
+export default MentionList;
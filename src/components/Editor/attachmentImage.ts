@@ -0,0 +1,57 @@
+import Image, { ImageOptions } from '@tiptap/extension-image';
+
+interface AttachmentImageOptions extends ImageOptions {
+  // Resolves with a URL the browser can show for `src`
+  loadImage: (src: string) => Promise<string | null>;
+}
+
+// Attachment images are served with the document's access rules, which a
+// plain <img src> cannot satisfy, so the node view loads them through
+// `loadImage` (see DocumentEditor). The stored src stays the API path.
+export const AttachmentImage = Image.extend<AttachmentImageOptions>({
+  addOptions() {
+    return {
+      ...this.parent!(),
+      loadImage: async (src: string) => src,
+    };
+  },
+
+  addNodeView() {
+    const { loadImage } = this.options;
+
+    return ({ node }) => {
+      const img = document.createElement('img');
+      let src: string | null = null;
+
+      const render = (attrs: Record<string, string | null>) => {
+        img.alt = attrs.alt || '';
+        img.title = attrs.title || '';
+        if (attrs.src === src) return;
+
+        src = attrs.src;
+        img.removeAttribute('src');
+        if (!src) return;
+
+        const requested = src;
+        loadImage(requested)
+          .then(url => {
+            if (url && src === requested) img.src = url;
+          })
+          .catch(() => {
+            if (src === requested) img.classList.add('image-unavailable');
+          });
+      };
+
+      render(node.attrs);
+
+      return {
+        dom: img,
+        update: (updated) => {
+          if (updated.type !== node.type) return false;
+          render(updated.attrs);
+          return true;
+        },
+      };
+    };
+  },
+});
@@ -0,0 +1,101 @@
+import type { EditorState } from '@tiptap/pm/state';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import * as Y from 'yjs';
+import {
+  ySyncPluginKey,
+  absolutePositionToRelativePosition,
+  relativePositionToAbsolutePosition
+} from 'y-prosemirror';
+
+// Comment threads are anchored with Yjs relative positions: they point at the
+// characters themselves rather than at offsets, so the range keeps following
+// the text while collaborators edit around it. The quoted text is kept as a
+// fallback for when those characters are gone (e.g. after a version restore).
+
+export interface CommentAnchor {
+  anchorStart: string;
+  anchorEnd: string;
+  quotedText: string;
+}
+
+const MAX_QUOTE_LENGTH = 1000;
+
+const encode = (position: Y.RelativePosition) =>
+  btoa(String.fromCharCode(...Y.encodeRelativePosition(position)));
+
+const decode = (value: string) =>
+  Y.decodeRelativePosition(Uint8Array.from(atob(value), char => char.charCodeAt(0)));
+
+// The sync plugin only knows where Yjs items live once the document is bound
+const getSyncState = (state: EditorState) => {
+  const syncState = ySyncPluginKey.getState(state);
+  if (!syncState?.binding || syncState.binding.mapping.size === 0) return null;
+  return syncState;
+};
+
+export const createCommentAnchor = (state: EditorState): CommentAnchor | null => {
+  const { from, to, empty } = state.selection;
+  const syncState = getSyncState(state);
+  if (empty || !syncState) return null;
+
+  const quotedText = state.doc.textBetween(from, to, ' ').trim();
+  if (!quotedText) return null;
+
+  const { type, binding } = syncState;
+  return {
+    anchorStart: encode(absolutePositionToRelativePosition(from, type, binding.mapping)),
+    anchorEnd: encode(absolutePositionToRelativePosition(to, type, binding.mapping)),
+    quotedText: quotedText.slice(0, MAX_QUOTE_LENGTH)
+  };
+};
+
+// Find the first occurrence of text inside a single textblock
+const findText = (doc: ProseMirrorNode, text: string) => {
+  let range: { from: number; to: number } | null = null;
+
+  doc.descendants((node, pos) => {
+    if (range) return false;
+    if (!node.isTextblock) return true;
+
+    // Map every character to its document position; inline atoms such as
+    // mentions take up a position but contribute no characters
+    let chars = '';
+    const positions: number[] = [];
+    node.forEach((child, offset) => {
+      if (child.isText && child.text) {
+        for (let i = 0; i < child.text.length; i++) {
+          chars += child.text[i];
+          positions.push(pos + 1 + offset + i);
+        }
+      }
+    });
+
+    const index = chars.indexOf(text);
+    if (index !== -1) {
+      range = { from: positions[index], to: positions[index + text.length - 1] + 1 };
+    }
+    return false;
+  });
+
+  return range;
+};
+
+export const resolveCommentAnchor = (state: EditorState, anchor: CommentAnchor) => {
+  const syncState = getSyncState(state);
+  if (!syncState) return null;
+
+  const { doc, type, binding } = syncState;
+
+  try {
+    const from = relativePositionToAbsolutePosition(doc, type, decode(anchor.anchorStart), binding.mapping);
+    const to = relativePositionToAbsolutePosition(doc, type, decode(anchor.anchorEnd), binding.mapping);
+
+    if (from !== null && to !== null && from < to && to <= state.doc.content.size) {
+      return { from, to };
+    }
+  } catch {
+    // Malformed anchors fall back to the quoted text
+  }
+
+  return findText(state.doc, anchor.quotedText);
+};
@@ -0,0 +1,94 @@
+import { Extension } from '@tiptap/core';
+import { Plugin, PluginKey, EditorState } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import { ySyncPluginKey } from 'y-prosemirror';
+import { CommentAnchor, resolveCommentAnchor } from './commentAnchors';
+
+export interface HighlightedThread extends CommentAnchor {
+  id: string;
+}
+
+interface CommentHighlightsState {
+  threads: HighlightedThread[];
+  activeId: string | null;
+  decorations: DecorationSet;
+}
+
+interface CommentHighlightsOptions {
+  onSelect: (threadId: string) => void;
+}
+
+export const commentHighlightsKey = new PluginKey<CommentHighlightsState>('commentHighlights');
+
+const buildDecorations = (state: EditorState, threads: HighlightedThread[], activeId: string | null) =>
+  DecorationSet.create(
+    state.doc,
+    threads.flatMap((thread) => {
+      const range = resolveCommentAnchor(state, thread);
+      if (!range) return [];
+
+      return [
+        Decoration.inline(
+          range.from,
+          range.to,
+          {
+            class: thread.id === activeId ? 'comment-highlight comment-highlight-active' : 'comment-highlight',
+            'data-comment-id': thread.id
+          },
+          { threadId: thread.id }
+        )
+      ];
+    })
+  );
+
+// Highlights the text that comment threads are anchored to. Threads and the
+// active thread are pushed in with a transaction meta (see DocumentEditor).
+export const CommentHighlights = Extension.create<CommentHighlightsOptions>({
+  name: 'commentHighlights',
+
+  addOptions() {
+    return {
+      onSelect: () => {},
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const { onSelect } = this.options;
+
+    return [
+      new Plugin<CommentHighlightsState>({
+        key: commentHighlightsKey,
+        state: {
+          init: () => ({ threads: [], activeId: null, decorations: DecorationSet.empty }),
+          apply(tr, value, _oldState, newState) {
+            const meta = tr.getMeta(commentHighlightsKey) as Partial<CommentHighlightsState> | undefined;
+            const remote = tr.getMeta(ySyncPluginKey)?.isChangeOrigin;
+
+            if (meta || remote) {
+              const next = { ...value, ...meta };
+              return { ...next, decorations: buildDecorations(newState, next.threads, next.activeId) };
+            }
+
+            // Local edits reach Yjs only after this transaction, so map the
+            // existing ranges instead of resolving the anchors again
+            if (tr.docChanged) {
+              return { ...value, decorations: value.decorations.map(tr.mapping, tr.doc) };
+            }
+
+            return value;
+          },
+        },
+        props: {
+          decorations: (state) => commentHighlightsKey.getState(state)?.decorations,
+          handleClick: (view, pos) => {
+            const [hit] = commentHighlightsKey.getState(view.state)?.decorations.find(pos, pos) || [];
+            if (hit) {
+              onSelect(hit.spec.threadId);
+            }
+            return false;
+          },
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,52 @@
+import { Extension } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+
+interface FileUploadsOptions {
+  // `position` is where files were dropped, or null to insert at the cursor
+  onFiles: (files: File[], position: number | null) => void;
+}
+
+const fileUploadsKey = new PluginKey('fileUploads');
+
+// Hands files dropped or pasted into the editor to `onFiles` (see
+// DocumentEditor) instead of letting the browser open them
+export const FileUploads = Extension.create<FileUploadsOptions>({
+  name: 'fileUploads',
+
+  addOptions() {
+    return {
+      onFiles: () => {},
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const { onFiles } = this.options;
+
+    return [
+      new Plugin({
+        key: fileUploadsKey,
+        props: {
+          handleDrop(view, event) {
+            const files = Array.from(event.dataTransfer?.files || []);
+            if (!view.editable || files.length === 0) return false;
+
+            event.preventDefault();
+            const position = view.posAtCoords({ left: event.clientX, top: event.clientY })?.pos ?? null;
+            onFiles(files, position);
+            return true;
+          },
+
+          // Office apps put a picture of the copied text on the clipboard
+          // too; pasting text wins over that
+          handlePaste(view, event) {
+            const files = Array.from(event.clipboardData?.files || []);
+            if (!view.editable || files.length === 0 || event.clipboardData?.getData('text/plain')) return false;
+
+            onFiles(files, null);
+            return true;
+          },
+        },
+      }),
+    ];
+  },
+});
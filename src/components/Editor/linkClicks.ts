@@ -0,0 +1,44 @@
+import { Extension } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+
+interface LinkClicksOptions {
+  onOpen: (href: string) => void;
+}
+
+const linkClicksKey = new PluginKey('linkClicks');
+
+// Opens links when they are clicked while reading, or Ctrl/Cmd-clicked while
+// editing so a plain click can still place the cursor inside them. Where the
+// link goes is up to `onOpen` (see DocumentEditor).
+export const LinkClicks = Extension.create<LinkClicksOptions>({
+  name: 'linkClicks',
+
+  addOptions() {
+    return {
+      onOpen: () => {},
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const { onOpen } = this.options;
+
+    return [
+      new Plugin({
+        key: linkClicksKey,
+        props: {
+          handleClick(view, _pos, event) {
+            if (view.editable && !event.metaKey && !event.ctrlKey) return false;
+
+            const link = (event.target as HTMLElement | null)?.closest('a[href]');
+            const href = link?.getAttribute('href');
+            if (!href) return false;
+
+            event.preventDefault();
+            onOpen(href);
+            return true;
+          },
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,64 @@
+import { ReactRenderer } from '@tiptap/react';
+import { MentionOptions } from '@tiptap/extension-mention';
+import MentionList, { MentionItem, MentionListHandle } from './MentionList';
+
+// Suggestion config for the Mention extension: shows MentionList in a popup
+// that follows the caret while the user types after "@".
+export const createMentionSuggestion = (
+  searchUsers: (query: string) => Promise<MentionItem[]>
+): MentionOptions['suggestion'] => ({
+  items: async ({ query }) => {
+    if (query.length < 2) return [];
+    try {
+      return await searchUsers(query);
+    } catch {
+      return [];
+    }
+  },
+
+  render: () => {
+    let component: ReactRenderer<MentionListHandle> | null = null;
+    let popup: HTMLDivElement | null = null;
+
+    const position = (clientRect?: (() => DOMRect | null) | null) => {
+      const rect = clientRect?.();
+      if (!popup || !rect) return;
+      popup.style.top = `${rect.bottom + 4}px`;
+      popup.style.left = `${rect.left}px`;
+    };
+
+    return {
+      onStart: (props) => {
+        component = new ReactRenderer(MentionList, { props, editor: props.editor });
+
+        popup = document.createElement('div');
+        popup.style.position = 'fixed';
+        popup.style.zIndex = '50';
+        popup.appendChild(component.element);
+        document.body.appendChild(popup);
+
+        position(props.clientRect);
+      },
+
+      onUpdate: (props) => {
+        component?.updateProps(props);
+        position(props.clientRect);
+      },
+
+      onKeyDown: (props) => {
+        if (props.event.key === 'Escape') {
+          popup?.remove();
+          return true;
+        }
+        return component?.ref?.onKeyDown(props) ?? false;
+      },
+
+      onExit: () => {
+        popup?.remove();
+        component?.destroy();
+        popup = null;
+        component = null;
+      },
+    };
+  },
+});
@@ -0,0 +1,79 @@
+import { Extension } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+
+interface SearchHighlightsState {
+  terms: string[];
+  decorations: DecorationSet;
+}
+
+export const searchHighlightsKey = new PluginKey<SearchHighlightsState>('searchHighlights');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Same matching as the search snippets on the server: words starting with a
+// term, and phrase words separated by any punctuation or whitespace
+const buildTermPattern = (terms: string[]) => {
+  const alternatives = [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map(term => term.split(' ').map(escapeRegExp).join('[^\\p{L}\\p{N}]+'));
+
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})`, 'giu');
+};
+
+const buildDecorations = (doc: ProseMirrorNode, terms: string[]) => {
+  if (terms.length === 0) return DecorationSet.empty;
+
+  const pattern = buildTermPattern(terms);
+  const decorations: Decoration[] = [];
+
+  doc.descendants((node, pos) => {
+    if (!node.isTextblock) return true;
+
+    // Mentions and hard breaks take one position each, so with one
+    // placeholder character per leaf, text offsets map straight to positions
+    const text = node.textBetween(0, node.content.size, undefined, '\ufffc');
+    for (const match of text.matchAll(pattern)) {
+      const from = pos + 1 + match.index!;
+      decorations.push(Decoration.inline(from, from + match[0].length, { class: 'search-highlight' }));
+    }
+    return false;
+  });
+
+  return DecorationSet.create(doc, decorations);
+};
+
+// Highlights the terms a document was found by. The terms are pushed in with
+// a transaction meta (see DocumentEditor).
+export const SearchHighlights = Extension.create({
+  name: 'searchHighlights',
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<SearchHighlightsState>({
+        key: searchHighlightsKey,
+        state: {
+          init: () => ({ terms: [], decorations: DecorationSet.empty }),
+          apply(tr, value, _oldState, newState) {
+            const terms = tr.getMeta(searchHighlightsKey) as string[] | undefined;
+
+            if (terms) {
+              return { terms, decorations: buildDecorations(newState.doc, terms) };
+            }
+
+            // Edits can create or break matches, so search the document again
+            if (tr.docChanged && value.terms.length > 0) {
+              return { ...value, decorations: buildDecorations(newState.doc, value.terms) };
+            }
+
+            return value;
+          },
+        },
+        props: {
+          decorations: (state) => searchHighlightsKey.getState(state)?.decorations,
+        },
+      }),
+    ];
+  },
+});
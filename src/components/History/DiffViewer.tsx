@@ -0,0 +1,131 @@
+import React from 'react';
+import { DiffPart, DiffToken, describeBlock, describeFormatChange } from '../../utils/htmlDiff';
+
+interface DiffViewerProps {
+  parts: DiffPart[];
+  mode: 'inline' | 'split';
+}
+
+interface DiffBlock {
+  block: string;
+  header?: DiffPart;
+  parts: DiffPart[];
+}
+
+const groupBlocks = (parts: DiffPart[], side: 'old' | 'new' | 'both'): DiffBlock[] => {
+  const blocks: DiffBlock[] = [];
+
+  for (const part of parts) {
+    if (side === 'old' && part.op === 'added') continue;
+    if (side === 'new' && part.op === 'removed') continue;
+
+    const token = side === 'old' && part.previous ? part.previous : part.token;
+
+    if (token.kind === 'break') {
+      blocks.push({ block: token.block, header: part, parts: [] });
+      continue;
+    }
+
+    if (blocks.length === 0) {
+      blocks.push({ block: token.block, parts: [] });
+    }
+    blocks[blocks.length - 1].parts.push(part);
+  }
+
+  return blocks;
+};
+
+const blockClassName = (block: string) => {
+  if (/^h1$/.test(block)) return 'text-2xl font-bold text-gray-900';
+  if (/^h2$/.test(block)) return 'text-xl font-bold text-gray-900';
+  if (/^h[3-6]$/.test(block)) return 'text-lg font-semibold text-gray-900';
+  if (block.startsWith('blockquote')) return 'border-l-4 border-gray-200 pl-4 italic text-gray-500';
+  if (block === 'pre') return 'bg-gray-100 rounded-lg p-3 font-mono text-sm whitespace-pre-wrap';
+  if (block.startsWith('ul') || block.startsWith('ol')) return 'pl-6 relative';
+  return '';
+};
+
+const markClassName = (token: DiffToken) => {
+  const classes: string[] = [];
+  if (token.marks.includes('bold')) classes.push('font-semibold');
+  if (token.marks.includes('italic')) classes.push('italic');
+  if (token.marks.includes('strike')) classes.push('line-through');
+  if (token.marks.includes('underline') || token.marks.includes('link')) classes.push('underline');
+  if (token.marks.includes('code')) classes.push('font-mono text-sm bg-gray-100');
+  return classes.join(' ');
+};
+
+const opClassName = (part: DiffPart) => {
+  switch (part.op) {
+    case 'added':
+      return 'bg-green-100 text-green-900';
+    case 'removed':
+      return 'bg-red-100 text-red-800 line-through';
+    case 'formatted':
+      return 'bg-yellow-100 border-b-2 border-yellow-400';
+    default:
+      return '';
+  }
+};
+
+const renderBlocks = (blocks: DiffBlock[], side: 'old' | 'new' | 'both') =>
+  blocks.map((block, blockIndex) => {
+    const header = block.header;
+    const blockChanged = header && header.op !== 'equal' && header.token.text !== '';
+
+    return (
+      <div
+        key={blockIndex}
+        className={`my-2 ${blockClassName(block.block)} ${
+          blockChanged && header.op === 'added' ? 'border-l-2 border-green-400' : ''
+        } ${blockChanged && header.op === 'removed' ? 'border-l-2 border-red-400' : ''}`}
+      >
+        {header && header.op === 'formatted' && (
+          <span className="inline-block mr-2 mb-1 text-xs bg-yellow-100 text-yellow-800 px-2 py-0.5 rounded">
+            {side === 'old' ? describeBlock(header.previous!.block) : describeFormatChange(header)}
+          </span>
+        )}
+        {(block.block.startsWith('ul') || block.block.startsWith('ol')) && (
+          <span className="absolute left-2 text-gray-400">
+            {block.block.startsWith('ol') ? '#' : '•'}
+          </span>
+        )}
+        {block.block === 'hr' && <hr className="border-gray-300" />}
+        {block.parts.map((part, index) => {
+          const token = side === 'old' && part.previous ? part.previous : part.token;
+          return (
+            <span
+              key={index}
+              className={`${markClassName(token)} ${opClassName(part)}`}
+              title={part.op === 'formatted' ? describeFormatChange(part) : undefined}
+            >
+              {token.text}
+            </span>
+          );
+        })}
+      </div>
+    );
+  });
+
+const DiffViewer: React.FC<DiffViewerProps> = ({ parts, mode }) => {
+  if (mode === 'inline') {
+    return (
+      <div className="prose max-w-none text-gray-700 leading-relaxed">
+        {renderBlocks(groupBlocks(parts, 'both'), 'both')}
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 divide-x divide-gray-200">
+      <div className="pr-6 prose max-w-none text-gray-700 leading-relaxed">
+        {renderBlocks(groupBlocks(parts, 'old'), 'old')}
+      </div>
+      <div className="pl-6 prose max-w-none text-gray-700 leading-relaxed">
+        {renderBlocks(groupBlocks(parts, 'new'), 'new')}
+      </div>
+    </div>
+  );
+};
+
+export default DiffViewer;
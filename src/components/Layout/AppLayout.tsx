@@ -1,12 +1,14 @@
 import React from 'react';
 import { Outlet } from 'react-router-dom';
 import Sidebar from './Sidebar';
+import EmailVerificationBanner from './EmailVerificationBanner';
 
 const AppLayout: React.FC = () => {
   return (
     <div className="h-screen flex bg-gray-50">
       <Sidebar />
-      <main className="flex-1 overflow-hidden">
+      <main className="flex-1 overflow-hidden flex flex-col">
+        <EmailVerificationBanner />
         <Outlet />
       </main>
     </div>
@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react';
+import { MailWarning } from 'lucide-react';
+import { useApi } from '../../hooks/useApi';
+import { useAuthStore } from '../../store/authStore';
+import toast from 'react-hot-toast';
+
+// Reminds users who have not verified their email address yet that sharing
+// is unavailable until they do, with a way to get a new link
+const EmailVerificationBanner: React.FC = () => {
+  const [sending, setSending] = useState(false);
+  const { request } = useApi();
+  const { user, setUser } = useAuthStore();
+  const unverified = !!user && !user.emailVerified;
+
+  // The address may have been verified on another device
+  useEffect(() => {
+    if (!unverified) return;
+
+    request('/auth/me')
+      .then((data) => {
+        if (data?.user) setUser(data.user);
+      })
+      .catch(() => undefined);
+  }, [unverified]);
+
+  if (!unverified) return null;
+
+  const handleResend = async () => {
+    setSending(true);
+    try {
+      const data = await request('/auth/resend-verification', { method: 'POST' });
+      if (data) toast.success(data.message);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to send verification email');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between space-x-4 px-6 py-2 bg-amber-50 border-b border-amber-200 text-sm">
+      <div className="flex items-center space-x-2 text-amber-800">
+        <MailWarning className="h-4 w-4 flex-shrink-0" />
+        <span>
+          Verify your email address to share documents and have them shared with you. We sent a link to {user.email}.
+        </span>
+      </div>
+      <button
+        onClick={handleResend}
+        disabled={sending}
+        className="flex-shrink-0 font-medium text-amber-900 hover:underline disabled:opacity-50"
+      >
+        {sending ? 'Sending...' : 'Resend email'}
+      </button>
+    </div>
+  );
+};
+
+export default EmailVerificationBanner;
@@ -0,0 +1,216 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { ChevronRight, ChevronDown, FileText, Plus } from 'lucide-react';
+import { useApi } from '../../hooks/useApi';
+import { useSpaceStore } from '../../store/spaceStore';
+import toast from 'react-hot-toast';
+
+interface TreePage {
+  id: string;
+  title: string;
+  parent_id: string | null;
+  position: number;
+}
+
+interface TreeNode extends TreePage {
+  children: TreeNode[];
+}
+
+type DropZone = 'before' | 'inside' | 'after';
+
+interface DropTarget {
+  id: string;
+  zone: DropZone;
+}
+
+const buildTree = (pages: TreePage[]) => {
+  const nodes = new Map<string, TreeNode>();
+  pages.forEach(page => nodes.set(page.id, { ...page, children: [] }));
+
+  const roots: TreeNode[] = [];
+  // Pages arrive sorted by position, so children keep their order
+  nodes.forEach(node => {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  return { roots, nodes };
+};
+
+const PageTree: React.FC = () => {
+  const [pages, setPages] = useState<TreePage[]>([]);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const { request } = useApi();
+  const { currentSpaceId } = useSpaceStore();
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  const { roots, nodes } = useMemo(() => buildTree(pages), [pages]);
+  const currentId = location.pathname.match(/^\/documents\/([^/]+)/)?.[1];
+
+  const fetchTree = useCallback(async () => {
+    try {
+      const data = await request(
+        currentSpaceId ? `/documents/tree?spaceId=${currentSpaceId}` : '/documents/tree'
+      );
+      if (data) setPages(data);
+    } catch {
+      // The tree is secondary navigation; keep showing the last one we had
+    }
+  }, [request, currentSpaceId]);
+
+  // Pages are created, renamed and deleted from other screens
+  useEffect(() => {
+    fetchTree();
+  }, [fetchTree, location.pathname]);
+
+  // Reveal the page that is currently open
+  useEffect(() => {
+    if (!currentId) return;
+
+    const ancestors: string[] = [];
+    let parentId = nodes.get(currentId)?.parent_id;
+    while (parentId && !ancestors.includes(parentId)) {
+      ancestors.push(parentId);
+      parentId = nodes.get(parentId)?.parent_id;
+    }
+
+    setExpanded(prev =>
+      ancestors.every(id => prev.has(id)) ? prev : new Set([...prev, ...ancestors])
+    );
+  }, [currentId, nodes]);
+
+  const toggle = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const isInside = (id: string, ancestorId: string) => {
+    let parentId: string | null | undefined = id;
+    while (parentId) {
+      if (parentId === ancestorId) return true;
+      parentId = nodes.get(parentId)?.parent_id;
+    }
+    return false;
+  };
+
+  const handleDragOver = (e: React.DragEvent, node: TreeNode) => {
+    // Dropping a page into itself or one of its subpages would create a cycle
+    if (!draggingId || isInside(node.id, draggingId)) return;
+
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const offset = (e.clientY - rect.top) / rect.height;
+    const zone: DropZone = offset < 0.25 ? 'before' : offset > 0.75 ? 'after' : 'inside';
+
+    if (dropTarget?.id !== node.id || dropTarget.zone !== zone) {
+      setDropTarget({ id: node.id, zone });
+    }
+  };
+
+  const handleDrop = async (e: React.DragEvent, node: TreeNode) => {
+    e.preventDefault();
+    const target = dropTarget;
+    const movedId = draggingId;
+    setDropTarget(null);
+    setDraggingId(null);
+    if (!target || !movedId) return;
+
+    const body = target.zone === 'inside'
+      ? { parentId: node.id, position: node.children.length }
+      : {
+          parentId: node.parent_id,
+          position: target.zone === 'before' ? node.position : node.position + 1
+        };
+
+    try {
+      await request(`/documents/${movedId}/move`, { method: 'POST', body });
+      if (target.zone === 'inside') {
+        setExpanded(prev => new Set([...prev, node.id]));
+      }
+      await fetchTree();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to move page');
+    }
+  };
+
+  const renderNode = (node: TreeNode, depth: number): React.ReactNode => {
+    const isOpen = expanded.has(node.id);
+    const isTarget = dropTarget?.id === node.id;
+
+    return (
+      <li key={node.id}>
+        <div
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = 'move';
+            setDraggingId(node.id);
+          }}
+          onDragEnd={() => {
+            setDraggingId(null);
+            setDropTarget(null);
+          }}
+          onDragOver={(e) => handleDragOver(e, node)}
+          onDrop={(e) => handleDrop(e, node)}
+          className={`group flex items-center rounded-lg text-sm transition-colors ${
+            node.id === currentId ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
+          } ${isTarget && dropTarget.zone === 'inside' ? 'ring-2 ring-blue-400' : ''} ${
+            isTarget && dropTarget.zone === 'before' ? 'border-t-2 border-blue-400' : ''
+          } ${isTarget && dropTarget.zone === 'after' ? 'border-b-2 border-blue-400' : ''} ${
+            draggingId === node.id ? 'opacity-50' : ''
+          }`}
+          style={{ paddingLeft: `${depth * 12}px` }}
+        >
+          <button
+            onClick={() => toggle(node.id)}
+            className={`p-1 text-gray-400 hover:text-gray-600 ${node.children.length === 0 ? 'invisible' : ''}`}
+            aria-label={isOpen ? 'Collapse' : 'Expand'}
+          >
+            {isOpen ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+          </button>
+          <Link
+            to={`/documents/${node.id}`}
+            className="flex-1 flex items-center space-x-2 py-1.5 min-w-0"
+          >
+            <FileText className="h-4 w-4 flex-shrink-0" />
+            <span className="truncate">{node.title || 'Untitled Document'}</span>
+          </Link>
+          <button
+            onClick={() => navigate(`/documents/new?parent=${node.id}`)}
+            className="p-1 mr-1 text-gray-400 hover:text-gray-600 opacity-0 group-hover:opacity-100 transition-opacity"
+            title="Add subpage"
+          >
+            <Plus className="h-3 w-3" />
+          </button>
+        </div>
+        {isOpen && node.children.length > 0 && (
+          <ul>{node.children.map(child => renderNode(child, depth + 1))}</ul>
+        )}
+      </li>
+    );
+  };
+
+  if (roots.length === 0) return null;
+
+  return (
+    <div className="mt-6">
+      <h2 className="px-3 mb-2 text-xs font-semibold text-gray-500 uppercase tracking-wide">Pages</h2>
+      <ul>{roots.map(node => renderNode(node, 0))}</ul>
+    </div>
+  );
+};
+
+export default PageTree;
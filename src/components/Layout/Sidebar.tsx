@@ -7,18 +7,25 @@ import {
   LogOut, 
   Plus,
   Users,
-  BookOpen
+  UsersRound,
+  BookOpen,
+  Archive,
+  Upload
 } from 'lucide-react';
 import { useAuthStore } from '../../store/authStore';
+import { signOut } from '../../utils/authSession';
+import NotificationBell from '../Notifications/NotificationBell';
+import PageTree from './PageTree';
+import SpaceSwitcher from './SpaceSwitcher';
 import toast from 'react-hot-toast';
 
 const Sidebar: React.FC = () => {
   const location = useLocation();
   const navigate = useNavigate();
-  const { user, logout } = useAuthStore();
+  const { user } = useAuthStore();
 
-  const handleLogout = () => {
-    logout();
+  const handleLogout = async () => {
+    await signOut();
     toast.success('Logged out successfully');
     navigate('/login');
   };
@@ -27,6 +34,9 @@ const Sidebar: React.FC = () => {
     { icon: FileText, label: 'Documents', path: '/dashboard' },
     { icon: Search, label: 'Search', path: '/search' },
     { icon: Users, label: 'Shared with me', path: '/shared' },
+    { icon: UsersRound, label: 'Groups', path: '/groups' },
+    { icon: Upload, label: 'Imports', path: '/imports' },
+    { icon: Archive, label: 'Exports', path: '/exports' },
     { icon: Settings, label: 'Settings', path: '/settings' },
   ];
 
@@ -34,9 +44,12 @@ const Sidebar: React.FC = () => {
     <div className="w-64 bg-white border-r border-gray-200 h-full flex flex-col">
       {/* Header */}
       <div className="p-6 border-b border-gray-200">
-        <div className="flex items-center space-x-2">
-          <BookOpen className="h-8 w-8 text-blue-600" />
-          <h1 className="text-xl font-bold text-gray-900">KnowledgeBase</h1>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <BookOpen className="h-8 w-8 text-blue-600" />
+            <h1 className="text-xl font-bold text-gray-900">KnowledgeBase</h1>
+          </div>
+          <NotificationBell />
         </div>
       </div>
 
@@ -58,7 +71,8 @@ const Sidebar: React.FC = () => {
       </div>
 
       {/* Create New Document */}
-      <div className="p-4">
+      <div className="p-4 space-y-3">
+        <SpaceSwitcher />
         <Link
           to="/documents/new"
           className="w-full flex items-center justify-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
@@ -69,7 +83,7 @@ const Sidebar: React.FC = () => {
       </div>
 
       {/* Navigation */}
-      <nav className="flex-1 px-4 pb-4">
+      <nav className="flex-1 px-4 pb-4 overflow-auto">
         <div className="space-y-1">
           {menuItems.map((item) => {
             const isActive = location.pathname === item.path;
@@ -89,6 +103,8 @@ const Sidebar: React.FC = () => {
             );
           })}
         </div>
+
+        <PageTree />
       </nav>
 
       {/* Logout */}
@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { Layers, Settings2 } from 'lucide-react';
+import { useApi } from '../../hooks/useApi';
+import { useSpaceStore } from '../../store/spaceStore';
+
+interface Space {
+  id: string;
+  name: string;
+  role: 'admin' | 'editor' | 'viewer';
+}
+
+const SpaceSwitcher: React.FC = () => {
+  const [spaces, setSpaces] = useState<Space[]>([]);
+  const { currentSpaceId, setCurrentSpace } = useSpaceStore();
+  const { request } = useApi();
+  const location = useLocation();
+
+  // Spaces are created and left from the spaces pages
+  useEffect(() => {
+    request('/spaces')
+      .then(data => {
+        if (!data) return;
+        setSpaces(data);
+        if (currentSpaceId && !data.some((space: Space) => space.id === currentSpaceId)) {
+          setCurrentSpace(null);
+        }
+      })
+      .catch(() => undefined);
+  }, [request, location.pathname]);
+
+  return (
+    <div className="flex items-center space-x-2">
+      <div className="relative flex-1">
+        <Layers className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400 pointer-events-none" />
+        <select
+          value={currentSpaceId || ''}
+          onChange={(e) => setCurrentSpace(e.target.value || null)}
+          className="w-full pl-8 pr-2 py-2 text-sm border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="Space"
+        >
+          <option value="">All documents</option>
+          {spaces.map((space) => (
+            <option key={space.id} value={space.id}>{space.name}</option>
+          ))}
+        </select>
+      </div>
+      <Link
+        to={currentSpaceId ? `/spaces/${currentSpaceId}` : '/spaces'}
+        className="p-2 text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+        title="Manage spaces"
+      >
+        <Settings2 className="h-4 w-4" />
+      </Link>
+    </div>
+  );
+};
+
+export default SpaceSwitcher;
@@ -0,0 +1,163 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, CheckCheck, Share2, AtSign, FileText } from 'lucide-react';
+import { useApi } from '../../hooks/useApi';
+import { formatDistanceToNow } from 'date-fns';
+
+interface Notification {
+  id: string;
+  type: 'share' | 'mention' | 'document_update';
+  message: string;
+  read_at: string | null;
+  created_at: string;
+  document: {
+    id: string;
+    title: string;
+  } | null;
+}
+
+const POLL_INTERVAL = 60000;
+
+const typeIcons = {
+  share: Share2,
+  mention: AtSign,
+  document_update: FileText,
+};
+
+const NotificationBell: React.FC = () => {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { request } = useApi();
+  const navigate = useNavigate();
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const data = await request('/notifications');
+      if (data) {
+        setNotifications(data.notifications);
+        setUnreadCount(data.unreadCount);
+      }
+    } catch {
+      // Polling failures are silent; the next poll will retry
+    }
+  }, [request]);
+
+  useEffect(() => {
+    fetchNotifications();
+    const intervalId = setInterval(fetchNotifications, POLL_INTERVAL);
+    return () => clearInterval(intervalId);
+  }, [fetchNotifications]);
+
+  // Close the dropdown when clicking outside of it
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.read_at) {
+      request(`/notifications/${notification.id}/read`, { method: 'POST' }).catch(() => undefined);
+      setNotifications(prev =>
+        prev.map(n => (n.id === notification.id ? { ...n, read_at: new Date().toISOString() } : n))
+      );
+      setUnreadCount(count => Math.max(0, count - 1));
+    }
+
+    setOpen(false);
+    if (notification.document) {
+      navigate(`/documents/${notification.document.id}`);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await request('/notifications/read-all', { method: 'POST' });
+      const now = new Date().toISOString();
+      setNotifications(prev => prev.map(n => ({ ...n, read_at: n.read_at || now })));
+      setUnreadCount(0);
+    } catch {
+      // Keep the current state; the next poll resynchronises it
+    }
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => {
+          if (!open) fetchNotifications();
+          setOpen(!open);
+        }}
+        className="relative p-2 text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+        aria-label="Notifications"
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 bg-red-600 text-white text-[0.65rem] font-semibold rounded-full flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute left-0 top-11 w-80 bg-white rounded-lg shadow-lg border border-gray-200 z-20">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <h3 className="text-sm font-semibold text-gray-900">Notifications</h3>
+            {unreadCount > 0 && (
+              <button
+                onClick={handleMarkAllRead}
+                className="flex items-center space-x-1 text-xs text-blue-600 hover:text-blue-700 transition-colors"
+              >
+                <CheckCheck className="h-3 w-3" />
+                <span>Mark all as read</span>
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-auto">
+            {notifications.length === 0 ? (
+              <p className="px-4 py-8 text-center text-sm text-gray-500">You're all caught up.</p>
+            ) : (
+              notifications.map((notification) => {
+                const Icon = typeIcons[notification.type];
+                return (
+                  <button
+                    key={notification.id}
+                    onClick={() => handleOpen(notification)}
+                    className={`w-full text-left flex items-start space-x-3 px-4 py-3 border-b border-gray-100 hover:bg-gray-50 transition-colors ${
+                      notification.read_at ? '' : 'bg-blue-50'
+                    }`}
+                  >
+                    <Icon className="h-4 w-4 mt-0.5 text-gray-400 flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className={`text-sm ${notification.read_at ? 'text-gray-600' : 'text-gray-900 font-medium'}`}>
+                        {notification.message}
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {formatDistanceToNow(new Date(notification.created_at))} ago
+                      </p>
+                    </div>
+                    {!notification.read_at && (
+                      <span className="w-2 h-2 mt-1.5 bg-blue-600 rounded-full flex-shrink-0" />
+                    )}
+                  </button>
+                );
+              })
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Pencil } from 'lucide-react';
+import { PresenceUser } from '../../hooks/usePresence';
+import { colorForUser } from '../../utils/presence';
+
+interface PresenceAvatarsProps {
+  users: PresenceUser[];
+  max?: number;
+}
+
+const PresenceAvatars: React.FC<PresenceAvatarsProps> = ({ users, max = 4 }) => {
+  if (users.length === 0) return null;
+
+  const visible = users.slice(0, max);
+  const hidden = users.slice(max);
+
+  return (
+    <div className="flex items-center -space-x-2">
+      {visible.map((user) => (
+        <div
+          key={user.id}
+          className="relative w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center border-2 border-white"
+          style={{ boxShadow: `0 0 0 2px ${colorForUser(user.id)}` }}
+          title={`${user.firstName} ${user.lastName} (${user.mode})`}
+        >
+          <span className="text-blue-600 font-medium text-sm">
+            {user.firstName?.[0]}{user.lastName?.[0]}
+          </span>
+          {user.mode === 'editing' && (
+            <span
+              className="absolute -bottom-1 -right-1 w-4 h-4 rounded-full flex items-center justify-center ring-2 ring-white"
+              style={{ backgroundColor: colorForUser(user.id) }}
+            >
+              <Pencil className="h-2 w-2 text-white" />
+            </span>
+          )}
+        </div>
+      ))}
+      {hidden.length > 0 && (
+        <div
+          className="w-8 h-8 bg-gray-100 rounded-full flex items-center justify-center ring-2 ring-white"
+          title={hidden.map(user => `${user.firstName} ${user.lastName}`).join(', ')}
+        >
+          <span className="text-gray-600 font-medium text-xs">+{hidden.length}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PresenceAvatars;
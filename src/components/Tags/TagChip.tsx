@@ -0,0 +1,31 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { X } from 'lucide-react';
+
+interface TagChipProps {
+  name: string;
+  onRemove?: () => void;
+}
+
+// Clicking a tag lists every document carrying it on the dashboard
+const TagChip: React.FC<TagChipProps> = ({ name, onRemove }) => (
+  <span className="inline-flex items-center bg-gray-100 text-gray-700 rounded-full text-xs">
+    <Link
+      to={`/dashboard?tag=${encodeURIComponent(name)}`}
+      className={`py-0.5 hover:text-blue-600 transition-colors ${onRemove ? 'pl-2' : 'px-2'}`}
+    >
+      #{name}
+    </Link>
+    {onRemove && (
+      <button
+        onClick={onRemove}
+        className="p-0.5 mr-1 text-gray-400 hover:text-gray-600 transition-colors"
+        aria-label={`Remove tag ${name}`}
+      >
+        <X className="h-3 w-3" />
+      </button>
+    )}
+  </span>
+);
+
+export default TagChip;
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { Plus } from 'lucide-react';
+import { useApi } from '../../hooks/useApi';
+import TagChip from './TagChip';
+import toast from 'react-hot-toast';
+
+interface TagSuggestion {
+  name: string;
+  count: number;
+}
+
+interface TagEditorProps {
+  documentId: string;
+  tags: string[];
+  editable: boolean;
+  onChange: (tags: string[]) => void;
+}
+
+// Same normalization as the server, so the chip shows what will be stored
+const normalizeTag = (name: string) => name.trim().toLowerCase().replace(/\s+/g, '-');
+
+const TagEditor: React.FC<TagEditorProps> = ({ documentId, tags, editable, onChange }) => {
+  const [adding, setAdding] = useState(false);
+  const [input, setInput] = useState('');
+  const [suggestions, setSuggestions] = useState<TagSuggestion[]>([]);
+  const [highlighted, setHighlighted] = useState(-1);
+  const { request } = useApi();
+
+  useEffect(() => {
+    const prefix = normalizeTag(input);
+    if (!prefix) {
+      setSuggestions([]);
+      return;
+    }
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        const data: TagSuggestion[] = await request(`/tags?q=${encodeURIComponent(prefix)}`);
+        setSuggestions((data || []).filter(suggestion => !tags.includes(suggestion.name)));
+        setHighlighted(-1);
+      } catch {
+        setSuggestions([]);
+      }
+    }, 200);
+
+    return () => clearTimeout(timeoutId);
+  }, [input, tags, request]);
+
+  const saveTags = async (next: string[]) => {
+    try {
+      const data = await request(`/documents/${documentId}/tags`, {
+        method: 'PUT',
+        body: { tags: next }
+      });
+      onChange(data.tags);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to update tags');
+    }
+  };
+
+  const addTag = async (name: string) => {
+    const tag = normalizeTag(name);
+    setInput('');
+    setSuggestions([]);
+    if (!tag || tags.includes(tag)) return;
+    await saveTags([...tags, tag]);
+  };
+
+  const closeInput = () => {
+    setAdding(false);
+    setInput('');
+    setSuggestions([]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(highlighted >= 0 ? suggestions[highlighted].name : input);
+    } else if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Escape') {
+      closeInput();
+    } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+      saveTags(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="flex items-center flex-wrap gap-1">
+      {tags.map((tag) => (
+        <TagChip
+          key={tag}
+          name={tag}
+          onRemove={editable ? () => saveTags(tags.filter(t => t !== tag)) : undefined}
+        />
+      ))}
+
+      {editable && (adding ? (
+        <div className="relative">
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onBlur={closeInput}
+            placeholder="Add tag..."
+            maxLength={40}
+            autoFocus
+            className="w-32 px-2 py-0.5 text-xs border border-gray-300 rounded-full focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {suggestions.length > 0 && (
+            <div className="absolute left-0 top-7 w-48 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-10">
+              {suggestions.map((suggestion, index) => (
+                <button
+                  key={suggestion.name}
+                  // Keep focus in the input so picking a suggestion does not close it
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => addTag(suggestion.name)}
+                  className={`w-full flex items-center justify-between px-3 py-1.5 text-xs text-left transition-colors ${
+                    index === highlighted ? 'bg-gray-100' : 'hover:bg-gray-100'
+                  }`}
+                >
+                  <span className="text-gray-900">#{suggestion.name}</span>
+                  <span className="text-gray-400">{suggestion.count}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      ) : (
+        <button
+          onClick={() => setAdding(true)}
+          className="inline-flex items-center px-2 py-0.5 text-xs text-gray-500 border border-dashed border-gray-300 rounded-full hover:text-gray-700 hover:border-gray-400 transition-colors"
+        >
+          <Plus className="h-3 w-3 mr-0.5" />
+          Tag
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default TagEditor;
@@ -6,4 +6,9 @@ const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || 'your-supabase
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
 // API base URL
-export const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
\ No newline at end of file
+export const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+// Real-time WebSocket URLs (served by the API server)
+const WS_BASE_URL = API_BASE_URL.replace(/^http/, 'ws').replace(/\/api\/?$/, '');
+export const COLLAB_URL = import.meta.env.VITE_COLLAB_URL || `${WS_BASE_URL}/collaboration`;
+export const PRESENCE_URL = import.meta.env.VITE_PRESENCE_URL || `${WS_BASE_URL}/presence`;
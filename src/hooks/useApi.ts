@@ -1,12 +1,28 @@
 import { useState, useCallback } from 'react';
 import { useAuthStore } from '../store/authStore';
 import { API_BASE_URL } from '../config/supabase';
+import { refreshAccessToken } from '../utils/authSession';
 import toast from 'react-hot-toast';
 
 interface ApiOptions {
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
   body?: any;
   requireAuth?: boolean;
+  headers?: Record<string, string>;
+}
+
+// Thrown for error responses, keeping the status and body for callers that
+// handle particular errors, e.g. 409 Conflict on document saves
+export class ApiError extends Error {
+  status: number;
+  data: unknown;
+
+  constructor(message: string, status: number, data: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+  }
 }
 
 export const useApi = () => {
@@ -20,35 +36,51 @@ export const useApi = () => {
     const {
       method = 'GET',
       body,
-      requireAuth = true
+      requireAuth = true,
+      headers: extraHeaders
     } = options;
 
     setLoading(true);
 
     try {
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
+      const sendAuth = requireAuth && !!token;
+
+      const send = (accessToken: string | null) => {
+        const headers: Record<string, string> = {
+          'Content-Type': 'application/json',
+          ...extraHeaders,
+        };
+
+        if (sendAuth && accessToken) {
+          headers.Authorization = `Bearer ${accessToken}`;
+        }
+
+        return fetch(`${API_BASE_URL}${endpoint}`, {
+          method,
+          headers,
+          ...(body && { body: JSON.stringify(body) }),
+        });
       };
 
-      if (requireAuth && token) {
-        headers.Authorization = `Bearer ${token}`;
-      }
+      let response = await send(token);
 
-      const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-        method,
-        headers,
-        ...(body && { body: JSON.stringify(body) }),
-      });
+      // Access tokens are short-lived: renew it and try once more
+      if (response.status === 401 && sendAuth) {
+        const renewed = await refreshAccessToken(token);
+        if (renewed) {
+          response = await send(renewed);
+        }
+      }
 
       const data = await response.json();
 
       if (!response.ok) {
-        if (response.status === 401) {
+        if (response.status === 401 && sendAuth) {
           logout();
           toast.error('Session expired. Please login again.');
           return;
         }
-        throw new Error(data.error || 'Request failed');
+        throw new ApiError(data.error || 'Request failed', response.status, data);
       }
 
       return data;
@@ -0,0 +1,72 @@
+import { useCallback } from 'react';
+import { useAuthStore } from '../store/authStore';
+import { API_BASE_URL } from '../config/supabase';
+import { dispositionFilename } from '../utils/download';
+import { refreshAccessToken } from '../utils/authSession';
+
+export interface Attachment {
+  id: string;
+  document_id: string;
+  filename: string;
+  content_type: string;
+  size: number;
+  created_at: string;
+  // Path the content links to, /api/attachments/:id
+  url: string;
+}
+
+// Attachments are sent and fetched as raw files rather than JSON, so they
+// bypass useApi. `extraHeaders` carry share link credentials where needed.
+export const useAttachments = (extraHeaders?: Record<string, string>) => {
+  const { token } = useAuthStore();
+
+  // Sends the request again with a renewed access token if it had expired
+  const send = useCallback(async (url: string, init: RequestInit & { headers?: Record<string, string> } = {}) => {
+    const attempt = (accessToken: string | null) => fetch(url, {
+      ...init,
+      headers: {
+        ...extraHeaders,
+        ...init.headers,
+        ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
+      },
+    });
+
+    const response = await attempt(token);
+    if (response.status !== 401 || !token) return response;
+
+    const renewed = await refreshAccessToken(token);
+    return renewed ? attempt(renewed) : response;
+  }, [extraHeaders, token]);
+
+  const uploadAttachment = useCallback(async (documentId: string, file: File): Promise<Attachment> => {
+    const params = new URLSearchParams({ documentId, filename: file.name });
+    const response = await send(`${API_BASE_URL}/attachments?${params}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: file,
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `Failed to upload ${file.name}`);
+    }
+    return data;
+  }, [send]);
+
+  // `url` is the /api/attachments/:id path stored in the content
+  const fetchAttachment = useCallback(async (url: string) => {
+    const response = await send(`${API_BASE_URL}${url.replace(/^\/api/, '')}`);
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to load attachment');
+    }
+
+    return {
+      blob: await response.blob(),
+      filename: dispositionFilename(response.headers.get('Content-Disposition')) || 'attachment',
+    };
+  }, [send]);
+
+  return { uploadAttachment, fetchAttachment };
+};
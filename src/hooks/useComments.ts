@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useApi } from './useApi';
+import { CommentAnchor } from '../components/Editor/commentAnchors';
+
+interface CommentUser {
+  id: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+}
+
+export interface Comment {
+  id: string;
+  body: string;
+  created_at: string;
+  author: CommentUser | null;
+}
+
+export interface CommentThread {
+  id: string;
+  anchor_start: string;
+  anchor_end: string;
+  quoted_text: string;
+  created_at: string;
+  resolved_at: string | null;
+  resolved_by_user: CommentUser | null;
+  comments: Comment[];
+}
+
+// Comments from other people show up without a reload
+const POLL_INTERVAL = 30000;
+
+export const useComments = (documentId: string | undefined, enabled: boolean) => {
+  const [threads, setThreads] = useState<CommentThread[]>([]);
+  const { request } = useApi();
+
+  const fetchThreads = useCallback(async () => {
+    if (!documentId || !enabled) return;
+    try {
+      const data = await request(`/documents/${documentId}/comments`);
+      if (data) setThreads(data);
+    } catch {
+      // Keep the threads we have; the next poll will retry
+    }
+  }, [documentId, enabled, request]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setThreads([]);
+      return;
+    }
+
+    fetchThreads();
+    const intervalId = setInterval(fetchThreads, POLL_INTERVAL);
+    return () => clearInterval(intervalId);
+  }, [enabled, fetchThreads]);
+
+  const replaceThread = (thread: CommentThread) => {
+    setThreads(prev =>
+      prev.some(t => t.id === thread.id)
+        ? prev.map(t => (t.id === thread.id ? thread : t))
+        : [...prev, thread]
+    );
+    return thread;
+  };
+
+  const createThread = async (anchor: CommentAnchor, body: string) => {
+    const thread = await request(`/documents/${documentId}/comments`, {
+      method: 'POST',
+      body: { ...anchor, body }
+    });
+    return replaceThread(thread);
+  };
+
+  const reply = async (threadId: string, body: string) => {
+    const thread = await request(`/documents/${documentId}/comments/${threadId}/replies`, {
+      method: 'POST',
+      body: { body }
+    });
+    return replaceThread(thread);
+  };
+
+  const setResolved = async (threadId: string, resolved: boolean) => {
+    const thread = await request(`/documents/${documentId}/comments/${threadId}`, {
+      method: 'PUT',
+      body: { resolved }
+    });
+    return replaceThread(thread);
+  };
+
+  return { threads, createThread, reply, setResolved };
+};
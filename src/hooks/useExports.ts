@@ -0,0 +1,42 @@
+import { useCallback } from 'react';
+import { useApi } from './useApi';
+import { useAttachments } from './useAttachments';
+import { BackgroundJob, useJobPolling } from './useJobPolling';
+import { downloadBlob } from '../utils/download';
+
+export type ExportFormat = 'pdf' | 'html' | 'zip';
+
+export interface ExportJob extends BackgroundJob {
+  format: ExportFormat;
+  document_id: string | null;
+  include_versions: boolean;
+  filename: string | null;
+  file_size: number | null;
+  expires_at: string | null;
+  document: { id: string; title: string } | null;
+}
+
+export const useExports = () => {
+  const { request } = useApi();
+  const { waitForJob } = useJobPolling();
+  // Export files are fetched raw with the user's credentials, like attachments
+  const { fetchAttachment } = useAttachments();
+
+  const startExport = useCallback(async (
+    options: { format: ExportFormat; documentId?: string; includeVersions?: boolean }
+  ): Promise<ExportJob> => request('/exports', { method: 'POST', body: options }), [request]);
+
+  // Poll an export until it completes or fails, reporting each update.
+  // Resolves with null when polling is aborted through `signal`.
+  const waitForExport = useCallback((
+    jobId: string,
+    options: { onUpdate?: (job: ExportJob) => void; signal?: AbortSignal } = {}
+  ) => waitForJob<ExportJob>(`/exports/${jobId}`, options), [waitForJob]);
+
+  const downloadExport = useCallback(async (job: ExportJob) => {
+    const { filename, blob } = await fetchAttachment(`/api/exports/${job.id}/download`);
+    downloadBlob(job.filename || filename, blob);
+  }, [fetchAttachment]);
+
+  return { startExport, waitForExport, downloadExport };
+};
@@ -0,0 +1,67 @@
+import { useCallback } from 'react';
+import { useApi } from './useApi';
+import { BackgroundJob, useJobPolling } from './useJobPolling';
+
+export type ImportSource = 'confluence' | 'notion';
+
+export interface ImportFailure {
+  path: string;
+  message: string;
+}
+
+export interface ImportJob extends BackgroundJob {
+  source: ImportSource;
+  filename: string;
+  space_id: string | null;
+  parent_id: string | null;
+  created_count: number;
+  updated_count: number;
+  attachment_count: number;
+  failures: ImportFailure[];
+  space: { id: string; name: string } | null;
+  parent: { id: string; title: string } | null;
+}
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  confluence: 'Confluence',
+  notion: 'Notion'
+};
+
+export const useImports = () => {
+  const { request } = useApi();
+  const { waitForJob } = useJobPolling();
+
+  // Archives are uploaded straight to storage, then imported from there
+  const startImport = useCallback(async (
+    file: File,
+    options: { source: ImportSource; spaceId?: string | null; parentId?: string | null }
+  ): Promise<ImportJob> => {
+    const { path, uploadUrl } = await request('/imports/uploads', { method: 'POST' });
+
+    const upload = await fetch(uploadUrl, {
+      method: 'PUT',
+      headers: { 'Content-Type': file.type || 'application/zip' },
+      body: file
+    });
+    if (!upload.ok) {
+      throw new Error('Failed to upload the archive');
+    }
+
+    return request('/imports', {
+      method: 'POST',
+      body: { ...options, uploadPath: path, filename: file.name }
+    });
+  }, [request]);
+
+  const rerunImport = useCallback(async (jobId: string): Promise<ImportJob> =>
+    request(`/imports/${jobId}/rerun`, { method: 'POST' }), [request]);
+
+  // Poll an import until it completes or fails, reporting each update.
+  // Resolves with null when polling is aborted through `signal`.
+  const waitForImport = useCallback((
+    jobId: string,
+    options: { onUpdate?: (job: ImportJob) => void; signal?: AbortSignal } = {}
+  ) => waitForJob<ImportJob>(`/imports/${jobId}`, options), [waitForJob]);
+
+  return { startImport, rerunImport, waitForImport };
+};
@@ -0,0 +1,50 @@
+import { useCallback } from 'react';
+import { useApi } from './useApi';
+
+// Columns shared by the export and import job tables
+export interface BackgroundJob {
+  id: string;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  progress: number;
+  processed_items: number;
+  total_items: number | null;
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+// Polling backs off so long jobs do not use up the API rate limit
+const FIRST_POLL_DELAY = 1000;
+const MAX_POLL_DELAY = 10000;
+
+export const isJobActive = (job: BackgroundJob) => job.status === 'queued' || job.status === 'running';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const useJobPolling = () => {
+  const { request } = useApi();
+
+  // Poll a job until it completes or fails, reporting each update. Resolves
+  // with null when polling is aborted through `signal`.
+  const waitForJob = useCallback(async <T extends BackgroundJob>(
+    endpoint: string,
+    { onUpdate, signal }: { onUpdate?: (job: T) => void; signal?: AbortSignal } = {}
+  ): Promise<T | null> => {
+    let delay = FIRST_POLL_DELAY;
+
+    for (;;) {
+      await wait(delay);
+      if (signal?.aborted) return null;
+
+      const job: T | undefined = await request(endpoint);
+      if (!job) throw new Error('Job not found');
+
+      onUpdate?.(job);
+      if (!isJobActive(job)) return job;
+      delay = Math.min(delay * 1.5, MAX_POLL_DELAY);
+    }
+  }, [request]);
+
+  return { waitForJob };
+};
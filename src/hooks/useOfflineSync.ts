@@ -0,0 +1,95 @@
+import { useEffect, useRef, useState } from 'react';
+import { ApiError, useApi } from './useApi';
+import { useAuthStore } from '../store/authStore';
+import {
+  SavedCopy,
+  getQueuedSaves,
+  isOpenInEditor,
+  markSaveConflict,
+  removeQueuedSave,
+  settleQueuedSave,
+  updateCachedDocument
+} from '../utils/offlineCache';
+import toast from 'react-hot-toast';
+
+export const useOnlineStatus = () => {
+  const [online, setOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    const handleOnline = () => setOnline(true);
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  return online;
+};
+
+// Replays saves queued while offline (see DocumentEditor) when the app starts
+// and whenever the connection comes back. Saves carry the version they were
+// based on, so one that would overwrite newer changes is kept for merging
+// the next time its document is opened. Mounted once, in App.
+export const useOfflineSync = () => {
+  const online = useOnlineStatus();
+  const { user } = useAuthStore();
+  const { request } = useApi();
+  const replaying = useRef(false);
+  const userId = user?.id ?? null;
+
+  useEffect(() => {
+    if (!online || replaying.current) return;
+    replaying.current = true;
+
+    const replay = async () => {
+      let synced = 0;
+
+      for (const save of await getQueuedSaves(userId)) {
+        if (save.conflict || isOpenInEditor(save.documentId)) continue;
+
+        try {
+          const saved = await request(`/documents/${save.documentId}`, {
+            method: 'PUT',
+            body: { title: save.title, content: save.content, baseVersion: save.base.version },
+            headers: save.headers
+          });
+          // Signed out; the save stays queued for the next sign-in
+          if (!saved) return;
+
+          await settleQueuedSave(save, saved);
+          await updateCachedDocument(userId, save.documentId, saved);
+          synced += 1;
+        } catch (error) {
+          if (!(error instanceof ApiError)) return;
+
+          if (error.status === 409) {
+            const { document: theirs } = error.data as { document: SavedCopy };
+            await markSaveConflict(save, theirs);
+            toast.error(`"${save.title}" was changed while you were offline. Open it to merge your changes.`);
+          } else if (error.status === 403 || error.status === 404) {
+            // The document is gone or can no longer be edited
+            await removeQueuedSave(userId, save.documentId);
+            toast.error(`Your offline changes to "${save.title}" could not be saved: ${error.message}`);
+          } else {
+            // The server is struggling, rate limiting or wants a new sign-in;
+            // the save stays queued and the rest wait for the next pass
+            break;
+          }
+        }
+      }
+
+      if (synced > 0) {
+        toast.success(`Synced offline changes to ${synced} document${synced === 1 ? '' : 's'}`);
+      }
+    };
+
+    replay()
+      .catch(error => console.error('Offline sync failed:', error))
+      .finally(() => {
+        replaying.current = false;
+      });
+  }, [online, userId, request]);
+};
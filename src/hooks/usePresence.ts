@@ -0,0 +1,82 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAuthStore } from '../store/authStore';
+import { PRESENCE_URL } from '../config/supabase';
+import { getFreshAccessToken } from '../utils/authSession';
+
+export interface PresenceUser {
+  id: string;
+  firstName: string;
+  lastName: string;
+  mode: 'viewing' | 'editing';
+}
+
+const RECONNECT_DELAY = 3000;
+
+// Close code the server uses when the user may not see the document
+const ACCESS_DENIED = 4403;
+
+export const usePresence = (documentId: string | undefined, editing: boolean) => {
+  const [users, setUsers] = useState<PresenceUser[]>([]);
+  const { token } = useAuthStore();
+  const signedIn = !!token;
+  const socketRef = useRef<WebSocket | null>(null);
+  const editingRef = useRef(editing);
+
+  useEffect(() => {
+    if (!documentId || !signedIn) return;
+
+    let closed = false;
+    let retry: ReturnType<typeof setTimeout>;
+
+    const connect = () => {
+      const socket = new WebSocket(PRESENCE_URL);
+      socketRef.current = socket;
+
+      socket.onopen = async () => {
+        // Access tokens expire, so each (re)connect asks for a current one
+        const accessToken = await getFreshAccessToken().catch(() => null);
+        if (!accessToken || socket.readyState !== WebSocket.OPEN) return;
+
+        socket.send(JSON.stringify({
+          type: 'join',
+          documentId,
+          token: accessToken,
+          mode: editingRef.current ? 'editing' : 'viewing'
+        }));
+      };
+
+      socket.onmessage = (event) => {
+        const message = JSON.parse(event.data);
+        if (message.type === 'presence') {
+          setUsers(message.users);
+        }
+      };
+
+      socket.onclose = (event) => {
+        setUsers([]);
+        if (!closed && event.code !== ACCESS_DENIED) {
+          retry = setTimeout(connect, RECONNECT_DELAY);
+        }
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(retry);
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, [documentId, signedIn]);
+
+  useEffect(() => {
+    editingRef.current = editing;
+    const socket = socketRef.current;
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ type: 'mode', mode: editing ? 'editing' : 'viewing' }));
+    }
+  }, [editing]);
+
+  return users;
+};
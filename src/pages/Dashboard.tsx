@@ -1,11 +1,32 @@
-import React from 'react';
-import { Plus } from 'lucide-react';
-import { Link } from 'react-router-dom';
+import React, { useEffect, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Link, useSearchParams } from 'react-router-dom';
 import DocumentList from '../components/Documents/DocumentList';
+import { useApi } from '../hooks/useApi';
 import { useAuthStore } from '../store/authStore';
 
+interface TagCount {
+  name: string;
+  count: number;
+}
+
 const Dashboard: React.FC = () => {
+  const [tags, setTags] = useState<TagCount[]>([]);
+  // The tag filter lives in the URL so tag chips can link to it
+  const [searchParams, setSearchParams] = useSearchParams();
   const { user } = useAuthStore();
+  const { request } = useApi();
+  const tag = searchParams.get('tag');
+
+  useEffect(() => {
+    request('/tags')
+      .then(data => setTags(data || []))
+      .catch(() => setTags([]));
+  }, [request]);
+
+  const setTag = (name: string) => {
+    setSearchParams(name ? { tag: name } : {});
+  };
 
   return (
     <div className="flex-1 overflow-auto">
@@ -94,11 +115,41 @@ const Dashboard: React.FC = () => {
 
         {/* Recent Documents */}
         <div className="bg-white rounded-lg border border-gray-200">
-          <div className="px-6 py-4 border-b border-gray-200">
-            <h2 className="text-lg font-medium text-gray-900">Recent Documents</h2>
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <h2 className="text-lg font-medium text-gray-900">
+              {tag ? `Documents tagged #${tag}` : 'Recent Documents'}
+            </h2>
+            {(tags.length > 0 || tag) && (
+              <div className="flex items-center space-x-2">
+                <select
+                  value={tag || ''}
+                  onChange={(e) => setTag(e.target.value)}
+                  className="border border-gray-300 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">All tags</option>
+                  {tag && !tags.some(t => t.name === tag) && (
+                    <option value={tag}>#{tag}</option>
+                  )}
+                  {tags.map((t) => (
+                    <option key={t.name} value={t.name}>
+                      #{t.name} ({t.count})
+                    </option>
+                  ))}
+                </select>
+                {tag && (
+                  <button
+                    onClick={() => setTag('')}
+                    className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                    aria-label="Clear tag filter"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            )}
           </div>
           <div className="p-6">
-            <DocumentList />
+            <DocumentList tag={tag} />
           </div>
         </div>
       </div>
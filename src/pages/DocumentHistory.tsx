@@ -0,0 +1,275 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { ArrowLeft, History, Columns, AlignLeft, RotateCcw } from 'lucide-react';
+import { useApi } from '../hooks/useApi';
+import { useAuthStore } from '../store/authStore';
+import DiffViewer from '../components/History/DiffViewer';
+import { diffHtml, summarizeDiff } from '../utils/htmlDiff';
+import { format, formatDistanceToNow } from 'date-fns';
+import toast from 'react-hot-toast';
+
+interface DocumentVersion {
+  id: string;
+  document_id: string;
+  version_number: number;
+  title: string;
+  content: string;
+  created_at: string;
+  change_summary: string | null;
+  created_by_user: {
+    id: string;
+    first_name: string;
+    last_name: string;
+    email: string;
+  } | null;
+}
+
+interface DocumentSummary {
+  id: string;
+  title: string;
+  author: {
+    id: string;
+  };
+  userPermission?: 'view' | 'comment' | 'edit';
+}
+
+const DocumentHistory: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const [document, setDocument] = useState<DocumentSummary | null>(null);
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [mode, setMode] = useState<'inline' | 'split'>('split');
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState<string | null>(null);
+  const { request } = useApi();
+  const { user } = useAuthStore();
+
+  useEffect(() => {
+    if (id) {
+      fetchHistory();
+    }
+  }, [id]);
+
+  const fetchHistory = async () => {
+    try {
+      const [doc, data] = await Promise.all([
+        request(`/documents/${id}`, { requireAuth: false }),
+        request(`/documents/${id}/versions`)
+      ]);
+
+      setDocument(doc);
+      setVersions(data || []);
+
+      // Versions come back newest first: compare the latest with the one before it
+      if (data && data.length > 0) {
+        setCompareId(data[0].id);
+        setBaseId((data[1] || data[0]).id);
+      }
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to fetch version history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const [base, compare] = useMemo(() => {
+    const a = versions.find(v => v.id === baseId);
+    const b = versions.find(v => v.id === compareId);
+    if (!a || !b) return [a, b];
+    // Always diff from the older version to the newer one
+    return a.version_number <= b.version_number ? [a, b] : [b, a];
+  }, [versions, baseId, compareId]);
+
+  const parts = useMemo(
+    () => (base && compare ? diffHtml(base.content, compare.content) : []),
+    [base, compare]
+  );
+
+  const summary = useMemo(() => summarizeDiff(parts), [parts]);
+
+  const canEdit = () => {
+    if (!document || !user) return false;
+    return document.author.id === user.id || document.userPermission === 'edit';
+  };
+
+  const handleRestore = async (version: DocumentVersion) => {
+    if (!confirm(`Restore version ${version.version_number}? The current content will be kept in the history.`)) return;
+
+    setRestoring(version.id);
+    try {
+      await request(`/documents/${id}/versions/${version.id}/restore`, {
+        method: 'POST'
+      });
+      toast.success(`Restored version ${version.version_number}`);
+      await fetchHistory();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to restore version');
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const authorName = (version: DocumentVersion) =>
+    version.created_by_user
+      ? `${version.created_by_user.first_name} ${version.created_by_user.last_name}`
+      : 'Unknown user';
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Header */}
+      <div className="flex items-center justify-between p-6 border-b border-gray-200 bg-white">
+        <div className="flex items-center space-x-4">
+          <Link
+            to={`/documents/${id}`}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+          <div className="flex items-center space-x-2">
+            <History className="h-5 w-5 text-gray-400" />
+            <h1 className="text-xl font-semibold text-gray-900">
+              Version history: {document?.title || 'Untitled Document'}
+            </h1>
+          </div>
+        </div>
+
+        <div className="flex items-center bg-gray-100 rounded-lg p-1">
+          <button
+            onClick={() => setMode('split')}
+            className={`flex items-center space-x-1 px-3 py-1.5 rounded-md text-sm transition-colors ${
+              mode === 'split' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            <Columns className="h-4 w-4" />
+            <span>Side by side</span>
+          </button>
+          <button
+            onClick={() => setMode('inline')}
+            className={`flex items-center space-x-1 px-3 py-1.5 rounded-md text-sm transition-colors ${
+              mode === 'inline' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            <AlignLeft className="h-4 w-4" />
+            <span>Inline</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-1 overflow-hidden">
+        {/* Version list */}
+        <div className="w-80 border-r border-gray-200 bg-white overflow-auto">
+          <div className="grid grid-cols-[2rem_2rem_1fr] px-4 py-2 text-xs font-medium text-gray-500 border-b border-gray-200">
+            <span title="Compare from">From</span>
+            <span title="Compare to">To</span>
+            <span>Version</span>
+          </div>
+          {versions.map((version) => (
+            <div
+              key={version.id}
+              className={`grid grid-cols-[2rem_2rem_1fr] px-4 py-3 border-b border-gray-100 ${
+                version.id === compareId || version.id === baseId ? 'bg-blue-50' : ''
+              }`}
+            >
+              <input
+                type="radio"
+                name="base-version"
+                checked={version.id === baseId}
+                onChange={() => setBaseId(version.id)}
+                className="mt-1"
+              />
+              <input
+                type="radio"
+                name="compare-version"
+                checked={version.id === compareId}
+                onChange={() => setCompareId(version.id)}
+                className="mt-1"
+              />
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900">
+                  Version {version.version_number}
+                </p>
+                <p className="text-xs text-gray-600 truncate">{authorName(version)}</p>
+                <p className="text-xs text-gray-500" title={format(new Date(version.created_at), 'PPpp')}>
+                  {formatDistanceToNow(new Date(version.created_at))} ago
+                </p>
+                {version.change_summary && (
+                  <p className="text-xs text-gray-500 italic truncate">{version.change_summary}</p>
+                )}
+                {canEdit() && version.id !== versions[0].id && (
+                  <button
+                    onClick={() => handleRestore(version)}
+                    disabled={restoring !== null}
+                    className="flex items-center space-x-1 mt-2 text-xs text-blue-600 hover:text-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                    <span>{restoring === version.id ? 'Restoring...' : 'Restore this version'}</span>
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Diff */}
+        <div className="flex-1 overflow-auto bg-white">
+          {base && compare ? (
+            <div className="p-6">
+              <div className="flex items-center justify-between mb-6">
+                <div className="text-sm text-gray-600">
+                  Comparing <span className="font-medium">v{base.version_number}</span>
+                  {' '}({authorName(base)}) with{' '}
+                  <span className="font-medium">v{compare.version_number}</span>
+                  {' '}({authorName(compare)})
+                </div>
+                <div className="flex items-center space-x-3 text-xs">
+                  <span className="bg-green-100 text-green-800 px-2 py-1 rounded">
+                    +{summary.added} words
+                  </span>
+                  <span className="bg-red-100 text-red-800 px-2 py-1 rounded">
+                    -{summary.removed} words
+                  </span>
+                  <span className="bg-yellow-100 text-yellow-800 px-2 py-1 rounded">
+                    {summary.formatted} formatting changes
+                  </span>
+                </div>
+              </div>
+
+              {base.title !== compare.title && (
+                <div className="mb-4 text-sm">
+                  <span className="text-gray-500">Title: </span>
+                  <span className="bg-red-100 text-red-800 line-through px-1">{base.title}</span>
+                  {' '}
+                  <span className="bg-green-100 text-green-900 px-1">{compare.title}</span>
+                </div>
+              )}
+
+              {mode === 'split' && (
+                <div className="grid grid-cols-2 mb-2 text-xs font-medium text-gray-500 uppercase tracking-wide">
+                  <span>Version {base.version_number}</span>
+                  <span className="pl-6">Version {compare.version_number}</span>
+                </div>
+              )}
+
+              <DiffViewer parts={parts} mode={mode} />
+            </div>
+          ) : (
+            <div className="flex items-center justify-center h-full text-gray-500">
+              No versions to compare.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentHistory;
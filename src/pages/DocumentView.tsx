@@ -1,5 +1,5 @@
-import React, { useEffect, useState } from 'react';
-import { useParams, Link } from 'react-router-dom';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
 import { 
   ArrowLeft, 
   Edit, 
@@ -8,11 +8,25 @@ import {
   User,
   Globe,
   Lock,
-  History
+  History,
+  Eye,
+  EyeOff,
+  MessageSquare,
+  ChevronRight,
+  FilePlus,
+  LayoutTemplate
 } from 'lucide-react';
-import { useApi } from '../hooks/useApi';
+import { ApiError, useApi } from '../hooks/useApi';
 import { useAuthStore } from '../store/authStore';
 import DocumentEditor from '../components/Editor/DocumentEditor';
+import PresenceAvatars from '../components/Presence/PresenceAvatars';
+import CommentsPanel from '../components/Comments/CommentsPanel';
+import TagEditor from '../components/Tags/TagEditor';
+import ExportMenu from '../components/Documents/ExportMenu';
+import { CommentAnchor } from '../components/Editor/commentAnchors';
+import { usePresence } from '../hooks/usePresence';
+import { useComments } from '../hooks/useComments';
+import { cacheDocument, getCachedDocument, hasCollabState, updateCachedDocument } from '../utils/offlineCache';
 import { formatDistanceToNow } from 'date-fns';
 import toast from 'react-hot-toast';
 
@@ -21,6 +35,7 @@ interface Document {
   title: string;
   content: string;
   is_public: boolean;
+  space_id: string | null;
   created_at: string;
   updated_at: string;
   version: number;
@@ -30,16 +45,56 @@ interface Document {
     last_name: string;
     email: string;
   };
-  userPermission?: 'view' | 'edit';
+  userPermission?: 'view' | 'comment' | 'edit';
+  tags: string[];
+  ancestors: {
+    id: string;
+    title: string;
+  }[];
 }
 
 const DocumentView: React.FC = () => {
   const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
   const [document, setDocument] = useState<Document | null>(null);
   const [loading, setLoading] = useState(true);
+  // Shown from the copy kept on this device because the server is unreachable
+  const [offlineCopy, setOfflineCopy] = useState(false);
+  // The collaborative state is kept on this device as well, so the offline
+  // copy is edited collaboratively and merged once the server is back
+  const [offlineCollab, setOfflineCollab] = useState(false);
   const [editMode, setEditMode] = useState(false);
+  const [watching, setWatching] = useState(false);
+  const [showComments, setShowComments] = useState(false);
+  const [activeCommentId, setActiveCommentId] = useState<string | null>(null);
+  const [commentDraft, setCommentDraft] = useState<CommentAnchor | null>(null);
   const { request } = useApi();
   const { user } = useAuthStore();
+  const presence = usePresence(document?.id, editMode);
+  const collaborators = presence.filter(member => member.id !== user?.id);
+  const { threads, createThread, reply, setResolved } = useComments(document?.id, !!user);
+
+  // Search results link here with the terms they matched
+  const highlightParam = searchParams.getAll('highlight').join('\n');
+  const highlightTerms = useMemo(
+    () => (highlightParam ? highlightParam.split('\n') : []),
+    [highlightParam]
+  );
+
+  // Resolved threads stay listed in the panel but are no longer highlighted
+  const highlightedThreads = useMemo(
+    () =>
+      threads
+        .filter(thread => !thread.resolved_at)
+        .map(thread => ({
+          id: thread.id,
+          anchorStart: thread.anchor_start,
+          anchorEnd: thread.anchor_end,
+          quotedText: thread.quoted_text
+        })),
+    [threads]
+  );
+  const openThreadCount = highlightedThreads.length;
 
   useEffect(() => {
     if (id) {
@@ -47,40 +102,121 @@ const DocumentView: React.FC = () => {
     }
   }, [id]);
 
+  useEffect(() => {
+    if (id && user) {
+      request(`/documents/${id}/watch`)
+        .then(data => setWatching(!!data?.watching))
+        .catch(() => setWatching(false));
+    }
+  }, [id, user, request]);
+
+  const toggleWatch = async () => {
+    try {
+      const data = await request(`/documents/${id}/watch`, {
+        method: watching ? 'DELETE' : 'POST'
+      });
+      setWatching(data.watching);
+      toast.success(data.watching ? 'You will be notified of new versions' : 'Stopped watching this document');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to update watch status');
+    }
+  };
+
   const fetchDocument = async () => {
     try {
       const data = await request(`/documents/${id}`, { requireAuth: false });
       setDocument(data);
+      setOfflineCopy(false);
+      if (data && user) {
+        cacheDocument(user.id, data).catch(() => undefined);
+      }
     } catch (error: any) {
-      toast.error(error.message || 'Failed to fetch document');
+      const cached = !(error instanceof ApiError) && user && id
+        ? await getCachedDocument<Document>(user.id, id).catch(() => null)
+        : null;
+
+      if (cached) {
+        const collab = user && id ? await hasCollabState(user.id, id).catch(() => false) : false;
+        setDocument(cached);
+        setOfflineCopy(true);
+        setOfflineCollab(collab);
+        toast('You are offline. Showing the copy saved on this device.');
+      } else {
+        toast.error(error.message || 'Failed to fetch document');
+      }
     } finally {
       setLoading(false);
     }
   };
 
-  const handleSave = async (title: string, content: string) => {
+  const handleSave = async (title: string, content?: string, baseVersion?: number) => {
     if (!document) return;
 
     try {
       const updated = await request(`/documents/${document.id}`, {
         method: 'PUT',
-        body: { title, content }
+        body: { title, ...(content !== undefined && { content, baseVersion }) }
       });
       
-      setDocument(updated);
-      setEditMode(false);
-      toast.success('Document saved successfully');
+      // The editor confirms saves itself, and auto-saves and replayed
+      // offline edits land here too, so edit mode stays as it is
+      setDocument({ ...document, ...updated });
+      if (user) {
+        updateCachedDocument(user.id, document.id, updated).catch(() => undefined);
+      }
+      return updated;
     } catch (error: any) {
-      toast.error(error.message || 'Failed to save document');
+      // The editor opens the merge view for conflicts and keeps the edits on
+      // this device when the server cannot be reached
+      if (error instanceof ApiError && error.status !== 409) {
+        toast.error(error.message || 'Failed to save document');
+      }
       throw error;
     }
   };
 
+  // Documents in a space become templates for the whole space
+  const handleSaveAsTemplate = async () => {
+    if (!document) return;
+    const name = prompt('Template name', document.title);
+    if (!name?.trim()) return;
+
+    try {
+      await request('/templates', {
+        method: 'POST',
+        body: { documentId: document.id, name, spaceId: document.space_id }
+      });
+      toast.success(document.space_id ? 'Saved as a template for this space' : 'Saved as a personal template');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to save template');
+    }
+  };
+
   const canEdit = () => {
     if (!document || !user) return false;
     return document.author.id === user.id || document.userPermission === 'edit';
   };
 
+  const canComment = () => canEdit() || document?.userPermission === 'comment';
+
+  const handleStartComment = (anchor: CommentAnchor) => {
+    setCommentDraft(anchor);
+    setActiveCommentId(null);
+    setShowComments(true);
+  };
+
+  const handleSelectComment = (threadId: string | null) => {
+    setActiveCommentId(threadId);
+    if (threadId) setShowComments(true);
+  };
+
+  const handleCreateComment = async (body: string) => {
+    if (!commentDraft) return;
+    const thread = await createThread(commentDraft, body);
+    setCommentDraft(null);
+    setActiveCommentId(thread.id);
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -119,19 +255,48 @@ const DocumentView: React.FC = () => {
             <ArrowLeft className="h-5 w-5" />
           </Link>
           
-          <div className="flex items-center space-x-2">
-            {document.is_public ? (
-              <Globe className="h-5 w-5 text-green-500" title="Public" />
-            ) : (
-              <Lock className="h-5 w-5 text-gray-400" title="Private" />
+          <div>
+            {document.ancestors.length > 0 && (
+              <nav className="flex items-center flex-wrap text-sm text-gray-500 mb-1">
+                {document.ancestors.map((ancestor) => (
+                  <React.Fragment key={ancestor.id}>
+                    <Link
+                      to={`/documents/${ancestor.id}`}
+                      className="hover:text-gray-900 hover:underline truncate max-w-[12rem]"
+                    >
+                      {ancestor.title || 'Untitled Document'}
+                    </Link>
+                    <ChevronRight className="h-3 w-3 mx-1 flex-shrink-0" />
+                  </React.Fragment>
+                ))}
+              </nav>
+            )}
+            <div className="flex items-center space-x-2">
+              {document.is_public ? (
+                <Globe className="h-5 w-5 text-green-500" title="Public" />
+              ) : (
+                <Lock className="h-5 w-5 text-gray-400" title="Private" />
+              )}
+              <h1 className="text-xl font-semibold text-gray-900">
+                {document.title || 'Untitled Document'}
+              </h1>
+            </div>
+            {(canEdit() || document.tags.length > 0) && (
+              <div className="mt-2">
+                <TagEditor
+                  documentId={document.id}
+                  tags={document.tags}
+                  editable={canEdit()}
+                  onChange={(tags) => setDocument({ ...document, tags })}
+                />
+              </div>
             )}
-            <h1 className="text-xl font-semibold text-gray-900">
-              {document.title || 'Untitled Document'}
-            </h1>
           </div>
         </div>
 
         <div className="flex items-center space-x-4">
+          <PresenceAvatars users={collaborators} />
+
           <div className="flex items-center space-x-4 text-sm text-gray-500">
             <div className="flex items-center space-x-1">
               <User className="h-4 w-4" />
@@ -148,6 +313,34 @@ const DocumentView: React.FC = () => {
           </div>
 
           <div className="flex items-center space-x-2">
+            {user && (
+              <button
+                onClick={toggleWatch}
+                className={`flex items-center space-x-1 px-3 py-2 rounded-lg transition-colors ${
+                  watching
+                    ? 'bg-blue-100 text-blue-700'
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+                }`}
+              >
+                {watching ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                <span>{watching ? 'Unwatch' : 'Watch'}</span>
+              </button>
+            )}
+
+            {user && (
+              <button
+                onClick={() => setShowComments(!showComments)}
+                className={`flex items-center space-x-1 px-3 py-2 rounded-lg transition-colors ${
+                  showComments
+                    ? 'bg-blue-100 text-blue-700'
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+                }`}
+              >
+                <MessageSquare className="h-4 w-4" />
+                <span>{openThreadCount > 0 ? `Comments (${openThreadCount})` : 'Comments'}</span>
+              </button>
+            )}
+
             <Link
               to={`/documents/${document.id}/versions`}
               className="flex items-center space-x-1 px-3 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
@@ -156,6 +349,18 @@ const DocumentView: React.FC = () => {
               <span>v{document.version}</span>
             </Link>
 
+            <ExportMenu documentId={document.id} allowJobs={!!user} />
+
+            {user && (
+              <button
+                onClick={handleSaveAsTemplate}
+                className="flex items-center space-x-1 px-3 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <LayoutTemplate className="h-4 w-4" />
+                <span>Template</span>
+              </button>
+            )}
+
             {document.author.id === user?.id && (
               <Link
                 to={`/documents/${document.id}/share`}
@@ -166,6 +371,16 @@ const DocumentView: React.FC = () => {
               </Link>
             )}
 
+            {canEdit() && (
+              <Link
+                to={`/documents/new?parent=${document.id}`}
+                className="flex items-center space-x-1 px-3 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <FilePlus className="h-4 w-4" />
+                <span>Subpage</span>
+              </Link>
+            )}
+
             {canEdit() && (
               <button
                 onClick={() => setEditMode(!editMode)}
@@ -184,14 +399,40 @@ const DocumentView: React.FC = () => {
       </div>
 
       {/* Content */}
-      <div className="flex-1 bg-white">
-        <DocumentEditor
-          documentId={document.id}
-          initialTitle={document.title}
-          initialContent={document.content}
-          onSave={handleSave}
-          readOnly={!editMode}
-        />
+      <div className="flex flex-1 overflow-hidden">
+        <div className="flex-1 bg-white">
+          <DocumentEditor
+            documentId={document.id}
+            initialTitle={document.title}
+            initialContent={document.content}
+            initialVersion={document.version}
+            onSave={handleSave}
+            readOnly={!editMode}
+            // The collaboration server cannot be reached either; without a
+            // collaborative state on this device the edits are queued as saves
+            collaborative={!!user && (!offlineCopy || offlineCollab)}
+            commentThreads={highlightedThreads}
+            activeCommentId={activeCommentId}
+            onCommentSelect={handleSelectComment}
+            onStartComment={canComment() ? handleStartComment : undefined}
+            highlightTerms={highlightTerms}
+          />
+        </div>
+
+        {showComments && user && (
+          <CommentsPanel
+            threads={threads}
+            activeThreadId={activeCommentId}
+            draft={commentDraft}
+            canComment={canComment()}
+            onSelect={handleSelectComment}
+            onCreate={handleCreateComment}
+            onCancelDraft={() => setCommentDraft(null)}
+            onReply={reply}
+            onResolve={setResolved}
+            onClose={() => setShowComments(false)}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,238 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Archive, Download, FileCode, FileType, Trash2, AlertCircle } from 'lucide-react';
+import { useApi } from '../hooks/useApi';
+import { ExportJob, useExports } from '../hooks/useExports';
+import { isJobActive } from '../hooks/useJobPolling';
+import { formatDistanceToNow } from 'date-fns';
+import toast from 'react-hot-toast';
+
+const FORMAT_ICONS = {
+  pdf: FileType,
+  html: FileCode,
+  zip: Archive
+};
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024
+    ? `${Math.max(1, Math.round(bytes / 1024))} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const exportTitle = (job: ExportJob) =>
+  job.format === 'zip'
+    ? job.include_versions ? 'Workspace archive with version history' : 'Workspace archive'
+    : `${job.document?.title || 'Deleted document'} (${job.format.toUpperCase()})`;
+
+const ExportStatus: React.FC<{ job: ExportJob }> = ({ job }) => {
+  if (job.status === 'failed') {
+    return (
+      <p className="flex items-center space-x-1 text-xs text-red-600">
+        <AlertCircle className="h-3 w-3" />
+        <span>{job.error || 'The export failed'}</span>
+      </p>
+    );
+  }
+
+  if (job.status === 'completed') {
+    return (
+      <p className="text-xs text-gray-500">
+        {job.file_size !== null && <>{formatSize(job.file_size)} · </>}
+        {job.expires_at && <>Available for {formatDistanceToNow(new Date(job.expires_at))}</>}
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-1 space-y-1">
+      <div className="h-1.5 w-full bg-gray-100 rounded-full overflow-hidden">
+        <div className="h-full bg-blue-600 transition-all" style={{ width: `${job.progress}%` }} />
+      </div>
+      <p className="text-xs text-gray-500">
+        {job.status === 'queued'
+          ? 'Waiting to start'
+          : job.format === 'zip' && job.total_items !== null
+            ? `${job.processed_items} of ${job.total_items} documents · ${job.progress}%`
+            : `${job.progress}%`}
+      </p>
+    </div>
+  );
+};
+
+// Bulk export of everything the user can access, plus the history of their
+// recent exports. Exports run in the background; this page follows their progress.
+const Exports: React.FC = () => {
+  const [jobs, setJobs] = useState<ExportJob[]>([]);
+  const [includeVersions, setIncludeVersions] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const following = useRef(new Set<string>());
+  const abortRef = useRef(new AbortController());
+  const { request } = useApi();
+  const { startExport, waitForExport, downloadExport } = useExports();
+
+  const replaceJob = (job: ExportJob) => {
+    setJobs(prev => prev.map(existing => (existing.id === job.id ? job : existing)));
+  };
+
+  const follow = useCallback((job: ExportJob) => {
+    if (following.current.has(job.id)) return;
+    following.current.add(job.id);
+
+    waitForExport(job.id, { onUpdate: replaceJob, signal: abortRef.current.signal })
+      .catch(() => undefined)
+      .finally(() => following.current.delete(job.id));
+  }, [waitForExport]);
+
+  useEffect(() => {
+    const abort = abortRef.current;
+    return () => abort.abort();
+  }, []);
+
+  useEffect(() => {
+    fetchExports();
+  }, []);
+
+  const fetchExports = async () => {
+    try {
+      const data: ExportJob[] = (await request('/exports')) || [];
+      setJobs(data);
+      data.filter(isJobActive).forEach(follow);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to fetch exports');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExportWorkspace = async () => {
+    setSubmitting(true);
+    try {
+      const job = await startExport({ format: 'zip', includeVersions });
+      setJobs(prev => [job, ...prev]);
+      follow(job);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to start export');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDownload = async (job: ExportJob) => {
+    try {
+      await downloadExport(job);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to download export');
+    }
+  };
+
+  const handleDelete = async (job: ExportJob) => {
+    try {
+      await request(`/exports/${job.id}`, { method: 'DELETE' });
+      setJobs(prev => prev.filter(existing => existing.id !== job.id));
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to delete export');
+    }
+  };
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="p-8 max-w-3xl">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Exports</h1>
+          <p className="text-gray-600">
+            Download everything you have access to as a ZIP archive. Single documents can be exported as
+            PDF or HTML from the document itself.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg border border-gray-200 p-6 mb-6 space-y-3">
+          <h2 className="text-lg font-medium text-gray-900">Export workspace</h2>
+          <p className="text-sm text-gray-600">
+            Your documents and those shared with you or in your spaces, each as HTML and Markdown with its
+            title, author, tags and dates.
+          </p>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={includeVersions}
+              onChange={(e) => setIncludeVersions(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Include version history</span>
+          </label>
+          <button
+            onClick={handleExportWorkspace}
+            disabled={submitting}
+            className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Archive className="h-4 w-4" />
+            <span>{submitting ? 'Starting...' : 'Export as ZIP'}</span>
+          </button>
+        </div>
+
+        <div className="bg-white rounded-lg border border-gray-200">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : jobs.length === 0 ? (
+            <p className="px-6 py-8 text-center text-sm text-gray-500">
+              You haven't exported anything yet.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {jobs.map((job) => {
+                const Icon = FORMAT_ICONS[job.format];
+                return (
+                  <li key={job.id} className="px-6 py-4 flex items-center justify-between space-x-4">
+                    <div className="flex items-center space-x-3 min-w-0 flex-1">
+                      <Icon className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm font-medium text-gray-900 truncate">
+                          {job.document ? (
+                            <Link to={`/documents/${job.document.id}`} className="hover:text-blue-600">
+                              {exportTitle(job)}
+                            </Link>
+                          ) : (
+                            exportTitle(job)
+                          )}
+                        </p>
+                        <ExportStatus job={job} />
+                      </div>
+                    </div>
+
+                    <div className="flex items-center space-x-2 flex-shrink-0">
+                      <span className="text-xs text-gray-400">
+                        {formatDistanceToNow(new Date(job.created_at))} ago
+                      </span>
+                      {job.status === 'completed' && (
+                        <button
+                          onClick={() => handleDownload(job)}
+                          className="flex items-center space-x-1 px-3 py-1.5 text-sm text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                        >
+                          <Download className="h-4 w-4" />
+                          <span>Download</span>
+                        </button>
+                      )}
+                      {!isJobActive(job) && (
+                        <button
+                          onClick={() => handleDelete(job)}
+                          className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          aria-label="Delete export"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Exports;
@@ -0,0 +1,368 @@
+import React, { useEffect, useState } from 'react';
+import { useParams, Link, useNavigate } from 'react-router-dom';
+import { ArrowLeft, UsersRound, Search, Trash2, UserPlus, LogOut } from 'lucide-react';
+import { useApi } from '../hooks/useApi';
+import { useAuthStore } from '../store/authStore';
+import toast from 'react-hot-toast';
+
+type GroupRole = 'admin' | 'member';
+
+interface GroupMember {
+  user_id: string;
+  role: GroupRole;
+  created_at: string;
+  user: {
+    id: string;
+    first_name: string;
+    last_name: string;
+    email: string;
+  };
+}
+
+interface Group {
+  id: string;
+  name: string;
+  description: string;
+  role: GroupRole;
+  members: GroupMember[];
+}
+
+interface UserResult {
+  id: string;
+  name: string;
+  email: string;
+}
+
+const GroupSettings: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const [group, setGroup] = useState<Group | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<UserResult[]>([]);
+  const [selectedUser, setSelectedUser] = useState<UserResult | null>(null);
+  const [role, setRole] = useState<GroupRole>('member');
+  const [loading, setLoading] = useState(true);
+  const { request } = useApi();
+  const { user } = useAuthStore();
+  const navigate = useNavigate();
+
+  const isAdmin = group?.role === 'admin';
+
+  useEffect(() => {
+    if (id) {
+      fetchGroup();
+    }
+  }, [id]);
+
+  useEffect(() => {
+    if (selectedUser || query.length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        const data = await request(`/users/search?q=${encodeURIComponent(query)}`);
+        setResults(data || []);
+      } catch {
+        setResults([]);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeoutId);
+  }, [query, selectedUser, request]);
+
+  const fetchGroup = async () => {
+    try {
+      const data = await request(`/groups/${id}`);
+      setGroup(data);
+      setName(data.name);
+      setDescription(data.description || '');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to load group');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!group) return;
+
+    try {
+      const updated = await request(`/groups/${id}`, {
+        method: 'PUT',
+        body: { name, description }
+      });
+      setGroup({ ...group, ...updated });
+      toast.success('Group updated');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to update group');
+    }
+  };
+
+  const handleAddMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedUser) return;
+
+    try {
+      await request(`/groups/${id}/members`, {
+        method: 'POST',
+        body: { userEmail: selectedUser.email, role }
+      });
+      toast.success(`Added ${selectedUser.name}`);
+      setSelectedUser(null);
+      setQuery('');
+      await fetchGroup();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to add member');
+    }
+  };
+
+  const handleRoleChange = async (member: GroupMember, newRole: GroupRole) => {
+    try {
+      await request(`/groups/${id}/members`, {
+        method: 'POST',
+        body: { userEmail: member.user.email, role: newRole }
+      });
+      toast.success('Role updated');
+      await fetchGroup();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to update role');
+    }
+  };
+
+  const handleRemove = async (member: GroupMember) => {
+    const leaving = member.user_id === user?.id;
+    if (!confirm(leaving
+      ? 'Leave this group? You will lose access to the documents shared with it.'
+      : `Remove ${member.user.first_name} ${member.user.last_name} from this group?`)) return;
+
+    try {
+      await request(`/groups/${id}/members/${member.user_id}`, { method: 'DELETE' });
+      if (leaving) {
+        toast.success('You left the group');
+        navigate('/groups');
+        return;
+      }
+      toast.success('Member removed');
+      await fetchGroup();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to remove member');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm('Delete this group? Documents shared with it will no longer be shared with its members.')) return;
+
+    try {
+      await request(`/groups/${id}`, { method: 'DELETE' });
+      toast.success('Group deleted');
+      navigate('/groups');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to delete group');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!group) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Group not found</h2>
+          <p className="text-gray-600 mb-4">The group doesn't exist or you're not a member.</p>
+          <Link
+            to="/groups"
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Groups
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-auto h-full">
+      {/* Header */}
+      <div className="flex items-center p-6 border-b border-gray-200 bg-white space-x-4">
+        <Link
+          to="/groups"
+          className="text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <ArrowLeft className="h-5 w-5" />
+        </Link>
+        <div className="flex items-center space-x-2">
+          <UsersRound className="h-5 w-5 text-gray-400" />
+          <h1 className="text-xl font-semibold text-gray-900">{group.name}</h1>
+        </div>
+      </div>
+
+      <div className="p-8 max-w-3xl space-y-6">
+        {isAdmin && (
+          <form onSubmit={handleRename} className="bg-white rounded-lg border border-gray-200 p-6 space-y-3">
+            <h2 className="text-lg font-medium text-gray-900">Details</h2>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={500}
+              rows={2}
+              placeholder="Who is in this group? (optional)"
+              className="block w-full px-3 py-2 border border-gray-300 rounded-lg placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={!name.trim()}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Save
+            </button>
+          </form>
+        )}
+
+        {isAdmin && (
+          <form onSubmit={handleAddMember} className="bg-white rounded-lg border border-gray-200 p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Add members</h2>
+            <div className="flex items-start space-x-3">
+              <div className="relative flex-1">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <Search className="h-4 w-4 text-gray-400" />
+                </div>
+                <input
+                  type="text"
+                  value={selectedUser ? `${selectedUser.name} <${selectedUser.email}>` : query}
+                  onChange={(e) => {
+                    setSelectedUser(null);
+                    setQuery(e.target.value);
+                  }}
+                  placeholder="Search by name or email..."
+                  className="block w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                {results.length > 0 && (
+                  <div className="absolute left-0 right-0 top-11 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-10">
+                    {results.map((result) => (
+                      <button
+                        key={result.id}
+                        type="button"
+                        onClick={() => {
+                          setSelectedUser(result);
+                          setResults([]);
+                        }}
+                        className="w-full text-left px-4 py-2 hover:bg-gray-100 transition-colors"
+                      >
+                        <p className="text-sm font-medium text-gray-900">{result.name}</p>
+                        <p className="text-xs text-gray-500">{result.email}</p>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <select
+                value={role}
+                onChange={(e) => setRole(e.target.value as GroupRole)}
+                className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="member">Member</option>
+                <option value="admin">Admin</option>
+              </select>
+              <button
+                type="submit"
+                disabled={!selectedUser}
+                className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <UserPlus className="h-4 w-4" />
+                <span>Add</span>
+              </button>
+            </div>
+          </form>
+        )}
+
+        {/* Members */}
+        <div className="bg-white rounded-lg border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-900">Members</h2>
+            <p className="text-sm text-gray-500">
+              Members get every document shared with the group, admins also manage the group and its members.
+            </p>
+          </div>
+          <ul className="divide-y divide-gray-100">
+            {group.members.map((member) => (
+              <li key={member.user_id} className="px-6 py-4 flex items-center justify-between">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center flex-shrink-0">
+                    <span className="text-blue-600 font-medium text-sm">
+                      {member.user.first_name?.[0]}{member.user.last_name?.[0]}
+                    </span>
+                  </div>
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {member.user.first_name} {member.user.last_name}
+                      {member.user_id === user?.id && ' (you)'}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">{member.user.email}</p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {isAdmin ? (
+                    <select
+                      value={member.role}
+                      onChange={(e) => handleRoleChange(member, e.target.value as GroupRole)}
+                      className="border border-gray-300 rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="member">Member</option>
+                      <option value="admin">Admin</option>
+                    </select>
+                  ) : (
+                    <span className="text-sm text-gray-500 capitalize">{member.role}</span>
+                  )}
+                  {(isAdmin || member.user_id === user?.id) && (
+                    <button
+                      onClick={() => handleRemove(member)}
+                      className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                      title={member.user_id === user?.id ? 'Leave group' : 'Remove member'}
+                    >
+                      {member.user_id === user?.id ? <LogOut className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {isAdmin && (
+          <div className="bg-white rounded-lg border border-red-200 p-6 flex items-center justify-between">
+            <div>
+              <p className="font-medium text-gray-900">Delete group</p>
+              <p className="text-sm text-gray-500">Documents are kept, but shares with this group are removed.</p>
+            </div>
+            <button
+              onClick={handleDelete}
+              className="px-4 py-2 text-red-600 border border-red-300 rounded-lg hover:bg-red-50 transition-colors"
+            >
+              Delete
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GroupSettings;
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { UsersRound, Plus, ChevronRight } from 'lucide-react';
+import { useApi } from '../hooks/useApi';
+import toast from 'react-hot-toast';
+
+interface Group {
+  id: string;
+  name: string;
+  description: string;
+  role: 'admin' | 'member';
+  member_count: number;
+}
+
+const Groups: React.FC = () => {
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const { request } = useApi();
+
+  useEffect(() => {
+    fetchGroups();
+  }, []);
+
+  const fetchGroups = async () => {
+    try {
+      const data = await request('/groups');
+      setGroups(data || []);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to fetch groups');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setSubmitting(true);
+    try {
+      const group = await request('/groups', {
+        method: 'POST',
+        body: { name, description }
+      });
+      setGroups(prev => [...prev, group].sort((a, b) => a.name.localeCompare(b.name)));
+      setName('');
+      setDescription('');
+      toast.success(`Created ${group.name}`);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to create group');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="p-8 max-w-3xl">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Groups</h1>
+          <p className="text-gray-600">
+            Share documents with a whole team at once. New members get access to everything shared with the group.
+          </p>
+        </div>
+
+        <form onSubmit={handleCreate} className="bg-white rounded-lg border border-gray-200 p-6 mb-6 space-y-3">
+          <h2 className="text-lg font-medium text-gray-900">New group</h2>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Group name"
+            maxLength={100}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-lg placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Who is in this group? (optional)"
+            maxLength={500}
+            rows={2}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-lg placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={!name.trim() || submitting}
+            className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            <span>{submitting ? 'Creating...' : 'Create group'}</span>
+          </button>
+        </form>
+
+        <div className="bg-white rounded-lg border border-gray-200">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : groups.length === 0 ? (
+            <p className="px-6 py-8 text-center text-sm text-gray-500">
+              You're not a member of any group yet.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {groups.map((group) => (
+                <li key={group.id}>
+                  <Link
+                    to={`/groups/${group.id}`}
+                    className="px-6 py-4 flex items-center justify-between hover:bg-gray-50 transition-colors"
+                  >
+                    <div className="flex items-center space-x-3 min-w-0">
+                      <UsersRound className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">{group.name}</p>
+                        <p className="text-xs text-gray-500 truncate">
+                          {group.member_count} {group.member_count === 1 ? 'member' : 'members'}
+                          {group.description && <> · {group.description}</>}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2 text-sm text-gray-500">
+                      <span className="capitalize">{group.role}</span>
+                      <ChevronRight className="h-4 w-4" />
+                    </div>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Groups;
@@ -0,0 +1,300 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Upload, RotateCw, Trash2, AlertCircle, ChevronDown, ChevronRight, FileArchive } from 'lucide-react';
+import { useApi } from '../hooks/useApi';
+import { IMPORT_SOURCE_LABELS, ImportJob, ImportSource, useImports } from '../hooks/useImports';
+import { isJobActive } from '../hooks/useJobPolling';
+import { formatDistanceToNow } from 'date-fns';
+import toast from 'react-hot-toast';
+
+interface Space {
+  id: string;
+  name: string;
+  role: 'admin' | 'editor' | 'viewer';
+}
+
+const SOURCE_HINTS: Record<ImportSource, string> = {
+  confluence: 'In Confluence, open Space settings → Export space and choose HTML.',
+  notion: 'In Notion, open Settings → Export all workspace content, as Markdown & CSV or HTML, with subpages.'
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const ImportStatus: React.FC<{ job: ImportJob }> = ({ job }) => {
+  if (job.status === 'failed') {
+    return (
+      <p className="flex items-center space-x-1 text-xs text-red-600">
+        <AlertCircle className="h-3 w-3" />
+        <span>{job.error || 'The import failed'}</span>
+      </p>
+    );
+  }
+
+  if (job.status === 'completed') {
+    return (
+      <p className="text-xs text-gray-500">
+        {plural(job.created_count, 'page')} created · {job.updated_count} updated ·{' '}
+        {plural(job.attachment_count, 'attachment')}
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-1 space-y-1">
+      <div className="h-1.5 w-full bg-gray-100 rounded-full overflow-hidden">
+        <div className="h-full bg-blue-600 transition-all" style={{ width: `${job.progress}%` }} />
+      </div>
+      <p className="text-xs text-gray-500">
+        {job.status === 'queued'
+          ? 'Waiting to start'
+          : job.total_items !== null
+            ? `${job.processed_items} of ${job.total_items} pages · ${job.progress}%`
+            : `${job.progress}%`}
+      </p>
+    </div>
+  );
+};
+
+// Brings in Confluence and Notion export archives as documents, and lists
+// recent imports with what could not be imported. Imports run in the
+// background; this page follows their progress.
+const Imports: React.FC = () => {
+  const [jobs, setJobs] = useState<ImportJob[]>([]);
+  const [spaces, setSpaces] = useState<Space[]>([]);
+  const [source, setSource] = useState<ImportSource>('confluence');
+  const [spaceId, setSpaceId] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const following = useRef(new Set<string>());
+  const abortRef = useRef(new AbortController());
+  const { request } = useApi();
+  const { startImport, rerunImport, waitForImport } = useImports();
+
+  const replaceJob = (job: ImportJob) => {
+    setJobs(prev => prev.map(existing => (existing.id === job.id ? job : existing)));
+  };
+
+  const follow = useCallback((job: ImportJob) => {
+    if (following.current.has(job.id)) return;
+    following.current.add(job.id);
+
+    waitForImport(job.id, { onUpdate: replaceJob, signal: abortRef.current.signal })
+      .catch(() => undefined)
+      .finally(() => following.current.delete(job.id));
+  }, [waitForImport]);
+
+  useEffect(() => {
+    const abort = abortRef.current;
+    return () => abort.abort();
+  }, []);
+
+  useEffect(() => {
+    fetchImports();
+    request('/spaces')
+      .then(data => data && setSpaces(data.filter((space: Space) => space.role !== 'viewer')))
+      .catch(() => undefined);
+  }, []);
+
+  const fetchImports = async () => {
+    try {
+      const data: ImportJob[] = (await request('/imports')) || [];
+      setJobs(data);
+      data.filter(isJobActive).forEach(follow);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to fetch imports');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    setSubmitting(true);
+    try {
+      const job = await startImport(file, { source, spaceId: spaceId || null });
+      setJobs(prev => [job, ...prev]);
+      follow(job);
+      setFile(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to start import');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRerun = async (job: ImportJob) => {
+    try {
+      const queued = await rerunImport(job.id);
+      replaceJob(queued);
+      follow(queued);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to re-run import');
+    }
+  };
+
+  const handleDelete = async (job: ImportJob) => {
+    try {
+      await request(`/imports/${job.id}`, { method: 'DELETE' });
+      setJobs(prev => prev.filter(existing => existing.id !== job.id));
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to delete import');
+    }
+  };
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="p-8 max-w-3xl">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Imports</h1>
+          <p className="text-gray-600">
+            Bring pages over from Confluence or Notion with their hierarchy, links between them and attachments.
+            Running an import again updates the pages it created instead of adding copies.
+          </p>
+        </div>
+
+        <form onSubmit={handleImport} className="bg-white rounded-lg border border-gray-200 p-6 mb-6 space-y-4">
+          <h2 className="text-lg font-medium text-gray-900">Import an export archive</h2>
+
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block text-sm text-gray-700">
+              <span className="block mb-1 font-medium">Source</span>
+              <select
+                value={source}
+                onChange={(e) => setSource(e.target.value as ImportSource)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="confluence">Confluence (HTML export)</option>
+                <option value="notion">Notion (Markdown or HTML export)</option>
+              </select>
+            </label>
+
+            <label className="block text-sm text-gray-700">
+              <span className="block mb-1 font-medium">Space</span>
+              <select
+                value={spaceId}
+                onChange={(e) => setSpaceId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">My documents</option>
+                {spaces.map((space) => (
+                  <option key={space.id} value={space.id}>{space.name}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              className="block w-full text-sm text-gray-700 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-gray-100 file:text-gray-700 hover:file:bg-gray-200"
+            />
+            <p className="mt-1 text-xs text-gray-500">{SOURCE_HINTS[source]}</p>
+          </div>
+
+          <button
+            type="submit"
+            disabled={!file || submitting}
+            className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Upload className="h-4 w-4" />
+            <span>{submitting ? 'Uploading...' : 'Import'}</span>
+          </button>
+        </form>
+
+        <div className="bg-white rounded-lg border border-gray-200">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : jobs.length === 0 ? (
+            <p className="px-6 py-8 text-center text-sm text-gray-500">
+              You haven't imported anything yet.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {jobs.map((job) => (
+                <li key={job.id} className="px-6 py-4">
+                  <div className="flex items-center justify-between space-x-4">
+                    <div className="flex items-center space-x-3 min-w-0 flex-1">
+                      <FileArchive className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm font-medium text-gray-900 truncate">
+                          {job.filename}
+                          <span className="font-normal text-gray-500">
+                            {' '}· {IMPORT_SOURCE_LABELS[job.source]}
+                            {job.parent ? (
+                              <> into <Link to={`/documents/${job.parent.id}`} className="hover:text-blue-600">{job.parent.title}</Link></>
+                            ) : job.space && (
+                              <> into {job.space.name}</>
+                            )}
+                          </span>
+                        </p>
+                        <ImportStatus job={job} />
+                      </div>
+                    </div>
+
+                    <div className="flex items-center space-x-2 flex-shrink-0">
+                      <span className="text-xs text-gray-400">
+                        {formatDistanceToNow(new Date(job.created_at))} ago
+                      </span>
+                      {!isJobActive(job) && (
+                        <button
+                          onClick={() => handleRerun(job)}
+                          className="flex items-center space-x-1 px-3 py-1.5 text-sm text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                        >
+                          <RotateCw className="h-4 w-4" />
+                          <span>Re-run</span>
+                        </button>
+                      )}
+                      {!isJobActive(job) && (
+                        <button
+                          onClick={() => handleDelete(job)}
+                          className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          aria-label="Delete import"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {job.failures.length > 0 && (
+                    <div className="mt-2 ml-8">
+                      <button
+                        onClick={() => setExpanded(expanded === job.id ? null : job.id)}
+                        className="flex items-center space-x-1 text-xs text-amber-700 hover:text-amber-800"
+                      >
+                        {expanded === job.id ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                        <span>{plural(job.failures.length, 'problem')}</span>
+                      </button>
+                      {expanded === job.id && (
+                        <ul className="mt-1 space-y-1 text-xs text-gray-600">
+                          {job.failures.map((failure, index) => (
+                            <li key={index} className="break-all">
+                              <span className="font-mono text-gray-500">{failure.path}</span>: {failure.message}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Imports;
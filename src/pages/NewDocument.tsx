@@ -1,21 +1,50 @@
-import React, { useState } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
-import { ArrowLeft } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams, Link } from 'react-router-dom';
+import { ArrowLeft, FileText, FileUp, LayoutTemplate, Trash2 } from 'lucide-react';
 import DocumentEditor from '../components/Editor/DocumentEditor';
 import { useApi } from '../hooks/useApi';
+import { useAuthStore } from '../store/authStore';
+import { useSpaceStore } from '../store/spaceStore';
 import toast from 'react-hot-toast';
 
+interface Template {
+  id: string;
+  name: string;
+  description: string;
+  builtIn: boolean;
+  space_id: string | null;
+  created_by: string | null;
+}
+
+const MARKDOWN_FILE = /\.(md|markdown)$/i;
+
 const NewDocument: React.FC = () => {
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [blank, setBlank] = useState(false);
+  // Starting point for the editor, filled by a Markdown import
+  const [draft, setDraft] = useState({ title: '', content: '' });
+  const [dragging, setDragging] = useState(false);
   const [saving, setSaving] = useState(false);
   const { request } = useApi();
+  const { user } = useAuthStore();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const parentId = searchParams.get('parent');
+  const { currentSpaceId } = useSpaceStore();
+
+  useEffect(() => {
+    request('/templates')
+      .then(data => setTemplates(data || []))
+      .catch(() => setTemplates([]));
+  }, [request]);
 
-  const handleSave = async (title: string, content: string) => {
+  const createDocument = async (fields: { title?: string; content?: string; templateId?: string }) => {
     setSaving(true);
     try {
       const document = await request('/documents', {
         method: 'POST',
-        body: { title, content, isPublic: false }
+        // Subpages always land in their parent's space
+        body: { ...fields, isPublic: false, parentId, spaceId: parentId ? undefined : currentSpaceId }
       });
       
       toast.success('Document created successfully');
@@ -28,34 +57,173 @@ const NewDocument: React.FC = () => {
     }
   };
 
+  const handleSave = (title: string, content = '') => createDocument({ title, content });
+
+  // Placeholders such as {{date}} are filled in by the server
+  const handleUseTemplate = (template: Template) => {
+    createDocument({ templateId: template.id }).catch(() => {});
+  };
+
+  const handleDeleteTemplate = async (template: Template) => {
+    if (!confirm(`Delete the "${template.name}" template? Documents created from it are kept.`)) return;
+
+    try {
+      await request(`/templates/${template.id}`, { method: 'DELETE' });
+      setTemplates(current => current.filter(t => t.id !== template.id));
+      toast.success('Template deleted');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to delete template');
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+      setDragging(false);
+    }
+  };
+
+  // Markdown files are converted by the server and opened in the editor, so
+  // they can be reviewed before the document is created
+  const handleDrop = async (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setDragging(false);
+
+    const file = Array.from(e.dataTransfer.files).find(f => MARKDOWN_FILE.test(f.name));
+    if (!file) {
+      toast.error('Drop a Markdown (.md) file to import it');
+      return;
+    }
+
+    try {
+      const { title, content } = await request('/documents/import/markdown', {
+        method: 'POST',
+        body: { markdown: await file.text() }
+      });
+      setDraft({ title: title || file.name.replace(MARKDOWN_FILE, ''), content });
+      setBlank(true);
+      toast.success(`Imported ${file.name}`);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to import Markdown');
+    }
+  };
+
+  const builtInTemplates = templates.filter(template => template.builtIn);
+  const savedTemplates = templates.filter(template => !template.builtIn);
+
+  const renderTemplate = (template: Template) => (
+    <div
+      key={template.id}
+      className="relative group bg-white rounded-lg border border-gray-200 hover:border-blue-300 transition-colors"
+    >
+      <button
+        onClick={() => handleUseTemplate(template)}
+        disabled={saving}
+        className="w-full h-full text-left p-5 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <LayoutTemplate className="h-6 w-6 text-blue-600 mb-3" />
+        <p className="font-medium text-gray-900">{template.name}</p>
+        {template.description && (
+          <p className="text-sm text-gray-500 mt-1 line-clamp-2">{template.description}</p>
+        )}
+        {!template.builtIn && (
+          <p className="text-xs text-gray-400 mt-2">{template.space_id ? 'Space template' : 'Personal template'}</p>
+        )}
+      </button>
+      {template.created_by === user?.id && (
+        <button
+          onClick={() => handleDeleteTemplate(template)}
+          className="absolute top-3 right-3 p-1 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
+          title="Delete template"
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      )}
+    </div>
+  );
+
   return (
-    <div className="flex flex-col h-full">
+    <div
+      className="relative flex flex-col h-full"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {dragging && (
+        <div className="absolute inset-0 z-20 flex items-center justify-center bg-blue-50/90 border-2 border-dashed border-blue-400 rounded-lg pointer-events-none">
+          <div className="text-center">
+            <FileUp className="h-10 w-10 text-blue-600 mx-auto mb-2" />
+            <p className="text-lg font-medium text-blue-700">Drop a Markdown file to import it</p>
+          </div>
+        </div>
+      )}
+
       {/* Header */}
       <div className="flex items-center justify-between p-6 border-b border-gray-200 bg-white">
         <div className="flex items-center space-x-4">
           <Link
-            to="/dashboard"
+            to={parentId ? `/documents/${parentId}` : '/dashboard'}
             className="text-gray-400 hover:text-gray-600 transition-colors"
           >
             <ArrowLeft className="h-5 w-5" />
           </Link>
           <h1 className="text-xl font-semibold text-gray-900">
-            New Document
+            {parentId ? 'New Subpage' : 'New Document'}
           </h1>
         </div>
       </div>
 
-      {/* Editor */}
-      <div className="flex-1 bg-white">
-        <DocumentEditor
-          initialTitle=""
-          initialContent=""
-          onSave={handleSave}
-          readOnly={false}
-        />
-      </div>
+      {blank ? (
+        /* Editor */
+        <div className="flex-1 bg-white">
+          <DocumentEditor
+            initialTitle={draft.title}
+            initialContent={draft.content}
+            onSave={handleSave}
+            readOnly={false}
+          />
+        </div>
+      ) : (
+        /* Template picker */
+        <div className="flex-1 overflow-auto p-8 space-y-8">
+          <section>
+            <h2 className="text-lg font-medium text-gray-900 mb-1">Start from</h2>
+            <p className="text-sm text-gray-500 mb-4">Or drop a Markdown (.md) file anywhere on this page to import it.</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-4">
+              <button
+                onClick={() => setBlank(true)}
+                disabled={saving}
+                className="text-left p-5 bg-white rounded-lg border border-gray-200 hover:border-blue-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <FileText className="h-6 w-6 text-gray-400 mb-3" />
+                <p className="font-medium text-gray-900">Blank page</p>
+                <p className="text-sm text-gray-500 mt-1">Start with an empty editor</p>
+              </button>
+              {builtInTemplates.map(renderTemplate)}
+            </div>
+          </section>
+
+          {savedTemplates.length > 0 && (
+            <section>
+              <h2 className="text-lg font-medium text-gray-900 mb-1">Saved templates</h2>
+              <p className="text-sm text-gray-500 mb-4">
+                Saved from existing documents by you or your spaces.
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-4">
+                {savedTemplates.map(renderTemplate)}
+              </div>
+            </section>
+          )}
+        </div>
+      )}
     </div>
   );
 };
 
-export default NewDocument;
\ No newline at end of file
+export default NewDocument;
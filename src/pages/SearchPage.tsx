@@ -1,20 +1,20 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { Search, FileText } from 'lucide-react';
-import { Link } from 'react-router-dom';
+import { Search, FileText, X, Hash } from 'lucide-react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { useApi } from '../hooks/useApi';
-import { formatDistanceToNow } from 'date-fns';
+import { formatDistanceToNow, format, subDays } from 'date-fns';
 import toast from 'react-hot-toast';
 
 interface SearchResult {
   id: string;
   title: string;
-  content: string;
   created_at: string;
   updated_at: string;
   is_public: boolean;
-  titleMatch: boolean;
-  contentMatch: boolean;
+  titleHighlights: [number, number][];
   snippet: string;
+  snippetHighlights: [number, number][];
+  section: string | null;
   author: {
     id: string;
     first_name: string;
@@ -23,50 +23,169 @@ interface SearchResult {
   };
 }
 
+interface SearchFacets {
+  authors: {
+    id: string;
+    name: string;
+    count: number;
+  }[];
+  visibility: Record<'public' | 'private', number>;
+  ownership: Record<'all' | 'mine' | 'shared', number>;
+  updated: Record<UpdatedRange, number>;
+}
+
+interface SearchResponse {
+  results: SearchResult[];
+  total: number;
+  terms: string[];
+  facets: SearchFacets | null;
+}
+
+type UpdatedRange = 'week' | 'month' | 'year';
+
+const PAGE_SIZE = 20;
+
+// Filters live in the URL next to q so a filtered search can be bookmarked
+const FILTER_KEYS = ['author', 'visibility', 'ownership', 'from', 'to'];
+
+const UPDATED_RANGES: { value: UpdatedRange; label: string; days: number }[] = [
+  { value: 'week', label: 'Past week', days: 7 },
+  { value: 'month', label: 'Past month', days: 30 },
+  { value: 'year', label: 'Past year', days: 365 }
+];
+
+const rangeStart = (days: number) => format(subDays(new Date(), days), 'yyyy-MM-dd');
+
 const SearchPage: React.FC = () => {
-  const [query, setQuery] = useState('');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [query, setQuery] = useState(searchParams.get('q') || '');
   const [results, setResults] = useState<SearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [terms, setTerms] = useState<string[]>([]);
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
+  const [customRange, setCustomRange] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const { request } = useApi();
 
-  const performSearch = useCallback(async (searchQuery: string) => {
-    if (searchQuery.length < 2) {
+  const paramString = searchParams.toString();
+  const submittedQuery = searchParams.get('q') || '';
+  const hasFilters = FILTER_KEYS.some(key => searchParams.has(key));
+  const from = searchParams.get('from') || '';
+  const to = searchParams.get('to') || '';
+  const presetRange = !to && UPDATED_RANGES.find(range => from === rangeStart(range.days));
+  const updatedValue = presetRange ? presetRange.value : from || to || customRange ? 'custom' : '';
+
+  const fetchPage = useCallback(
+    (params: string, offset: number): Promise<SearchResponse> =>
+      request(`/search?${params}&limit=${PAGE_SIZE}&offset=${offset}`),
+    [request]
+  );
+
+  const updateParams = (changes: Record<string, string | null>) => {
+    const next = new URLSearchParams(searchParams);
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+    });
+    setSearchParams(next, { replace: true });
+  };
+
+  // Typing updates the URL once the user pauses; the URL drives the search
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      if (query !== submittedQuery) {
+        updateParams({ q: query || null });
+      }
+    }, 300);
+
+    return () => clearTimeout(timeoutId);
+  }, [query]);
+
+  useEffect(() => {
+    if (submittedQuery.trim().length < 2) {
       setResults([]);
+      setTotal(0);
+      setFacets(null);
       return;
     }
 
+    let cancelled = false;
     setLoading(true);
+    fetchPage(paramString, 0)
+      .then(data => {
+        if (cancelled) return;
+        setResults(data.results);
+        setTotal(data.total);
+        setTerms(data.terms);
+        setFacets(data.facets);
+      })
+      .catch(error => {
+        if (!cancelled) toast.error((error as Error).message || 'Search failed');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [paramString, submittedQuery, fetchPage]);
+
+  const loadMore = async () => {
+    setLoadingMore(true);
     try {
-      const data = await request(`/search?q=${encodeURIComponent(searchQuery)}`);
-      setResults(data);
-    } catch (error: any) {
-      toast.error('Search failed');
+      const data = await fetchPage(paramString, results.length);
+      setResults(prev => [...prev, ...data.results]);
+      setTotal(data.total);
+    } catch (error) {
+      toast.error((error as Error).message || 'Search failed');
     } finally {
-      setLoading(false);
+      setLoadingMore(false);
     }
-  }, [request]);
+  };
 
-  useEffect(() => {
-    const timeoutId = setTimeout(() => {
-      performSearch(query);
-    }, 300);
+  const handleUpdatedChange = (value: string) => {
+    const range = UPDATED_RANGES.find(r => r.value === value);
+    setCustomRange(value === 'custom');
+    if (value !== 'custom') {
+      updateParams({ from: range ? rangeStart(range.days) : null, to: null });
+    }
+  };
 
-    return () => clearTimeout(timeoutId);
-  }, [query, performSearch]);
-
-  const highlightText = (text: string, highlight: string) => {
-    if (!highlight) return text;
-    
-    const parts = text.split(new RegExp(`(${highlight})`, 'gi'));
-    return parts.map((part, index) => 
-      part.toLowerCase() === highlight.toLowerCase() ? (
+  const clearFilters = () => {
+    setCustomRange(false);
+    updateParams(Object.fromEntries(FILTER_KEYS.map(key => [key, null])));
+  };
+
+  // Highlights are [start, end] offsets computed by the server
+  const highlightText = (text: string, highlights: [number, number][]) => {
+    if (highlights.length === 0) return text;
+
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    highlights.forEach(([start, end], index) => {
+      parts.push(text.slice(position, start));
+      parts.push(
         <mark key={index} className="bg-yellow-200 px-1 rounded">
-          {part}
+          {text.slice(start, end)}
         </mark>
-      ) : (
-        part
-      )
-    );
+      );
+      position = end;
+    });
+    parts.push(text.slice(position));
+    return parts;
+  };
+
+  // The document highlights the terms and scrolls to the first match
+  const resultLink = (id: string) => {
+    const params = new URLSearchParams();
+    terms.forEach(term => params.append('highlight', term));
+    const highlightQuery = params.toString();
+    return highlightQuery ? `/documents/${id}?${highlightQuery}` : `/documents/${id}`;
   };
 
   return (
@@ -78,12 +197,12 @@ const SearchPage: React.FC = () => {
             Search Documents
           </h1>
           <p className="text-gray-600">
-            Find documents by title or content across your knowledge base.
+            Find documents by title or content across your knowledge base. Use "quotes" for exact phrases, -word to exclude and word* to match prefixes.
           </p>
         </div>
 
         {/* Search Input */}
-        <div className="relative mb-8">
+        <div className="relative mb-4">
           <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
             <Search className="h-5 w-5 text-gray-400" />
           </div>
@@ -97,6 +216,106 @@ const SearchPage: React.FC = () => {
           />
         </div>
 
+        {/* Filters */}
+        {facets && (
+          <div className="flex flex-wrap items-center gap-3 mb-8">
+            <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+              {([
+                ['all', 'All'],
+                ['mine', 'Mine'],
+                ['shared', 'Shared with me']
+              ] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => updateParams({ ownership: value === 'all' ? null : value })}
+                  className={`px-3 py-2 transition-colors ${
+                    (searchParams.get('ownership') || 'all') === value
+                      ? 'bg-blue-50 text-blue-700'
+                      : 'bg-white text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {label} ({facets.ownership[value]})
+                </button>
+              ))}
+            </div>
+
+            <select
+              value={searchParams.get('author') || ''}
+              onChange={(e) => updateParams({ author: e.target.value || null })}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="Author"
+            >
+              <option value="">Any author</option>
+              {facets.authors.map((author) => (
+                <option key={author.id} value={author.id}>
+                  {author.name} ({author.count})
+                </option>
+              ))}
+              {searchParams.get('author') && !facets.authors.some(author => author.id === searchParams.get('author')) && (
+                <option value={searchParams.get('author') || ''}>Selected author (0)</option>
+              )}
+            </select>
+
+            <select
+              value={searchParams.get('visibility') || ''}
+              onChange={(e) => updateParams({ visibility: e.target.value || null })}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="Visibility"
+            >
+              <option value="">Any visibility</option>
+              <option value="public">Public ({facets.visibility.public})</option>
+              <option value="private">Private ({facets.visibility.private})</option>
+            </select>
+
+            <select
+              value={updatedValue}
+              onChange={(e) => handleUpdatedChange(e.target.value)}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="Last updated"
+            >
+              <option value="">Any time</option>
+              {UPDATED_RANGES.map((range) => (
+                <option key={range.value} value={range.value}>
+                  {range.label} ({facets.updated[range.value]})
+                </option>
+              ))}
+              <option value="custom">Custom range</option>
+            </select>
+
+            {updatedValue === 'custom' && (
+              <div className="flex items-center space-x-2 text-sm text-gray-600">
+                <input
+                  type="date"
+                  value={from}
+                  max={to || undefined}
+                  onChange={(e) => updateParams({ from: e.target.value || null })}
+                  className="border border-gray-300 rounded-lg px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label="Updated from"
+                />
+                <span>to</span>
+                <input
+                  type="date"
+                  value={to}
+                  min={from || undefined}
+                  onChange={(e) => updateParams({ to: e.target.value || null })}
+                  className="border border-gray-300 rounded-lg px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label="Updated to"
+                />
+              </div>
+            )}
+
+            {hasFilters && (
+              <button
+                onClick={clearFilters}
+                className="flex items-center space-x-1 px-3 py-2 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <X className="h-4 w-4" />
+                <span>Clear filters</span>
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Loading State */}
         {loading && (
           <div className="flex items-center justify-center py-12">
@@ -105,12 +324,12 @@ const SearchPage: React.FC = () => {
         )}
 
         {/* Search Results */}
-        {!loading && query && (
+        {!loading && submittedQuery && (
           <div className="space-y-6">
             {results.length > 0 ? (
               <>
                 <div className="text-sm text-gray-500">
-                  Found {results.length} result{results.length !== 1 ? 's' : ''} for "{query}"
+                  Found {total} result{total !== 1 ? 's' : ''} for "{submittedQuery}"
                 </div>
                 
                 <div className="space-y-4">
@@ -122,24 +341,25 @@ const SearchPage: React.FC = () => {
                       <div className="flex items-start justify-between">
                         <div className="flex-1 min-w-0">
                           <Link
-                            to={`/documents/${result.id}`}
+                            to={resultLink(result.id)}
                             className="block group"
                           >
                             <h3 className="text-lg font-semibold text-gray-900 group-hover:text-blue-600 transition-colors mb-2">
-                              {result.titleMatch ? (
-                                highlightText(result.title, query)
-                              ) : (
-                                result.title || 'Untitled Document'
-                              )}
+                              {result.title
+                                ? highlightText(result.title, result.titleHighlights)
+                                : 'Untitled Document'}
                             </h3>
-                            
+
+                            {result.section && (
+                              <p className="flex items-center space-x-1 text-xs text-gray-500 mb-1">
+                                <Hash className="h-3 w-3" />
+                                <span className="truncate">In {result.section}</span>
+                              </p>
+                            )}
+
                             {result.snippet && (
                               <p className="text-gray-600 mb-3 line-clamp-3">
-                                {result.contentMatch ? (
-                                  highlightText(result.snippet, query)
-                                ) : (
-                                  result.snippet
-                                )}
+                                {highlightText(result.snippet, result.snippetHighlights)}
                               </p>
                             )}
                           </Link>
@@ -168,6 +388,18 @@ const SearchPage: React.FC = () => {
                     </div>
                   ))}
                 </div>
+
+                {results.length < total && (
+                  <div className="flex justify-center">
+                    <button
+                      onClick={loadMore}
+                      disabled={loadingMore}
+                      className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      {loadingMore ? 'Loading...' : `Show more (${total - results.length} remaining)`}
+                    </button>
+                  </div>
+                )}
               </>
             ) : (
               <div className="text-center py-12">
@@ -184,7 +416,7 @@ const SearchPage: React.FC = () => {
         )}
 
         {/* Empty State */}
-        {!loading && !query && (
+        {!loading && !submittedQuery && (
           <div className="text-center py-12">
             <Search className="h-12 w-12 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">
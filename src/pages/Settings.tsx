@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Monitor, Smartphone, LogOut } from 'lucide-react';
+import { useApi } from '../hooks/useApi';
+import { signOut } from '../utils/authSession';
+import { formatDistanceToNow } from 'date-fns';
+import toast from 'react-hot-toast';
+
+interface Session {
+  id: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_seen_at: string;
+  current: boolean;
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari']
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux']
+];
+
+// "Firefox on Windows" from the user agent the session signed in with
+const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) return 'Unknown device';
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (!browser && !system) return userAgent;
+  return [browser || 'Unknown browser', system].filter(Boolean).join(' on ');
+};
+
+const isMobile = (userAgent: string | null) => !!userAgent && /Mobile|Android|iPhone|iPad/.test(userAgent);
+
+// Account settings: for now the devices signed in to the account, any of which
+// can be signed out from here
+const Settings: React.FC = () => {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const { request } = useApi();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  const fetchSessions = async () => {
+    try {
+      const data = await request('/auth/sessions');
+      setSessions(data || []);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to fetch sessions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async (session: Session) => {
+    if (session.current) {
+      await signOut();
+      navigate('/login');
+      return;
+    }
+
+    setRevoking(session.id);
+    try {
+      await request(`/auth/sessions/${session.id}`, { method: 'DELETE' });
+      setSessions(prev => prev.filter(existing => existing.id !== session.id));
+      toast.success('Device signed out');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to sign out device');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="p-8 max-w-3xl">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Settings</h1>
+          <p className="text-gray-600">Manage your account.</p>
+        </div>
+
+        <div className="bg-white rounded-lg border border-gray-200">
+          <div className="p-6 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-900">Sessions</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Devices signed in to your account. Sign out any you don't recognize; resetting your password
+              signs out all of them.
+            </p>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {sessions.map((session) => {
+                const Icon = isMobile(session.user_agent) ? Smartphone : Monitor;
+                return (
+                  <li key={session.id} className="px-6 py-4 flex items-center justify-between space-x-4">
+                    <div className="flex items-center space-x-3 min-w-0 flex-1">
+                      <Icon className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm font-medium text-gray-900 truncate" title={session.user_agent || undefined}>
+                          {describeDevice(session.user_agent)}
+                          {session.current && (
+                            <span className="ml-2 px-2 py-0.5 text-xs font-medium text-green-700 bg-green-50 rounded-full">
+                              This device
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {session.ip_address || 'Unknown IP'} · {session.current
+                            ? 'Active now'
+                            : `Last seen ${formatDistanceToNow(new Date(session.last_seen_at))} ago`}
+                          {' · '}Signed in {formatDistanceToNow(new Date(session.created_at))} ago
+                        </p>
+                      </div>
+                    </div>
+
+                    <button
+                      onClick={() => handleRevoke(session)}
+                      disabled={revoking === session.id}
+                      className="flex items-center space-x-1 px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50 transition-colors flex-shrink-0"
+                    >
+                      <LogOut className="h-4 w-4" />
+                      <span>{revoking === session.id ? 'Signing out...' : 'Sign out'}</span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,650 @@
+import React, { useEffect, useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import {
+  ArrowLeft,
+  Share2,
+  Search,
+  Globe,
+  Lock,
+  Trash2,
+  UserPlus,
+  FolderTree,
+  UsersRound,
+  Link2,
+  Copy
+} from 'lucide-react';
+import { useApi } from '../hooks/useApi';
+import { useAuthStore } from '../store/authStore';
+import { formatDistanceToNow } from 'date-fns';
+import toast from 'react-hot-toast';
+
+type Permission = 'view' | 'comment' | 'edit';
+
+interface ShareUser {
+  id: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+}
+
+// A share targets either a single user or a group
+interface DocumentShare {
+  id: string;
+  user_id: string | null;
+  group_id: string | null;
+  permission: Permission;
+  created_at: string;
+  user: ShareUser | null;
+  group: {
+    id: string;
+    name: string;
+  } | null;
+  shared_by_user: ShareUser | null;
+}
+
+interface UserResult {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface GroupOption {
+  id: string;
+  name: string;
+  member_count: number;
+}
+
+interface ShareLink {
+  id: string;
+  // Only returned when the link is created; the server keeps a hash of it
+  token?: string;
+  permission: 'view' | 'edit';
+  expires_at: string | null;
+  has_password: boolean;
+  use_count: number;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+type ShareTarget =
+  | ({ type: 'user' } & UserResult)
+  | ({ type: 'group' } & GroupOption);
+
+interface DocumentSummary {
+  id: string;
+  title: string;
+  is_public: boolean;
+  parent_id: string | null;
+  inherit_permissions: boolean;
+  author: {
+    id: string;
+  };
+  ancestors: {
+    id: string;
+    title: string;
+  }[];
+}
+
+const ShareDocument: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const [document, setDocument] = useState<DocumentSummary | null>(null);
+  const [shares, setShares] = useState<DocumentShare[]>([]);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<UserResult[]>([]);
+  const [groups, setGroups] = useState<GroupOption[]>([]);
+  const [selectedTarget, setSelectedTarget] = useState<ShareTarget | null>(null);
+  const [permission, setPermission] = useState<Permission>('view');
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [linkPermission, setLinkPermission] = useState<ShareLink['permission']>('view');
+  const [linkExpiresAt, setLinkExpiresAt] = useState('');
+  const [linkPassword, setLinkPassword] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const { request } = useApi();
+  const { user } = useAuthStore();
+
+  useEffect(() => {
+    if (id) {
+      fetchData();
+    }
+  }, [id]);
+
+  // Search users as the owner types
+  useEffect(() => {
+    if (selectedTarget || query.length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        const data = await request(`/users/search?q=${encodeURIComponent(query)}`);
+        setResults(data || []);
+      } catch {
+        setResults([]);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeoutId);
+  }, [query, selectedTarget, request]);
+
+  // Groups the owner belongs to are matched locally
+  const matchingGroups = selectedTarget || !query
+    ? []
+    : groups.filter(group => group.name.toLowerCase().includes(query.toLowerCase()));
+
+  const fetchData = async () => {
+    try {
+      const [doc, data, groupData, linkData] = await Promise.all([
+        request(`/documents/${id}`),
+        request(`/documents/${id}/shares`),
+        request('/groups'),
+        request(`/documents/${id}/links`)
+      ]);
+      setDocument(doc);
+      setShares(data || []);
+      setGroups(groupData || []);
+      setLinks(linkData || []);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to load sharing settings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchShares = async () => {
+    const data = await request(`/documents/${id}/shares`);
+    setShares(data || []);
+  };
+
+  const handleShare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedTarget) return;
+
+    setSubmitting(true);
+    try {
+      await request(`/documents/${id}/share`, {
+        method: 'POST',
+        body: selectedTarget.type === 'group'
+          ? { groupId: selectedTarget.id, permission }
+          : { userEmail: selectedTarget.email, permission }
+      });
+      toast.success(`Shared with ${selectedTarget.name}`);
+      setSelectedTarget(null);
+      setQuery('');
+      setPermission('view');
+      await fetchShares();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to share document');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handlePermissionChange = async (share: DocumentShare, newPermission: Permission) => {
+    try {
+      await request(`/documents/${id}/share`, {
+        method: 'POST',
+        body: share.group
+          ? { groupId: share.group.id, permission: newPermission }
+          : { userEmail: share.user?.email, permission: newPermission }
+      });
+      toast.success('Permission updated');
+      await fetchShares();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to update permission');
+    }
+  };
+
+  const handleRevoke = async (share: DocumentShare) => {
+    const name = share.group ? share.group.name : `${share.user?.first_name} ${share.user?.last_name}`;
+    if (!confirm(`Remove access for ${name}?`)) return;
+
+    try {
+      await request(
+        share.group ? `/documents/${id}/shares/groups/${share.group.id}` : `/documents/${id}/shares/${share.user_id}`,
+        { method: 'DELETE' }
+      );
+      setShares(prev => prev.filter(s => s.id !== share.id));
+      toast.success('Access removed');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to remove access');
+    }
+  };
+
+  const linkUrl = (token: string) => `${window.location.origin}/s/${token}`;
+
+  const handleCreateLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const link = await request(`/documents/${id}/links`, {
+        method: 'POST',
+        body: {
+          permission: linkPermission,
+          expiresAt: linkExpiresAt ? new Date(linkExpiresAt).toISOString() : null,
+          password: linkPassword || null
+        }
+      });
+      setLinks(prev => [link, ...prev]);
+      setLinkExpiresAt('');
+      setLinkPassword('');
+      await navigator.clipboard?.writeText(linkUrl(link.token)).catch(() => undefined);
+      toast.success('Link created and copied to clipboard. It can only be copied until you leave this page');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to create link');
+    }
+  };
+
+  const handleCopyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(linkUrl(token));
+      toast.success('Link copied to clipboard');
+    } catch {
+      toast.error('Failed to copy link');
+    }
+  };
+
+  const handleRevokeLink = async (link: ShareLink) => {
+    if (!confirm('Revoke this link? Anyone using it will lose access.')) return;
+
+    try {
+      await request(`/documents/${id}/links/${link.id}`, { method: 'DELETE' });
+      setLinks(prev => prev.filter(l => l.id !== link.id));
+      toast.success('Link revoked');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to revoke link');
+    }
+  };
+
+  const handleTogglePublic = async () => {
+    if (!document) return;
+
+    try {
+      const updated = await request(`/documents/${id}`, {
+        method: 'PUT',
+        body: { isPublic: !document.is_public }
+      });
+      setDocument({ ...document, ...updated });
+      toast.success(updated.is_public ? 'Document is now public' : 'Document is now private');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to update visibility');
+    }
+  };
+
+  const handleToggleInherit = async () => {
+    if (!document) return;
+
+    try {
+      const updated = await request(`/documents/${id}`, {
+        method: 'PUT',
+        body: { inheritPermissions: !document.inherit_permissions }
+      });
+      setDocument({ ...document, ...updated });
+      toast.success(
+        updated.inherit_permissions
+          ? 'People who can view the parent page can now view this page'
+          : 'This page no longer inherits access from its parent'
+      );
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to update inherited access');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!document || document.author.id !== user?.id) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Sharing unavailable</h2>
+          <p className="text-gray-600 mb-4">Only the author can manage sharing for this document.</p>
+          <Link
+            to={id ? `/documents/${id}` : '/dashboard'}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Document
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-auto h-full">
+      {/* Header */}
+      <div className="flex items-center p-6 border-b border-gray-200 bg-white space-x-4">
+        <Link
+          to={`/documents/${document.id}`}
+          className="text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <ArrowLeft className="h-5 w-5" />
+        </Link>
+        <div className="flex items-center space-x-2">
+          <Share2 className="h-5 w-5 text-gray-400" />
+          <h1 className="text-xl font-semibold text-gray-900">
+            Share "{document.title || 'Untitled Document'}"
+          </h1>
+        </div>
+      </div>
+
+      <div className="p-8 max-w-3xl space-y-6">
+        {/* Visibility */}
+        <div className="bg-white rounded-lg border border-gray-200 p-6 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            {document.is_public ? (
+              <Globe className="h-6 w-6 text-green-500" />
+            ) : (
+              <Lock className="h-6 w-6 text-gray-400" />
+            )}
+            <div>
+              <p className="font-medium text-gray-900">
+                {document.is_public ? 'Public' : 'Private'}
+              </p>
+              <p className="text-sm text-gray-500">
+                {document.is_public
+                  ? 'Anyone with the link can view this document.'
+                  : 'Only you and the people below can access this document.'}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={handleTogglePublic}
+            role="switch"
+            aria-checked={document.is_public}
+            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+              document.is_public ? 'bg-blue-600' : 'bg-gray-300'
+            }`}
+          >
+            <span
+              className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                document.is_public ? 'translate-x-6' : 'translate-x-1'
+              }`}
+            />
+          </button>
+        </div>
+
+        {/* Inherited access */}
+        {document.parent_id && (
+          <div className="bg-white rounded-lg border border-gray-200 p-6 flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <FolderTree className="h-6 w-6 text-gray-400" />
+              <div>
+                <p className="font-medium text-gray-900">Inherit access from parent page</p>
+                <p className="text-sm text-gray-500">
+                  {document.inherit_permissions
+                    ? `Everyone who can view "${document.ancestors[document.ancestors.length - 1]?.title || 'the parent page'}" can view this page.`
+                    : 'Only the people below can access this page.'}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={handleToggleInherit}
+              role="switch"
+              aria-checked={document.inherit_permissions}
+              className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                document.inherit_permissions ? 'bg-blue-600' : 'bg-gray-300'
+              }`}
+            >
+              <span
+                className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                  document.inherit_permissions ? 'translate-x-6' : 'translate-x-1'
+                }`}
+              />
+            </button>
+          </div>
+        )}
+
+        {/* Add people */}
+        <form onSubmit={handleShare} className="bg-white rounded-lg border border-gray-200 p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Add people or groups</h2>
+          <div className="flex items-start space-x-3">
+            <div className="relative flex-1">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Search className="h-4 w-4 text-gray-400" />
+              </div>
+              <input
+                type="text"
+                value={
+                  selectedTarget
+                    ? selectedTarget.type === 'group'
+                      ? selectedTarget.name
+                      : `${selectedTarget.name} <${selectedTarget.email}>`
+                    : query
+                }
+                onChange={(e) => {
+                  setSelectedTarget(null);
+                  setQuery(e.target.value);
+                }}
+                placeholder="Search by name, email or group..."
+                className="block w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              {(matchingGroups.length > 0 || results.length > 0) && (
+                <div className="absolute left-0 right-0 top-11 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-10">
+                  {matchingGroups.map((group) => (
+                    <button
+                      key={group.id}
+                      type="button"
+                      onClick={() => {
+                        setSelectedTarget({ type: 'group', ...group });
+                        setResults([]);
+                      }}
+                      className="w-full text-left px-4 py-2 hover:bg-gray-100 transition-colors flex items-center space-x-2"
+                    >
+                      <UsersRound className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">{group.name}</p>
+                        <p className="text-xs text-gray-500">
+                          Group · {group.member_count} {group.member_count === 1 ? 'member' : 'members'}
+                        </p>
+                      </div>
+                    </button>
+                  ))}
+                  {results.map((result) => (
+                    <button
+                      key={result.id}
+                      type="button"
+                      onClick={() => {
+                        setSelectedTarget({ type: 'user', ...result });
+                        setResults([]);
+                      }}
+                      className="w-full text-left px-4 py-2 hover:bg-gray-100 transition-colors"
+                    >
+                      <p className="text-sm font-medium text-gray-900">{result.name}</p>
+                      <p className="text-xs text-gray-500">{result.email}</p>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            <select
+              value={permission}
+              onChange={(e) => setPermission(e.target.value as Permission)}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="view">Can view</option>
+              <option value="comment">Can comment</option>
+              <option value="edit">Can edit</option>
+            </select>
+            <button
+              type="submit"
+              disabled={!selectedTarget || submitting}
+              className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <UserPlus className="h-4 w-4" />
+              <span>{submitting ? 'Sharing...' : 'Share'}</span>
+            </button>
+          </div>
+        </form>
+
+        {/* Current shares */}
+        <div className="bg-white rounded-lg border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-900">People and groups with access</h2>
+          </div>
+          {shares.length === 0 ? (
+            <p className="px-6 py-8 text-center text-sm text-gray-500">
+              This document hasn't been shared with anyone yet.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {shares.map((share) => (
+                <li key={share.id} className="px-6 py-4 flex items-center justify-between">
+                  <div className="flex items-center space-x-3 min-w-0">
+                    <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center flex-shrink-0">
+                      {share.group ? (
+                        <UsersRound className="h-4 w-4 text-blue-600" />
+                      ) : (
+                        <span className="text-blue-600 font-medium text-sm">
+                          {share.user?.first_name?.[0]}{share.user?.last_name?.[0]}
+                        </span>
+                      )}
+                    </div>
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">
+                        {share.group ? share.group.name : `${share.user?.first_name} ${share.user?.last_name}`}
+                      </p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {share.group ? 'Group' : share.user?.email}
+                        {share.shared_by_user && (
+                          <> · Shared by {share.shared_by_user.first_name} {share.shared_by_user.last_name}</>
+                        )}
+                        {' '}{formatDistanceToNow(new Date(share.created_at))} ago
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <select
+                      value={share.permission}
+                      onChange={(e) => handlePermissionChange(share, e.target.value as Permission)}
+                      className="border border-gray-300 rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="view">Can view</option>
+                      <option value="comment">Can comment</option>
+                      <option value="edit">Can edit</option>
+                    </select>
+                    <button
+                      onClick={() => handleRevoke(share)}
+                      className="p-2 text-gray-400 hover:text-red-600 hover:bg-gray-100 rounded-lg transition-colors"
+                      title="Remove access"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Share links */}
+        <div className="bg-white rounded-lg border border-gray-200">
+          <form onSubmit={handleCreateLink} className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-900 mb-1">Share links</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              Anyone with a link can open this document without an account.
+            </p>
+            <div className="flex flex-wrap items-center gap-3">
+              <select
+                value={linkPermission}
+                onChange={(e) => setLinkPermission(e.target.value as ShareLink['permission'])}
+                className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="view">Can view</option>
+                <option value="edit">Can edit</option>
+              </select>
+              <input
+                type="datetime-local"
+                value={linkExpiresAt}
+                onChange={(e) => setLinkExpiresAt(e.target.value)}
+                title="Expires (optional)"
+                className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <input
+                type="password"
+                value={linkPassword}
+                onChange={(e) => setLinkPassword(e.target.value)}
+                placeholder="Password (optional)"
+                minLength={4}
+                autoComplete="new-password"
+                className="border border-gray-300 rounded-lg px-3 py-2 text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                type="submit"
+                className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <Link2 className="h-4 w-4" />
+                <span>Create link</span>
+              </button>
+            </div>
+          </form>
+          {links.length === 0 ? (
+            <p className="px-6 py-8 text-center text-sm text-gray-500">
+              There are no active links for this document.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {links.map((link) => {
+                const expired = !!link.expires_at && new Date(link.expires_at) <= new Date();
+                return (
+                  <li key={link.id} className="px-6 py-4 flex items-center justify-between">
+                    <div className="flex items-center space-x-3 min-w-0">
+                      <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center flex-shrink-0">
+                        {link.has_password ? (
+                          <Lock className="h-4 w-4 text-blue-600" />
+                        ) : (
+                          <Link2 className="h-4 w-4 text-blue-600" />
+                        )}
+                      </div>
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">
+                          {link.permission === 'edit' ? 'Can edit' : 'Can view'}
+                          {link.has_password && ' · Password protected'}
+                          {expired && <span className="text-red-600"> · Expired</span>}
+                        </p>
+                        <p className="text-xs text-gray-500 truncate">
+                          Used {link.use_count} {link.use_count === 1 ? 'time' : 'times'}
+                          {link.last_used_at && <>, last {formatDistanceToNow(new Date(link.last_used_at))} ago</>}
+                          {link.expires_at && !expired && (
+                            <> · Expires in {formatDistanceToNow(new Date(link.expires_at))}</>
+                          )}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {link.token && (
+                        <button
+                          onClick={() => handleCopyLink(link.token!)}
+                          className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                          title="Copy link"
+                        >
+                          <Copy className="h-4 w-4" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleRevokeLink(link)}
+                        className="p-2 text-gray-400 hover:text-red-600 hover:bg-gray-100 rounded-lg transition-colors"
+                        title="Revoke link"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareDocument;
@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { BookOpen, Lock, Link2 } from 'lucide-react';
+import { ApiError, useApi } from '../hooks/useApi';
+import { useAuthStore } from '../store/authStore';
+import DocumentEditor from '../components/Editor/DocumentEditor';
+import { formatDistanceToNow } from 'date-fns';
+import toast from 'react-hot-toast';
+
+interface SharedDocument {
+  id: string;
+  title: string;
+  content: string;
+  version: number;
+  updated_at: string;
+  author: {
+    first_name: string;
+    last_name: string;
+  };
+  userPermission?: 'view' | 'comment' | 'edit';
+}
+
+// Opens a document through a share link, with or without an account
+const SharedLinkView: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const [document, setDocument] = useState<SharedDocument | null>(null);
+  const [password, setPassword] = useState('');
+  // Pass for a password-protected link, sent instead of the password
+  const [access, setAccess] = useState('');
+  const [passwordRequired, setPasswordRequired] = useState(false);
+  const [unavailable, setUnavailable] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const { request } = useApi();
+  const { isAuthenticated } = useAuthStore();
+
+  const linkHeaders = (linkAccess: string, linkPassword = ''): Record<string, string> => ({
+    'X-Share-Token': token || '',
+    ...(linkAccess && { 'X-Share-Access': linkAccess }),
+    ...(linkPassword && { 'X-Share-Password': linkPassword })
+  });
+
+  useEffect(() => {
+    if (token) {
+      openLink('');
+    }
+  }, [token]);
+
+  const openLink = async (linkPassword: string) => {
+    try {
+      const link = await request(`/share-links/${token}`, {
+        requireAuth: false,
+        headers: linkHeaders('', linkPassword)
+      });
+
+      if (link.passwordRequired) {
+        setPasswordRequired(true);
+        return;
+      }
+
+      const linkAccess = link.access || '';
+      setAccess(linkAccess);
+
+      const data = await request(`/documents/${link.documentId}`, {
+        headers: linkHeaders(linkAccess)
+      });
+      setDocument(data);
+      setPasswordRequired(false);
+    } catch (error) {
+      if (linkPassword) {
+        toast.error((error as Error).message || 'Incorrect link password');
+      } else {
+        setUnavailable(true);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password) {
+      openLink(password);
+    }
+  };
+
+  const handleSave = async (title: string, content?: string, baseVersion?: number) => {
+    if (!document) return;
+
+    try {
+      const updated = await request(`/documents/${document.id}`, {
+        method: 'PUT',
+        body: { title, ...(content !== undefined && { content, baseVersion }) },
+        headers: linkHeaders(access)
+      });
+      setDocument({ ...document, ...updated });
+      return updated;
+    } catch (error) {
+      // Conflicts and unreachable servers are handled by the editor
+      if (error instanceof ApiError && error.status !== 409) {
+        toast.error(error.message || 'Failed to save document');
+      }
+      throw error;
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (passwordRequired) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4">
+        <form onSubmit={handleUnlock} className="max-w-sm w-full bg-white rounded-lg border border-gray-200 p-6 space-y-4">
+          <div className="flex items-center space-x-2">
+            <Lock className="h-5 w-5 text-gray-400" />
+            <h1 className="text-lg font-semibold text-gray-900">This link is password protected</h1>
+          </div>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Enter the link password"
+            autoFocus
+            className="block w-full px-3 py-2 border border-gray-300 rounded-lg placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={!password}
+            className="w-full bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Open document
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  if (unavailable || !document) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Link unavailable</h2>
+          <p className="text-gray-600 mb-4">This share link is invalid, has expired or was revoked.</p>
+          <Link
+            to={isAuthenticated ? '/dashboard' : '/login'}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            {isAuthenticated ? 'Back to Dashboard' : 'Sign in'}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const canEdit = document.userPermission === 'edit' || !document.userPermission;
+
+  return (
+    <div className="h-screen flex flex-col bg-gray-50">
+      {/* Header */}
+      <div className="flex items-center justify-between p-6 border-b border-gray-200 bg-white">
+        <div className="flex items-center space-x-3">
+          <BookOpen className="h-6 w-6 text-blue-600" />
+          <h1 className="text-xl font-semibold text-gray-900">
+            {document.title || 'Untitled Document'}
+          </h1>
+        </div>
+        <div className="flex items-center space-x-4 text-sm text-gray-500">
+          <span className="flex items-center space-x-1">
+            <Link2 className="h-4 w-4" />
+            <span>{canEdit ? 'Shared with edit access' : 'Shared with view access'}</span>
+          </span>
+          <span>
+            By {document.author.first_name} {document.author.last_name} · Updated{' '}
+            {formatDistanceToNow(new Date(document.updated_at))} ago
+          </span>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-hidden bg-white">
+        <DocumentEditor
+          documentId={document.id}
+          initialTitle={document.title}
+          initialContent={document.content}
+          initialVersion={document.version}
+          onSave={handleSave}
+          readOnly={!canEdit}
+          requestHeaders={linkHeaders(access)}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default SharedLinkView;
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Layers, Plus, ChevronRight } from 'lucide-react';
+import { useApi } from '../hooks/useApi';
+import { useSpaceStore } from '../store/spaceStore';
+import toast from 'react-hot-toast';
+
+interface Space {
+  id: string;
+  name: string;
+  description: string;
+  role: 'admin' | 'editor' | 'viewer';
+}
+
+const Spaces: React.FC = () => {
+  const [spaces, setSpaces] = useState<Space[]>([]);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const { request } = useApi();
+  const { setCurrentSpace } = useSpaceStore();
+
+  useEffect(() => {
+    fetchSpaces();
+  }, []);
+
+  const fetchSpaces = async () => {
+    try {
+      const data = await request('/spaces');
+      setSpaces(data || []);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to fetch spaces');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setSubmitting(true);
+    try {
+      const space = await request('/spaces', {
+        method: 'POST',
+        body: { name, description }
+      });
+      setSpaces(prev => [...prev, space].sort((a, b) => a.name.localeCompare(b.name)));
+      setCurrentSpace(space.id);
+      setName('');
+      setDescription('');
+      toast.success(`Created ${space.name}`);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to create space');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="p-8 max-w-3xl">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Spaces</h1>
+          <p className="text-gray-600">
+            Group documents by team. Members see every document in the space.
+          </p>
+        </div>
+
+        <form onSubmit={handleCreate} className="bg-white rounded-lg border border-gray-200 p-6 mb-6 space-y-3">
+          <h2 className="text-lg font-medium text-gray-900">New space</h2>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Space name"
+            maxLength={100}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-lg placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="What is this space for? (optional)"
+            maxLength={500}
+            rows={2}
+            className="block w-full px-3 py-2 border border-gray-300 rounded-lg placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={!name.trim() || submitting}
+            className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            <span>{submitting ? 'Creating...' : 'Create space'}</span>
+          </button>
+        </form>
+
+        <div className="bg-white rounded-lg border border-gray-200">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : spaces.length === 0 ? (
+            <p className="px-6 py-8 text-center text-sm text-gray-500">
+              You're not a member of any space yet.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {spaces.map((space) => (
+                <li key={space.id}>
+                  <Link
+                    to={`/spaces/${space.id}`}
+                    className="px-6 py-4 flex items-center justify-between hover:bg-gray-50 transition-colors"
+                  >
+                    <div className="flex items-center space-x-3 min-w-0">
+                      <Layers className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">{space.name}</p>
+                        {space.description && (
+                          <p className="text-xs text-gray-500 truncate">{space.description}</p>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2 text-sm text-gray-500">
+                      <span className="capitalize">{space.role}</span>
+                      <ChevronRight className="h-4 w-4" />
+                    </div>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Spaces;
@@ -0,0 +1,86 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { useApi } from '../hooks/useApi';
+import { useAuthStore } from '../store/authStore';
+
+// Opened from the link in a verification email, signed in or not
+const VerifyEmail: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+  const [error, setError] = useState('');
+  const started = useRef(false);
+  const { request } = useApi();
+  const { user, isAuthenticated, setUser } = useAuthStore();
+  const token = searchParams.get('token');
+
+  useEffect(() => {
+    // The link only works once, so React's double effects in development
+    // must not send it twice
+    if (started.current) return;
+    started.current = true;
+    verify();
+  }, []);
+
+  const verify = async () => {
+    if (!token) {
+      setError('This verification link is incomplete.');
+      setStatus('failed');
+      return;
+    }
+
+    try {
+      const data = await request('/auth/verify-email', {
+        method: 'POST',
+        body: { token },
+        requireAuth: false
+      });
+
+      if (user?.id === data.user.id) {
+        setUser(data.user);
+      }
+      setStatus('verified');
+    } catch (error) {
+      setError((error as Error).message || 'Failed to verify email');
+      setStatus('failed');
+    }
+  };
+
+  if (status === 'verifying') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4">
+      <div className="max-w-sm w-full bg-white rounded-lg border border-gray-200 p-6 text-center">
+        {status === 'verified' ? (
+          <>
+            <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Email verified</h1>
+            <p className="text-gray-600 mb-6">You can now share documents and have them shared with you.</p>
+          </>
+        ) : (
+          <>
+            <XCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Verification failed</h1>
+            <p className="text-gray-600 mb-6">
+              {error} {isAuthenticated && 'You can request a new link from the banner at the top of the app.'}
+            </p>
+          </>
+        )}
+        <Link
+          to={isAuthenticated ? '/dashboard' : '/login'}
+          className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          {isAuthenticated ? 'Back to Dashboard' : 'Sign in'}
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmail;
@@ -7,29 +7,50 @@ interface User {
   firstName: string;
   lastName: string;
   createdAt: string;
+  // Sharing is limited until the user confirms their email address
+  emailVerified: boolean;
 }
 
 interface AuthState {
   user: User | null;
+  // Short-lived access token, renewed with the refresh token (see utils/authSession)
   token: string | null;
+  refreshToken: string | null;
   isAuthenticated: boolean;
-  setAuth: (user: User, token: string) => void;
+  setAuth: (user: User, token: string, refreshToken: string) => void;
+  setTokens: (token: string, refreshToken: string) => void;
+  setUser: (user: User) => void;
   logout: () => void;
 }
 
+const STORAGE_NAME = 'auth-storage';
+
 export const useAuthStore = create<AuthState>()(
   persist(
     (set) => ({
       user: null,
       token: null,
+      refreshToken: null,
       isAuthenticated: false,
-      setAuth: (user, token) => 
-        set({ user, token, isAuthenticated: true }),
+      setAuth: (user, token, refreshToken) => 
+        set({ user, token, refreshToken, isAuthenticated: true }),
+      setTokens: (token, refreshToken) =>
+        set({ token, refreshToken }),
+      setUser: (user) =>
+        set({ user }),
       logout: () => 
-        set({ user: null, token: null, isAuthenticated: false }),
+        set({ user: null, token: null, refreshToken: null, isAuthenticated: false }),
     }),
     {
-      name: 'auth-storage',
+      name: STORAGE_NAME,
     }
   )
-);
\ No newline at end of file
+);
+
+// Refresh tokens are single-use, so tabs must pick up the tokens another tab
+// refreshed (or signed out) rather than keep using their own copy
+window.addEventListener('storage', (event) => {
+  if (event.key === STORAGE_NAME) {
+    useAuthStore.persist.rehydrate();
+  }
+});
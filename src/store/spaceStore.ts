@@ -0,0 +1,21 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+interface SpaceState {
+  // null shows every document the user can reach
+  currentSpaceId: string | null;
+  setCurrentSpace: (spaceId: string | null) => void;
+}
+
+export const useSpaceStore = create<SpaceState>()(
+  persist(
+    (set) => ({
+      currentSpaceId: null,
+      setCurrentSpace: (spaceId) =>
+        set({ currentSpaceId: spaceId }),
+    }),
+    {
+      name: 'space-storage',
+    }
+  )
+);
@@ -0,0 +1,79 @@
+import { useAuthStore } from '../store/authStore';
+import { API_BASE_URL } from '../config/supabase';
+
+// Renew access tokens shortly before they expire rather than after
+const EXPIRY_MARGIN = 30 * 1000;
+
+let refreshing: Promise<string | null> | null = null;
+
+const expiresSoon = (token: string) => {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const { exp } = JSON.parse(atob(payload));
+    return exp * 1000 - Date.now() < EXPIRY_MARGIN;
+  } catch {
+    return true;
+  }
+};
+
+const refresh = async (expiredToken: string | null) => {
+  // Another tab may have refreshed while this one waited for the lock
+  await useAuthStore.persist.rehydrate();
+  const { token, refreshToken, setTokens, logout } = useAuthStore.getState();
+
+  if (token && token !== expiredToken) return token;
+  if (!refreshToken) return null;
+
+  const response = await fetch(`${API_BASE_URL}/auth/refresh`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ refreshToken }),
+  });
+
+  // The session was revoked or has expired
+  if (!response.ok) {
+    logout();
+    return null;
+  }
+
+  const data = await response.json();
+  setTokens(data.token, data.refreshToken);
+  return data.token as string;
+};
+
+// Trade the refresh token for a new access token. Callers pass the token that
+// was refused, so that one that has been replaced meanwhile is not refreshed
+// again. Resolves with null when the user has to sign in again.
+export const refreshAccessToken = (expiredToken: string | null) => {
+  if (!refreshing) {
+    const run = () => refresh(expiredToken);
+    // Refresh tokens are single-use: tabs take turns
+    refreshing = (navigator.locks ? navigator.locks.request('auth-refresh', run) : run())
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+  return refreshing;
+};
+
+// An access token that is not about to expire, for connections that send it
+// once, such as the collaboration and presence sockets
+export const getFreshAccessToken = async () => {
+  const { token } = useAuthStore.getState();
+  if (token && !expiresSoon(token)) return token;
+  return refreshAccessToken(token);
+};
+
+// Sign out, ending the session on the server as well
+export const signOut = async () => {
+  const { refreshToken, logout } = useAuthStore.getState();
+  logout();
+
+  if (refreshToken) {
+    await fetch(`${API_BASE_URL}/auth/logout`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken }),
+    }).catch(error => console.error('Failed to end session:', error));
+  }
+};
@@ -0,0 +1,22 @@
+// Save a file fetched or generated in the browser
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Save text generated in the browser as a file
+export const downloadText = (filename: string, text: string, type = 'text/plain') => {
+  downloadBlob(filename, new Blob([text], { type }));
+};
+
+// File name from a Content-Disposition header, if it names one
+export const dispositionFilename = (header: string | null) => {
+  const encoded = header?.match(/filename\*=UTF-8''([^;]+)/i)?.[1];
+  if (encoded) return decodeURIComponent(encoded);
+  return header?.match(/filename="?([^";]+)"?/i)?.[1] || null;
+};
@@ -0,0 +1,353 @@
+// Word-level diff for the HTML produced by DocumentEditor (TipTap).
+//
+// Both versions are flattened into a stream of word, whitespace and block-break
+// tokens. Every token remembers the inline marks (bold, italic, ...) and the
+// block it belongs to, so a word that only changed formatting is reported as
+// "formatted" instead of being removed and re-added.
+
+export type DiffOp = 'equal' | 'added' | 'removed' | 'formatted';
+
+export interface DiffToken {
+  kind: 'word' | 'space' | 'break';
+  text: string;
+  marks: string[];
+  block: string;
+}
+
+export interface DiffPart {
+  op: DiffOp;
+  token: DiffToken;
+  previous?: DiffToken;
+}
+
+const MARK_TAGS: Record<string, string> = {
+  strong: 'bold',
+  b: 'bold',
+  em: 'italic',
+  i: 'italic',
+  s: 'strike',
+  strike: 'strike',
+  del: 'strike',
+  u: 'underline',
+  code: 'code',
+  a: 'link',
+  mark: 'highlight'
+};
+
+const TEXT_BLOCKS = new Set(['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'pre', 'li']);
+
+const MARK_LABELS: Record<string, string> = {
+  bold: 'bold',
+  italic: 'italic',
+  strike: 'strikethrough',
+  underline: 'underline',
+  code: 'code',
+  link: 'link',
+  highlight: 'highlight'
+};
+
+export const describeBlock = (block: string) => {
+  if (block.startsWith('ul')) return 'Bullet list';
+  if (block.startsWith('ol')) return 'Numbered list';
+  if (block.startsWith('blockquote')) return 'Quote';
+  if (block === 'pre') return 'Code block';
+  if (block === 'hr') return 'Divider';
+  const heading = block.match(/^h([1-6])$/);
+  if (heading) return `Heading ${heading[1]}`;
+  return 'Paragraph';
+};
+
+export const describeFormatChange = (part: DiffPart) => {
+  if (!part.previous) return '';
+
+  if (part.token.kind === 'break') {
+    return `${describeBlock(part.previous.block)} → ${describeBlock(part.token.block)}`;
+  }
+
+  const added = part.token.marks.filter(mark => !part.previous!.marks.includes(mark));
+  const removed = part.previous.marks.filter(mark => !part.token.marks.includes(mark));
+  const changes = [
+    ...added.map(mark => `${MARK_LABELS[mark] || mark} added`),
+    ...removed.map(mark => `${MARK_LABELS[mark] || mark} removed`)
+  ];
+
+  return changes.join(', ');
+};
+
+export const tokenizeHtml = (html: string): DiffToken[] => {
+  const tokens: DiffToken[] = [];
+  const body = new DOMParser().parseFromString(html || '', 'text/html').body;
+
+  const pushBreak = (block: string) => {
+    const last = tokens[tokens.length - 1];
+    // A list item wrapping a paragraph should produce a single break
+    if (last && last.kind === 'break') {
+      last.block = block;
+      return;
+    }
+    tokens.push({ kind: 'break', text: '\n', marks: [], block });
+  };
+
+  const walk = (node: Node, marks: string[], containers: string[]) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const block = containers.length > 0 ? containers.join(' > ') : 'p';
+      const pieces = (node.textContent || '').split(/(\s+)/).filter(Boolean);
+      for (const piece of pieces) {
+        tokens.push({
+          kind: /^\s+$/.test(piece) ? 'space' : 'word',
+          text: piece,
+          marks,
+          block
+        });
+      }
+      return;
+    }
+
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const tag = (node as Element).tagName.toLowerCase();
+
+    if (tag === 'br') {
+      tokens.push({ kind: 'space', text: ' ', marks, block: containers.join(' > ') || 'p' });
+      return;
+    }
+
+    if (tag === 'hr') {
+      pushBreak('hr');
+      return;
+    }
+
+    let nextMarks = marks;
+    let nextContainers = containers;
+
+    if (MARK_TAGS[tag] && !marks.includes(MARK_TAGS[tag])) {
+      nextMarks = [...marks, MARK_TAGS[tag]].sort();
+    }
+
+    if (tag === 'ul' || tag === 'ol' || tag === 'blockquote') {
+      nextContainers = [...containers, tag];
+    }
+
+    if (TEXT_BLOCKS.has(tag)) {
+      const listOrQuote = containers.filter(c => c !== 'li');
+      const block = tag === 'li' || (tag === 'p' && listOrQuote.length > 0)
+        ? listOrQuote.join(' > ') || 'p'
+        : [...listOrQuote, tag].join(' > ');
+      pushBreak(block);
+      nextContainers = tag === 'li' ? [...containers, 'li'] : block.split(' > ');
+    }
+
+    node.childNodes.forEach(child => walk(child, nextMarks, nextContainers));
+  };
+
+  body.childNodes.forEach(child => walk(child, [], []));
+
+  // Drop the leading break so the first block does not render as a change
+  if (tokens.length > 0 && tokens[0].kind === 'break') {
+    tokens[0] = { ...tokens[0], text: '' };
+  }
+
+  return tokens;
+};
+
+const tokenKey = (token: DiffToken) =>
+  token.kind === 'break' ? '\u0000break' : token.text;
+
+// Block changes are reported once, on the break token that opens the block
+const sameFormatting = (a: DiffToken, b: DiffToken) =>
+  a.kind === 'break'
+    ? a.block === b.block
+    : a.marks.join(',') === b.marks.join(',');
+
+// Backtracking keeps one snapshot of the diagonals per edit step, O(D²) in
+// all. Versions further apart than this (e.g. after a restore or an import)
+// are shown as the old text replaced by the new rather than freezing the tab.
+const MAX_EDIT_DISTANCE = 2000;
+
+// Myers' O(ND) shortest edit script. Returns [op, oldIndex, newIndex] triples.
+const shortestEdit = (a: string[], b: string[]): Array<[DiffOp, number, number]> => {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const limit = Math.min(max, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= limit && !found; d++) {
+    // Only the diagonals reachable in this round are needed when backtracking
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  if (!found) {
+    return [
+      ...a.map((_, i): [DiffOp, number, number] => ['removed', i, -1]),
+      ...b.map((_, j): [DiffOp, number, number] => ['added', -1, j])
+    ];
+  }
+
+  const ops: Array<[DiffOp, number, number]> = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push(['equal', x - 1, y - 1]);
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push(['added', -1, y - 1]);
+      } else {
+        ops.push(['removed', x - 1, -1]);
+      }
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+};
+
+// Whitespace that happens to match between two rewritten words is noise;
+// fold it into the surrounding change and list removals before additions.
+const cleanup = (parts: DiffPart[]): DiffPart[] => {
+  const isChange = (part?: DiffPart) =>
+    !!part && (part.op === 'added' || part.op === 'removed');
+
+  const expanded: DiffPart[] = [];
+  parts.forEach((part, index) => {
+    if (
+      part.op === 'equal' &&
+      part.token.kind === 'space' &&
+      isChange(parts[index - 1]) &&
+      isChange(parts[index + 1])
+    ) {
+      expanded.push({ op: 'removed', token: part.previous || part.token });
+      expanded.push({ op: 'added', token: part.token });
+    } else {
+      expanded.push(part);
+    }
+  });
+
+  const result: DiffPart[] = [];
+  let removed: DiffPart[] = [];
+  let added: DiffPart[] = [];
+
+  const flush = () => {
+    result.push(...removed, ...added);
+    removed = [];
+    added = [];
+  };
+
+  for (const part of expanded) {
+    if (part.op === 'removed') {
+      removed.push(part);
+    } else if (part.op === 'added') {
+      added.push(part);
+    } else {
+      flush();
+      result.push(part);
+    }
+  }
+  flush();
+
+  return result;
+};
+
+export const diffHtml = (oldHtml: string, newHtml: string): DiffPart[] => {
+  const before = tokenizeHtml(oldHtml);
+  const after = tokenizeHtml(newHtml);
+
+  // Trim the common prefix and suffix before running the edit script
+  let start = 0;
+  while (
+    start < before.length &&
+    start < after.length &&
+    tokenKey(before[start]) === tokenKey(after[start])
+  ) {
+    start++;
+  }
+
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (
+    endBefore > start &&
+    endAfter > start &&
+    tokenKey(before[endBefore - 1]) === tokenKey(after[endAfter - 1])
+  ) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const ops: Array<[DiffOp, number, number]> = [];
+  for (let i = 0; i < start; i++) {
+    ops.push(['equal', i, i]);
+  }
+
+  shortestEdit(
+    before.slice(start, endBefore).map(tokenKey),
+    after.slice(start, endAfter).map(tokenKey)
+  ).forEach(([op, i, j]) => {
+    ops.push([op, i < 0 ? i : i + start, j < 0 ? j : j + start]);
+  });
+
+  for (let i = 0; i < before.length - endBefore; i++) {
+    ops.push(['equal', endBefore + i, endAfter + i]);
+  }
+
+  const parts = ops.map(([op, i, j]): DiffPart => {
+    if (op === 'removed') return { op, token: before[i] };
+    if (op === 'added') return { op, token: after[j] };
+
+    const previous = before[i];
+    const token = after[j];
+    return sameFormatting(previous, token)
+      ? { op: 'equal', token, previous }
+      : { op: 'formatted', token, previous };
+  });
+
+  return cleanup(parts);
+};
+
+export const summarizeDiff = (parts: DiffPart[]) =>
+  parts.reduce(
+    (summary, part) => {
+      if (part.token.kind !== 'word' && part.op !== 'formatted') return summary;
+      if (part.op === 'added') summary.added++;
+      if (part.op === 'removed') summary.removed++;
+      if (part.op === 'formatted') summary.formatted++;
+      return summary;
+    },
+    { added: 0, removed: 0, formatted: 0 }
+  );
@@ -0,0 +1,192 @@
+import * as Y from 'yjs';
+import { IndexeddbPersistence } from 'y-indexeddb';
+
+// Documents opened in the app and saves made while offline, kept in IndexedDB
+// so that neither is lost on a reload. Entries belong to the signed-in user
+// (null when editing through a share link without an account), so another
+// account in the same browser never sees them.
+
+const DB_NAME = 'docs-offline';
+const DB_VERSION = 1;
+const DOCUMENTS = 'documents';
+const SAVES = 'saves';
+
+export interface SavedCopy {
+  version: number;
+  title: string;
+  content: string;
+  updated_at?: string;
+}
+
+export interface QueuedSave {
+  documentId: string;
+  userId: string | null;
+  title: string;
+  content: string;
+  // The server copy the edits started from, for the version check on replay
+  // and for merging when it fails
+  base: SavedCopy;
+  // Share link credentials for saves made through a link
+  headers?: Record<string, string>;
+  queuedAt: number;
+  // The newer server copy that refused the save on replay; the editor shows
+  // the merge view for it when the document is opened
+  conflict?: SavedCopy;
+}
+
+interface CachedDocument<T> {
+  key: string;
+  document: T;
+  cachedAt: number;
+}
+
+const keyFor = (userId: string | null, documentId: string) => `${userId || 'link'}:${documentId}`;
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const open = indexedDB.open(DB_NAME, DB_VERSION);
+      open.onupgradeneeded = () => {
+        open.result.createObjectStore(DOCUMENTS, { keyPath: 'key' });
+        open.result.createObjectStore(SAVES, { keyPath: 'key' });
+      };
+      open.onsuccess = () => resolve(open.result);
+      open.onerror = () => {
+        database = null;
+        reject(open.error);
+      };
+    });
+  }
+  return database;
+};
+
+const promised = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Run `work` in a transaction, resolving once it has been committed
+const transaction = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => Promise<T>
+) => {
+  const tx = (await openDatabase()).transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await work(tx.objectStore(storeName));
+  await done;
+  return result;
+};
+
+type StoredSave = QueuedSave & { key: string };
+
+export const cacheDocument = <T extends { id: string }>(userId: string | null, document: T) =>
+  transaction(DOCUMENTS, 'readwrite', async (store) => {
+    const entry: CachedDocument<T> = { key: keyFor(userId, document.id), document, cachedAt: Date.now() };
+    await promised(store.put(entry));
+  });
+
+// Apply a save to the cached copy, if the document is cached
+export const updateCachedDocument = (userId: string | null, documentId: string, changes: object) =>
+  transaction(DOCUMENTS, 'readwrite', async (store) => {
+    const key = keyFor(userId, documentId);
+    const entry: CachedDocument<object> | undefined = await promised(store.get(key));
+    if (entry) {
+      await promised(store.put({ ...entry, document: { ...entry.document, ...changes }, cachedAt: Date.now() }));
+    }
+  });
+
+export const getCachedDocument = <T>(userId: string | null, documentId: string) =>
+  transaction(DOCUMENTS, 'readonly', async (store) => {
+    const entry: CachedDocument<T> | undefined = await promised(store.get(keyFor(userId, documentId)));
+    return entry?.document ?? null;
+  });
+
+// Queue the latest edits of a document, replacing any queued before
+export const queueSave = (save: Omit<QueuedSave, 'queuedAt'>) =>
+  transaction(SAVES, 'readwrite', async (store) => {
+    const entry: StoredSave = { ...save, key: keyFor(save.userId, save.documentId), queuedAt: Date.now() };
+    await promised(store.put(entry));
+  });
+
+export const getQueuedSave = (userId: string | null, documentId: string) =>
+  transaction(SAVES, 'readonly', async (store) => {
+    const entry: StoredSave | undefined = await promised(store.get(keyFor(userId, documentId)));
+    return entry ?? null;
+  });
+
+export const getQueuedSaves = (userId: string | null) =>
+  transaction(SAVES, 'readonly', async (store) => {
+    const entries: StoredSave[] = await promised(store.getAll());
+    return entries.filter(entry => entry.userId === userId);
+  });
+
+export const removeQueuedSave = (userId: string | null, documentId: string) =>
+  transaction(SAVES, 'readwrite', async (store) => {
+    await promised(store.delete(keyFor(userId, documentId)));
+  });
+
+// A replayed save went through. Edits queued while it was under way stay
+// queued, now based on the copy just saved.
+export const settleQueuedSave = (save: QueuedSave, saved: SavedCopy) =>
+  transaction(SAVES, 'readwrite', async (store) => {
+    const key = keyFor(save.userId, save.documentId);
+    const current: StoredSave | undefined = await promised(store.get(key));
+    if (!current) return;
+
+    if (current.queuedAt === save.queuedAt) {
+      await promised(store.delete(key));
+    } else {
+      await promised(store.put({ ...current, base: { ...saved, content: save.content } }));
+    }
+  });
+
+export const markSaveConflict = (save: QueuedSave, theirs: SavedCopy) =>
+  transaction(SAVES, 'readwrite', async (store) => {
+    const key = keyFor(save.userId, save.documentId);
+    const current: StoredSave | undefined = await promised(store.get(key));
+    if (current) {
+      await promised(store.put({ ...current, conflict: theirs }));
+    }
+  });
+
+// Documents open in an editor replay their own queued saves (see
+// DocumentEditor), so the background sync leaves them alone
+const openInEditor = new Set<string>();
+
+export const registerOpenEditor = (documentId: string) => {
+  openInEditor.add(documentId);
+  return () => {
+    openInEditor.delete(documentId);
+  };
+};
+
+export const isOpenInEditor = (documentId: string) => openInEditor.has(documentId);
+
+// Collaborative documents keep their shared state on the device as well, one
+// y-indexeddb database per user and document. Edits made while the
+// collaboration server cannot be reached, before or after a reload, are
+// merged by it once the connection is back.
+export const persistCollabState = (userId: string, documentId: string, ydoc: Y.Doc) =>
+  new IndexeddbPersistence(`docs-collab:${userId}:${documentId}`, ydoc);
+
+// Whether the document was edited collaboratively on this device before, so
+// that it can be opened collaboratively while offline
+export const hasCollabState = async (userId: string, documentId: string) => {
+  const ydoc = new Y.Doc();
+  const persistence = persistCollabState(userId, documentId, ydoc);
+  try {
+    await persistence.whenSynced;
+    return ydoc.store.clients.size > 0;
+  } finally {
+    await persistence.destroy();
+    ydoc.destroy();
+  }
+};
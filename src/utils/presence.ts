@@ -0,0 +1,20 @@
+// Collaborator colors: the same user gets the same color for their avatar
+// ring in the document header and their cursor inside the editor.
+const COLORS = [
+  '#2563eb',
+  '#7c3aed',
+  '#059669',
+  '#ea580c',
+  '#db2777',
+  '#0891b2',
+  '#ca8a04',
+  '#dc2626'
+];
+
+export const colorForUser = (userId: string) => {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return COLORS[Math.abs(hash) % COLORS.length];
+};
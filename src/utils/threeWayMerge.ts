@@ -0,0 +1,132 @@
+// Three-way merge for the HTML produced by DocumentEditor (TipTap).
+//
+// Documents are compared as lists of top-level blocks (paragraphs, headings,
+// lists, tables, ...). Blocks that both versions kept from the common base
+// split the documents into sections; a section changed on one side only takes
+// that side, and a section changed differently on both sides is a conflict
+// for the user to decide.
+
+export interface MergeSection {
+  conflict: boolean;
+  // The merged blocks; for conflicts, the blocks of both sides
+  blocks: string[];
+  base: string[];
+  mine: string[];
+  theirs: string[];
+}
+
+export type SectionChoice = 'mine' | 'theirs' | 'both';
+
+export const splitBlocks = (html: string): string[] => {
+  const body = new DOMParser().parseFromString(html || '', 'text/html').body;
+  return Array.from(body.children).map(element => element.outerHTML);
+};
+
+const sameBlocks = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((block, index) => block === b[index]);
+
+// Pairs of indexes of the longest common subsequence of blocks
+const commonBlocks = (a: string[], b: string[]): Map<number, number> => {
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs = new Map<number, number>();
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pairs.set(i, j);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+};
+
+export const mergeHtml = (baseHtml: string, mineHtml: string, theirsHtml: string): MergeSection[] => {
+  const base = splitBlocks(baseHtml);
+  const mine = splitBlocks(mineHtml);
+  const theirs = splitBlocks(theirsHtml);
+  const inMine = commonBlocks(base, mine);
+  const inTheirs = commonBlocks(base, theirs);
+
+  const sections: MergeSection[] = [];
+  let b = 0;
+  let m = 0;
+  let t = 0;
+
+  const pushSection = (section: MergeSection) => {
+    const last = sections[sections.length - 1];
+    if (last && !last.conflict && !section.conflict) {
+      last.blocks.push(...section.blocks);
+      last.base.push(...section.base);
+      last.mine.push(...section.mine);
+      last.theirs.push(...section.theirs);
+    } else {
+      sections.push(section);
+    }
+  };
+
+  // The blocks between two stable ones, or after the last
+  const pushChanges = (baseEnd: number, mineEnd: number, theirsEnd: number) => {
+    const changes = {
+      base: base.slice(b, baseEnd),
+      mine: mine.slice(m, mineEnd),
+      theirs: theirs.slice(t, theirsEnd)
+    };
+    if (changes.base.length + changes.mine.length + changes.theirs.length === 0) return;
+
+    if (sameBlocks(changes.mine, changes.base)) {
+      pushSection({ conflict: false, blocks: [...changes.theirs], ...changes });
+    } else if (sameBlocks(changes.theirs, changes.base) || sameBlocks(changes.mine, changes.theirs)) {
+      pushSection({ conflict: false, blocks: [...changes.mine], ...changes });
+    } else {
+      pushSection({ conflict: true, blocks: [...changes.mine, ...changes.theirs], ...changes });
+    }
+  };
+
+  base.forEach((block, index) => {
+    if (!inMine.has(index) || !inTheirs.has(index)) return;
+
+    const mineIndex = inMine.get(index)!;
+    const theirsIndex = inTheirs.get(index)!;
+    pushChanges(index, mineIndex, theirsIndex);
+    pushSection({ conflict: false, blocks: [block], base: [block], mine: [block], theirs: [block] });
+
+    b = index + 1;
+    m = mineIndex + 1;
+    t = theirsIndex + 1;
+  });
+  pushChanges(base.length, mine.length, theirs.length);
+
+  return sections;
+};
+
+// Join the sections back into HTML, with one choice per conflicting section
+export const applyMerge = (sections: MergeSection[], choices: Record<number, SectionChoice>) =>
+  sections
+    .map((section, index) => {
+      if (!section.conflict) return section.blocks.join('');
+      const choice = choices[index] || 'mine';
+      if (choice === 'both') return [...section.mine, ...section.theirs].join('');
+      return section[choice].join('');
+    })
+    .join('');
+
+// Titles merge the same way: a side that kept the base title takes the other
+export const mergeTitle = (base: string, mine: string, theirs: string) => {
+  if (mine === base || mine === theirs) return { title: theirs, conflict: false };
+  if (theirs === base) return { title: mine, conflict: false };
+  return { title: mine, conflict: true };
+};
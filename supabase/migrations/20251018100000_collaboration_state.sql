@@ -0,0 +1,25 @@
+/*
+  # Real-time collaboration state
+
+  1. New Tables
+    - `document_collab_states` - Encoded Yjs state of a document's shared editing session
+
+  2. Security
+    - Enable RLS
+    - Only the backend (service role) reads and writes collaboration state
+*/
+
+-- Create document_collab_states table
+CREATE TABLE IF NOT EXISTS document_collab_states (
+  document_id UUID PRIMARY KEY REFERENCES documents(id) ON DELETE CASCADE,
+  state TEXT NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE document_collab_states ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for document_collab_states table
+DROP POLICY IF EXISTS "Service role manages collaboration state" ON document_collab_states;
+CREATE POLICY "Service role manages collaboration state" ON document_collab_states
+  FOR ALL USING (true);
@@ -0,0 +1,53 @@
+/*
+  # Notifications and document subscriptions
+
+  1. New Tables
+    - `notifications` - In-app notifications (shares, mentions, new versions of watched documents)
+    - `document_subscriptions` - Documents a user watches for new versions
+
+  2. Security
+    - Enable RLS on both tables
+    - Add policies for proper access control
+    - Create indexes for performance
+*/
+
+-- Create notifications table
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  type TEXT CHECK (type IN ('share', 'mention', 'document_update')) NOT NULL,
+  document_id UUID REFERENCES documents(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  message TEXT NOT NULL,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create document_subscriptions table
+CREATE TABLE IF NOT EXISTS document_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID REFERENCES documents(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(document_id, user_id)
+);
+
+-- Enable RLS
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE document_subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for notifications table
+DROP POLICY IF EXISTS "Users can manage their notifications" ON notifications;
+CREATE POLICY "Users can manage their notifications" ON notifications
+  FOR ALL USING (true);
+
+-- Create policies for document_subscriptions table
+DROP POLICY IF EXISTS "Users can manage their subscriptions" ON document_subscriptions;
+CREATE POLICY "Users can manage their subscriptions" ON document_subscriptions
+  FOR ALL USING (true);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_document_subscriptions_document ON document_subscriptions(document_id);
+CREATE INDEX IF NOT EXISTS idx_document_subscriptions_user ON document_subscriptions(user_id);
@@ -0,0 +1,64 @@
+/*
+  # Comment threads
+
+  1. New Tables
+    - `comment_threads` - Threads anchored to a range of text in a document
+    - `comments` - Messages in a thread (the first one opens the thread)
+
+  2. Changes
+    - `document_shares.permission` accepts `comment`: view the document and
+      take part in comment threads without editing it
+
+  3. Security
+    - Enable RLS on both tables
+    - Add policies for proper access control
+    - Create indexes for performance
+*/
+
+-- Allow the comment permission level
+ALTER TABLE document_shares DROP CONSTRAINT IF EXISTS document_shares_permission_check;
+ALTER TABLE document_shares ADD CONSTRAINT document_shares_permission_check
+  CHECK (permission IN ('view', 'comment', 'edit'));
+
+-- Create comment_threads table
+-- anchor_start / anchor_end are encoded Yjs relative positions, so the range
+-- follows the text while the document is edited collaboratively.
+CREATE TABLE IF NOT EXISTS comment_threads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID REFERENCES documents(id) ON DELETE CASCADE NOT NULL,
+  anchor_start TEXT NOT NULL,
+  anchor_end TEXT NOT NULL,
+  quoted_text TEXT NOT NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create comments table
+CREATE TABLE IF NOT EXISTS comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thread_id UUID REFERENCES comment_threads(id) ON DELETE CASCADE NOT NULL,
+  author_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  body TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE comment_threads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE comments ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for comment_threads table
+DROP POLICY IF EXISTS "Users can access comment threads" ON comment_threads;
+CREATE POLICY "Users can access comment threads" ON comment_threads
+  FOR ALL USING (true);
+
+-- Create policies for comments table
+DROP POLICY IF EXISTS "Users can access comments" ON comments;
+CREATE POLICY "Users can access comments" ON comments
+  FOR ALL USING (true);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_comment_threads_document ON comment_threads(document_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_comments_thread ON comments(thread_id, created_at);
@@ -0,0 +1,33 @@
+/*
+  # Page tree
+
+  1. Changes
+    - `documents.parent_id` - Parent page; NULL for top-level pages
+    - `documents.position` - Order among siblings
+    - `documents.inherit_permissions` - Whoever can view the parent page can
+      also view this page
+
+  2. Notes
+    - Deleting a page moves its children up to the deleted page's parent (done
+      by the API); the foreign key only falls back to detaching them
+    - Create indexes for performance
+*/
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES documents(id) ON DELETE SET NULL;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS position INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS inherit_permissions BOOLEAN NOT NULL DEFAULT true;
+
+-- A page can never be its own parent; deeper cycles are rejected by the API
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'documents_parent_not_self'
+      AND conrelid = 'documents'::regclass
+  ) THEN
+    ALTER TABLE documents ADD CONSTRAINT documents_parent_not_self CHECK (parent_id IS NULL OR parent_id <> id);
+  END IF;
+END $$;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_documents_parent ON documents(parent_id, position);
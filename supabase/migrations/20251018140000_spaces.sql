@@ -0,0 +1,60 @@
+/*
+  # Team spaces
+
+  1. New Tables
+    - `spaces` - Team areas such as "Engineering" or "Onboarding"
+    - `space_members` - Members of a space with their role
+      (`admin` manages the space, `editor` can edit its documents,
+      `viewer` can read them)
+
+  2. Changes
+    - `documents.space_id` - Space a document belongs to; NULL for personal
+      documents. Deleting a space hands its documents back to their authors.
+
+  3. Security
+    - Enable RLS on both tables
+    - Add policies for proper access control
+    - Create indexes for performance
+*/
+
+-- Create spaces table
+CREATE TABLE IF NOT EXISTS spaces (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT DEFAULT '',
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create space_members table
+CREATE TABLE IF NOT EXISTS space_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  space_id UUID REFERENCES spaces(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  role TEXT CHECK (role IN ('admin', 'editor', 'viewer')) NOT NULL,
+  added_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(space_id, user_id)
+);
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS space_id UUID REFERENCES spaces(id) ON DELETE SET NULL;
+
+-- Enable RLS
+ALTER TABLE spaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE space_members ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for spaces table
+DROP POLICY IF EXISTS "Users can access spaces" ON spaces;
+CREATE POLICY "Users can access spaces" ON spaces
+  FOR ALL USING (true);
+
+-- Create policies for space_members table
+DROP POLICY IF EXISTS "Users can access space members" ON space_members;
+CREATE POLICY "Users can access space members" ON space_members
+  FOR ALL USING (true);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_space_members_user ON space_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_space_members_space ON space_members(space_id);
+CREATE INDEX IF NOT EXISTS idx_documents_space ON documents(space_id);
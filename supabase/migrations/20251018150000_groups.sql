@@ -0,0 +1,69 @@
+/*
+  # User groups
+
+  1. New Tables
+    - `groups` - Named sets of users such as "Backend team" or "Contractors"
+    - `group_members` - Members of a group with their role (`admin` manages
+      the group and its members, `member` only belongs to it)
+
+  2. Changes
+    - `document_shares.group_id` - A share now targets either a user or a
+      group. Members of the group get the share's permission for as long as
+      they belong to it.
+
+  3. Security
+    - Enable RLS on both tables
+    - Add policies for proper access control
+    - Create indexes for performance
+*/
+
+-- Create groups table
+CREATE TABLE IF NOT EXISTS groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT DEFAULT '',
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create group_members table
+CREATE TABLE IF NOT EXISTS group_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID REFERENCES groups(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  role TEXT CHECK (role IN ('admin', 'member')) NOT NULL DEFAULT 'member',
+  added_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(group_id, user_id)
+);
+
+-- Shares target exactly one user or one group
+ALTER TABLE document_shares ADD COLUMN IF NOT EXISTS group_id UUID REFERENCES groups(id) ON DELETE CASCADE;
+
+ALTER TABLE document_shares DROP CONSTRAINT IF EXISTS document_shares_target_check;
+ALTER TABLE document_shares ADD CONSTRAINT document_shares_target_check
+  CHECK (num_nonnulls(user_id, group_id) = 1);
+
+ALTER TABLE document_shares DROP CONSTRAINT IF EXISTS document_shares_document_id_group_id_key;
+ALTER TABLE document_shares ADD CONSTRAINT document_shares_document_id_group_id_key
+  UNIQUE (document_id, group_id);
+
+-- Enable RLS
+ALTER TABLE groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE group_members ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for groups table
+DROP POLICY IF EXISTS "Users can access groups" ON groups;
+CREATE POLICY "Users can access groups" ON groups
+  FOR ALL USING (true);
+
+-- Create policies for group_members table
+DROP POLICY IF EXISTS "Users can access group members" ON group_members;
+CREATE POLICY "Users can access group members" ON group_members
+  FOR ALL USING (true);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_group_members_user ON group_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_group_members_group ON group_members(group_id);
+CREATE INDEX IF NOT EXISTS idx_document_shares_group ON document_shares(group_id);
@@ -0,0 +1,40 @@
+/*
+  # Share links
+
+  1. New Tables
+    - `share_links` - Links that open a document without an account. Each
+      link has a random token, `view` or `edit` rights, an optional expiry
+      and an optional bcrypt-hashed password. Revoked links keep their row
+      (with `revoked_at` set) so usage stays on record.
+
+  2. Security
+    - Enable RLS on share_links table
+    - Add policies for proper access control
+    - Create indexes for performance
+*/
+
+-- Create share_links table
+CREATE TABLE IF NOT EXISTS share_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID REFERENCES documents(id) ON DELETE CASCADE NOT NULL,
+  token TEXT UNIQUE NOT NULL,
+  permission TEXT CHECK (permission IN ('view', 'edit')) NOT NULL,
+  password_hash TEXT,
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  use_count INTEGER DEFAULT 0 NOT NULL,
+  last_used_at TIMESTAMPTZ,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE share_links ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for share_links table
+DROP POLICY IF EXISTS "Users can access share links" ON share_links;
+CREATE POLICY "Users can access share links" ON share_links
+  FOR ALL USING (true);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_share_links_document ON share_links(document_id);
@@ -0,0 +1,46 @@
+/*
+  # Ranked full-text search
+
+  1. New Functions
+    - `search_documents(search_query)` - Documents matching a `to_tsquery`
+      expression (English configuration), with a relevance rank. Matching
+      goes through the existing `idx_documents_search` index; the rank
+      weights title matches (A) above body matches (B).
+
+  2. Notes
+    - Access control is applied by the API on top of the function's result,
+      so the function returns only the columns those filters need.
+*/
+
+CREATE OR REPLACE FUNCTION search_documents(search_query TEXT)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  author_id UUID,
+  is_public BOOLEAN,
+  space_id UUID,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  rank REAL
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    d.id,
+    d.title,
+    d.author_id,
+    d.is_public,
+    d.space_id,
+    d.created_at,
+    d.updated_at,
+    ts_rank(
+      setweight(to_tsvector('english', d.title), 'A') ||
+        setweight(to_tsvector('english', d.content), 'B'),
+      query,
+      1
+    ) AS rank
+  FROM documents d, to_tsquery('english', search_query) query
+  -- Same expression as idx_documents_search so the index is used
+  WHERE to_tsvector('english', d.title || ' ' || d.content) @@ query
+$$;
@@ -0,0 +1,34 @@
+/*
+  # Document tags
+
+  1. New Tables
+    - `document_tags` - Free-form tags on documents, one row per document and
+      tag. Names are stored normalized (lowercase, hyphens instead of
+      spaces) so "Design Docs" and "design-docs" are the same tag.
+
+  2. Security
+    - Enable RLS on document_tags table
+    - Add policies for proper access control
+    - Create indexes for performance
+*/
+
+-- Create document_tags table
+CREATE TABLE IF NOT EXISTS document_tags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID REFERENCES documents(id) ON DELETE CASCADE NOT NULL,
+  name TEXT CHECK (name = lower(name) AND char_length(name) BETWEEN 1 AND 40) NOT NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(document_id, name)
+);
+
+-- Enable RLS
+ALTER TABLE document_tags ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for document_tags table
+DROP POLICY IF EXISTS "Users can access document tags" ON document_tags;
+CREATE POLICY "Users can access document tags" ON document_tags
+  FOR ALL USING (true);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_document_tags_name ON document_tags(name);
@@ -0,0 +1,42 @@
+/*
+  # Document templates
+
+  1. New Tables
+    - `document_templates` - Templates saved from existing documents. A
+      template with a `space_id` is shared with everyone in that space;
+      without one it is personal to its creator. Title and content may hold
+      placeholders such as {{date}} and {{author}}, filled in when a document
+      is created from the template. Built-in templates live in the backend
+      code and are not stored here.
+
+  2. Security
+    - Enable RLS on document_templates table
+    - Add policies for proper access control
+    - Create indexes for performance
+*/
+
+-- Create document_templates table
+CREATE TABLE IF NOT EXISTS document_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT DEFAULT '',
+  title TEXT NOT NULL,
+  content TEXT NOT NULL,
+  space_id UUID REFERENCES spaces(id) ON DELETE CASCADE,
+  source_document_id UUID REFERENCES documents(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE document_templates ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for document_templates table
+DROP POLICY IF EXISTS "Users can access document templates" ON document_templates;
+CREATE POLICY "Users can access document templates" ON document_templates
+  FOR ALL USING (true);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_document_templates_space ON document_templates(space_id);
+CREATE INDEX IF NOT EXISTS idx_document_templates_created_by ON document_templates(created_by);
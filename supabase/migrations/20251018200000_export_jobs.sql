@@ -0,0 +1,60 @@
+/*
+  # Export jobs
+
+  1. New Tables
+    - `export_jobs` - Background exports requested by a user: a single
+      document as PDF or standalone HTML, or a ZIP archive of every document
+      the user can access (optionally with version history). The backend
+      works through queued jobs, records progress as it goes and stores the
+      finished file in the private `exports` storage bucket under
+      `file_path`. Finished exports are removed once `expires_at` passes.
+
+  2. Storage
+    - Private `exports` bucket; files are only handed out through signed
+      URLs created by the backend
+
+  3. Security
+    - Enable RLS on export_jobs table
+    - Add policies for proper access control
+    - Create indexes for performance
+*/
+
+-- Create export_jobs table
+CREATE TABLE IF NOT EXISTS export_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  format TEXT CHECK (format IN ('pdf', 'html', 'zip')) NOT NULL,
+  document_id UUID REFERENCES documents(id) ON DELETE CASCADE,
+  include_versions BOOLEAN DEFAULT FALSE,
+  status TEXT CHECK (status IN ('queued', 'running', 'completed', 'failed')) NOT NULL DEFAULT 'queued',
+  progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+  processed_items INTEGER NOT NULL DEFAULT 0,
+  total_items INTEGER,
+  file_path TEXT,
+  filename TEXT,
+  file_size BIGINT,
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ
+);
+
+-- Create the storage bucket for finished exports
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('exports', 'exports', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Enable RLS
+ALTER TABLE export_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for export_jobs table
+DROP POLICY IF EXISTS "Users can access export jobs" ON export_jobs;
+CREATE POLICY "Users can access export jobs" ON export_jobs
+  FOR ALL USING (true);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_export_jobs_user ON export_jobs(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_export_jobs_status ON export_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_export_jobs_expires_at ON export_jobs(expires_at);
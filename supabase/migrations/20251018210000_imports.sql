@@ -0,0 +1,103 @@
+/*
+  # Confluence and Notion imports
+
+  1. New Tables
+    - `import_jobs` - Background imports of an uploaded Confluence HTML or
+      Notion Markdown/HTML export ZIP. The archive stays in the private
+      `imports` storage bucket under `upload_path` so the job can be run
+      again. `failures` lists the pages and files that could not be
+      imported as [{ path, message }].
+    - `import_mappings` - Which document each imported page became, per user
+      and source. Running an import again updates those documents instead of
+      creating duplicates.
+    - `attachments` - Files that belong to a document, stored in the private
+      `attachments` storage bucket and served through the API with the
+      document's access rules. `source_path` records where an imported file
+      came from in its archive.
+
+  2. Storage
+    - Private `imports` and `attachments` buckets
+
+  3. Security
+    - Enable RLS on the new tables
+    - Add policies for proper access control
+    - Create indexes for performance
+*/
+
+-- Create attachments table
+CREATE TABLE IF NOT EXISTS attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID REFERENCES documents(id) ON DELETE CASCADE NOT NULL,
+  filename TEXT NOT NULL,
+  content_type TEXT NOT NULL DEFAULT 'application/octet-stream',
+  size BIGINT NOT NULL DEFAULT 0,
+  storage_path TEXT NOT NULL,
+  source_path TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create import_jobs table
+CREATE TABLE IF NOT EXISTS import_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  source TEXT CHECK (source IN ('confluence', 'notion')) NOT NULL,
+  upload_path TEXT NOT NULL,
+  filename TEXT NOT NULL,
+  space_id UUID REFERENCES spaces(id) ON DELETE SET NULL,
+  parent_id UUID REFERENCES documents(id) ON DELETE SET NULL,
+  status TEXT CHECK (status IN ('queued', 'running', 'completed', 'failed')) NOT NULL DEFAULT 'queued',
+  progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+  processed_items INTEGER NOT NULL DEFAULT 0,
+  total_items INTEGER,
+  created_count INTEGER NOT NULL DEFAULT 0,
+  updated_count INTEGER NOT NULL DEFAULT 0,
+  attachment_count INTEGER NOT NULL DEFAULT 0,
+  failures JSONB NOT NULL DEFAULT '[]',
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ
+);
+
+-- Create import_mappings table
+CREATE TABLE IF NOT EXISTS import_mappings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  source TEXT NOT NULL,
+  external_id TEXT NOT NULL,
+  document_id UUID REFERENCES documents(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, source, external_id)
+);
+
+-- Create the storage buckets
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('imports', 'imports', false), ('attachments', 'attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Enable RLS
+ALTER TABLE attachments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE import_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE import_mappings ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for the new tables
+DROP POLICY IF EXISTS "Users can access attachments" ON attachments;
+CREATE POLICY "Users can access attachments" ON attachments
+  FOR ALL USING (true);
+
+DROP POLICY IF EXISTS "Users can access import jobs" ON import_jobs;
+CREATE POLICY "Users can access import jobs" ON import_jobs
+  FOR ALL USING (true);
+
+DROP POLICY IF EXISTS "Users can access import mappings" ON import_mappings;
+CREATE POLICY "Users can access import mappings" ON import_mappings
+  FOR ALL USING (true);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_attachments_document ON attachments(document_id);
+CREATE INDEX IF NOT EXISTS idx_import_jobs_user ON import_jobs(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_import_jobs_status ON import_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_import_mappings_document ON import_mappings(document_id);
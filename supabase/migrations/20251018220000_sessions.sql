@@ -0,0 +1,41 @@
+/*
+  # Sessions
+
+  1. New Tables
+    - `sessions` - One row per signed-in device. Access tokens are short-lived
+      JWTs naming their session; the session's refresh token, stored only as
+      a SHA-256 hash, trades for a new pair and is replaced on every use.
+      `previous_token_hash` recognizes a refresh token presented a second
+      time, which ends the session. Revoked sessions stop working at once.
+
+  2. Security
+    - Enable RLS on sessions table
+    - Add policies for proper access control
+    - Create indexes for performance
+*/
+
+-- Create sessions table
+CREATE TABLE IF NOT EXISTS sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  refresh_token_hash TEXT UNIQUE NOT NULL,
+  previous_token_hash TEXT,
+  user_agent TEXT,
+  ip_address TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ
+);
+
+-- Enable RLS
+ALTER TABLE sessions ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for sessions table
+DROP POLICY IF EXISTS "Users can access sessions" ON sessions;
+CREATE POLICY "Users can access sessions" ON sessions
+  FOR ALL USING (true);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id, last_seen_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sessions_previous_token ON sessions(previous_token_hash);
@@ -0,0 +1,44 @@
+/*
+  # Email verification
+
+  1. New Tables
+    - `email_verifications` - Verification links sent to a new account's
+      address, valid for 24 hours. Verifying the address removes all of the
+      user's links.
+
+  2. Changes
+    - `users.email_verified_at` - When the user confirmed their address;
+      NULL until then. Unverified accounts cannot share documents or be
+      shared with. Accounts created before verification was introduced are
+      treated as verified.
+
+  3. Security
+    - Enable RLS on email_verifications table
+    - Add policies for proper access control
+    - Create indexes for performance
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMPTZ;
+
+UPDATE users SET email_verified_at = created_at WHERE email_verified_at IS NULL;
+
+-- Create email_verifications table
+CREATE TABLE IF NOT EXISTS email_verifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  token TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE email_verifications ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for email_verifications table
+DROP POLICY IF EXISTS "Users can manage their email verifications" ON email_verifications;
+CREATE POLICY "Users can manage their email verifications" ON email_verifications
+  FOR ALL USING (true);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_email_verifications_user ON email_verifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_email_verifications_token ON email_verifications(token);
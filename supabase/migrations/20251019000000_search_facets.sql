@@ -0,0 +1,100 @@
+/*
+  # Search facet counts
+
+  1. New Functions
+    - `search_facets(...)` - Facet counts for a search, as one row per facet
+      value: `author` (by author id), `visibility` (public, private),
+      `ownership` (all, mine, shared) and `updated` (week, month, year).
+      Each facet is counted over the matches the viewer can access with
+      every filter except its own applied.
+
+  2. Notes
+    - Counting happens here rather than in the API so searches with many
+      matches are not cut short by the API's row limit.
+    - A null `search_query` counts over all documents, for tag-only
+      searches; `tagged_ids` narrows the matches when given.
+*/
+
+CREATE OR REPLACE FUNCTION search_facets(
+  search_query TEXT,
+  viewer_id UUID,
+  shared_ids UUID[],
+  space_ids UUID[],
+  author_filter UUID DEFAULT NULL,
+  visibility_filter TEXT DEFAULT NULL,
+  ownership_filter TEXT DEFAULT 'all',
+  updated_from TIMESTAMPTZ DEFAULT NULL,
+  updated_to TIMESTAMPTZ DEFAULT NULL,
+  tagged_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  facet TEXT,
+  value TEXT,
+  count BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH matches AS (
+    SELECT
+      m.author_id,
+      m.is_public,
+      m.updated_at,
+      m.author_id = viewer_id AS is_mine,
+      m.author_id <> viewer_id AND (m.id = ANY(shared_ids) OR m.space_id = ANY(space_ids)) AS is_shared
+    FROM (
+      SELECT s.id, s.author_id, s.is_public, s.space_id, s.updated_at
+      FROM search_documents(search_query) s
+      WHERE search_query IS NOT NULL
+      UNION ALL
+      SELECT d.id, d.author_id, d.is_public, d.space_id, d.updated_at
+      FROM documents d
+      WHERE search_query IS NULL
+    ) m
+    -- Same access rule as the API's accessible documents filter
+    WHERE (m.author_id = viewer_id OR m.is_public OR m.id = ANY(shared_ids) OR m.space_id = ANY(space_ids))
+      AND (tagged_ids IS NULL OR m.id = ANY(tagged_ids))
+  ),
+  filtered AS (
+    SELECT
+      matches.*,
+      (author_filter IS NULL OR author_id = author_filter) AS by_author,
+      (visibility_filter IS NULL OR is_public = (visibility_filter = 'public')) AS by_visibility,
+      CASE ownership_filter
+        WHEN 'mine' THEN is_mine
+        WHEN 'shared' THEN is_shared
+        ELSE true
+      END AS by_ownership,
+      (updated_from IS NULL OR updated_at >= updated_from)
+        AND (updated_to IS NULL OR updated_at < updated_to) AS by_updated
+    FROM matches
+  )
+  SELECT 'author', author_id::TEXT, count(*)
+  FROM filtered
+  WHERE by_visibility AND by_ownership AND by_updated
+  GROUP BY author_id
+
+  UNION ALL
+
+  SELECT 'visibility', CASE WHEN is_public THEN 'public' ELSE 'private' END, count(*)
+  FROM filtered
+  WHERE by_author AND by_ownership AND by_updated
+  GROUP BY is_public
+
+  UNION ALL
+
+  SELECT 'ownership', ownership.value, count(*)
+  FROM filtered,
+    LATERAL (VALUES ('all', true), ('mine', is_mine), ('shared', is_shared)) ownership(value, applies)
+  WHERE ownership.applies AND by_author AND by_visibility AND by_updated
+  GROUP BY ownership.value
+
+  UNION ALL
+
+  SELECT 'updated', ranges.value, count(*)
+  FROM filtered,
+    LATERAL (VALUES ('week', 7), ('month', 30), ('year', 365)) ranges(value, days)
+  WHERE updated_at >= NOW() - make_interval(days => ranges.days)
+    AND by_author AND by_visibility AND by_ownership
+  GROUP BY ranges.value
+$$;
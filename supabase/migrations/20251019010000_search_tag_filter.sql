@@ -0,0 +1,137 @@
+/*
+  # Tag filter in search
+
+  1. Changes
+    - `search_documents(search_query, tag_names)` - Takes the tags a search
+      is narrowed to and keeps only the documents carrying every one of them.
+      A null `search_query` lists every document with those tags, ranked 0,
+      for tag-only searches.
+    - `search_facets(...)` - Takes `tag_names` in place of `tagged_ids` and
+      counts over `search_documents`, so tags narrow the facets the same way.
+
+  2. Notes
+    - Tags used to be resolved to document ids by the API and sent back in
+      the query, which grew with every tagged document in the database. The
+      tag lookup now stays in the database, and the API's access filter
+      still applies on top of the results.
+*/
+
+DROP FUNCTION IF EXISTS search_facets(TEXT, UUID, UUID[], UUID[], UUID, TEXT, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, UUID[]);
+DROP FUNCTION IF EXISTS search_documents(TEXT);
+
+CREATE OR REPLACE FUNCTION search_documents(search_query TEXT, tag_names TEXT[] DEFAULT '{}')
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  author_id UUID,
+  is_public BOOLEAN,
+  space_id UUID,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  rank REAL
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    d.id,
+    d.title,
+    d.author_id,
+    d.is_public,
+    d.space_id,
+    d.created_at,
+    d.updated_at,
+    COALESCE(ts_rank(
+      setweight(to_tsvector('english', d.title), 'A') ||
+        setweight(to_tsvector('english', d.content), 'B'),
+      query,
+      1
+    ), 0) AS rank
+  FROM documents d, to_tsquery('english', search_query) query
+  -- Same expression as idx_documents_search so the index is used
+  WHERE (search_query IS NULL OR to_tsvector('english', d.title || ' ' || d.content) @@ query)
+    AND (
+      cardinality(tag_names) = 0 OR d.id IN (
+        SELECT t.document_id
+        FROM document_tags t
+        WHERE t.name = ANY(tag_names)
+        GROUP BY t.document_id
+        HAVING count(DISTINCT t.name) = (SELECT count(DISTINCT name) FROM unnest(tag_names) name)
+      )
+    )
+$$;
+
+CREATE OR REPLACE FUNCTION search_facets(
+  search_query TEXT,
+  viewer_id UUID,
+  shared_ids UUID[],
+  space_ids UUID[],
+  author_filter UUID DEFAULT NULL,
+  visibility_filter TEXT DEFAULT NULL,
+  ownership_filter TEXT DEFAULT 'all',
+  updated_from TIMESTAMPTZ DEFAULT NULL,
+  updated_to TIMESTAMPTZ DEFAULT NULL,
+  tag_names TEXT[] DEFAULT '{}'
+)
+RETURNS TABLE (
+  facet TEXT,
+  value TEXT,
+  count BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH matches AS (
+    SELECT
+      m.author_id,
+      m.is_public,
+      m.updated_at,
+      m.author_id = viewer_id AS is_mine,
+      m.author_id <> viewer_id AND (m.id = ANY(shared_ids) OR m.space_id = ANY(space_ids)) AS is_shared
+    FROM search_documents(search_query, tag_names) m
+    -- Same access rule as the API's accessible documents filter
+    WHERE m.author_id = viewer_id OR m.is_public OR m.id = ANY(shared_ids) OR m.space_id = ANY(space_ids)
+  ),
+  filtered AS (
+    SELECT
+      matches.*,
+      (author_filter IS NULL OR author_id = author_filter) AS by_author,
+      (visibility_filter IS NULL OR is_public = (visibility_filter = 'public')) AS by_visibility,
+      CASE ownership_filter
+        WHEN 'mine' THEN is_mine
+        WHEN 'shared' THEN is_shared
+        ELSE true
+      END AS by_ownership,
+      (updated_from IS NULL OR updated_at >= updated_from)
+        AND (updated_to IS NULL OR updated_at < updated_to) AS by_updated
+    FROM matches
+  )
+  SELECT 'author', author_id::TEXT, count(*)
+  FROM filtered
+  WHERE by_visibility AND by_ownership AND by_updated
+  GROUP BY author_id
+
+  UNION ALL
+
+  SELECT 'visibility', CASE WHEN is_public THEN 'public' ELSE 'private' END, count(*)
+  FROM filtered
+  WHERE by_author AND by_ownership AND by_updated
+  GROUP BY is_public
+
+  UNION ALL
+
+  SELECT 'ownership', ownership.value, count(*)
+  FROM filtered,
+    LATERAL (VALUES ('all', true), ('mine', is_mine), ('shared', is_shared)) ownership(value, applies)
+  WHERE ownership.applies AND by_author AND by_visibility AND by_updated
+  GROUP BY ownership.value
+
+  UNION ALL
+
+  SELECT 'updated', ranges.value, count(*)
+  FROM filtered,
+    LATERAL (VALUES ('week', 7), ('month', 30), ('year', 365)) ranges(value, days)
+  WHERE updated_at >= NOW() - make_interval(days => ranges.days)
+    AND by_author AND by_visibility AND by_ownership
+  GROUP BY ranges.value
+$$;
@@ -0,0 +1,44 @@
+/*
+  # Hashed share link tokens
+
+  1. Changes
+    - `share_links.token_hash` - SHA-256 (hex) of the link token, which
+      replaces the token itself. Like refresh tokens, share tokens are only
+      known to whoever holds the link; the author sees the link once, when it
+      is created. Existing links are hashed and keep working.
+    - `share_links.token` - Dropped.
+
+  2. New Functions
+    - `record_share_link_use(link_id)` - Counts a use of a link in a single
+      statement, so opens at the same time are all counted.
+*/
+
+ALTER TABLE share_links ADD COLUMN IF NOT EXISTS token_hash TEXT;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'share_links' AND column_name = 'token'
+  ) THEN
+    UPDATE share_links
+    SET token_hash = encode(sha256(convert_to(token, 'UTF8')), 'hex')
+    WHERE token_hash IS NULL;
+
+    ALTER TABLE share_links DROP COLUMN token;
+  END IF;
+END $$;
+
+ALTER TABLE share_links ALTER COLUMN token_hash SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_share_links_token_hash ON share_links(token_hash);
+
+CREATE OR REPLACE FUNCTION record_share_link_use(link_id UUID)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  UPDATE share_links
+  SET use_count = use_count + 1,
+      last_used_at = NOW()
+  WHERE id = link_id
+$$;
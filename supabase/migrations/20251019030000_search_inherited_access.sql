@@ -0,0 +1,157 @@
+/*
+  # Inherited access in search
+
+  1. Changes
+    - `search_documents(search_query, tag_names, viewer_id, shared_ids,
+      space_ids)` - Returns only the documents the viewer can open: their
+      own, public ones, those shared with them (`shared_ids`, directly or
+      through a group), those in their spaces (`space_ids`), and pages that
+      inherit access from a parent they can open, at any depth.
+    - `search_facets(...)` - Counts over the same documents, through
+      `search_documents`.
+
+  2. Notes
+    - The API used to filter the results by access itself, which left out
+      pages reached only through an inheriting parent: they could be opened
+      but not found.
+*/
+
+DROP FUNCTION IF EXISTS search_facets(TEXT, UUID, UUID[], UUID[], UUID, TEXT, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, TEXT[]);
+DROP FUNCTION IF EXISTS search_documents(TEXT, TEXT[]);
+
+CREATE OR REPLACE FUNCTION search_documents(
+  search_query TEXT,
+  tag_names TEXT[],
+  viewer_id UUID,
+  shared_ids UUID[],
+  space_ids UUID[]
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  author_id UUID,
+  is_public BOOLEAN,
+  space_id UUID,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  rank REAL
+)
+LANGUAGE sql
+STABLE
+AS $$
+  -- Documents the viewer reaches directly, then the pages inheriting from
+  -- them; UNION drops repeats, so a corrupted parent chain cannot loop
+  WITH RECURSIVE accessible(document_id) AS (
+    SELECT a.id
+    FROM documents a
+    WHERE a.author_id = viewer_id
+      OR a.is_public
+      OR a.id = ANY(shared_ids)
+      OR a.space_id = ANY(space_ids)
+    UNION
+    SELECT c.id
+    FROM documents c
+    JOIN accessible p ON c.parent_id = p.document_id
+    WHERE c.inherit_permissions
+  )
+  SELECT
+    d.id,
+    d.title,
+    d.author_id,
+    d.is_public,
+    d.space_id,
+    d.created_at,
+    d.updated_at,
+    COALESCE(ts_rank(
+      setweight(to_tsvector('english', d.title), 'A') ||
+        setweight(to_tsvector('english', d.content), 'B'),
+      query,
+      1
+    ), 0) AS rank
+  FROM documents d, to_tsquery('english', search_query) query
+  -- Same expression as idx_documents_search so the index is used
+  WHERE (search_query IS NULL OR to_tsvector('english', d.title || ' ' || d.content) @@ query)
+    AND d.id IN (SELECT accessible.document_id FROM accessible)
+    AND (
+      cardinality(tag_names) = 0 OR d.id IN (
+        SELECT t.document_id
+        FROM document_tags t
+        WHERE t.name = ANY(tag_names)
+        GROUP BY t.document_id
+        HAVING count(DISTINCT t.name) = (SELECT count(DISTINCT name) FROM unnest(tag_names) name)
+      )
+    )
+$$;
+
+CREATE OR REPLACE FUNCTION search_facets(
+  search_query TEXT,
+  viewer_id UUID,
+  shared_ids UUID[],
+  space_ids UUID[],
+  author_filter UUID DEFAULT NULL,
+  visibility_filter TEXT DEFAULT NULL,
+  ownership_filter TEXT DEFAULT 'all',
+  updated_from TIMESTAMPTZ DEFAULT NULL,
+  updated_to TIMESTAMPTZ DEFAULT NULL,
+  tag_names TEXT[] DEFAULT '{}'
+)
+RETURNS TABLE (
+  facet TEXT,
+  value TEXT,
+  count BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH matches AS (
+    SELECT
+      m.author_id,
+      m.is_public,
+      m.updated_at,
+      m.author_id = viewer_id AS is_mine,
+      m.author_id <> viewer_id AND (m.id = ANY(shared_ids) OR m.space_id = ANY(space_ids)) AS is_shared
+    FROM search_documents(search_query, tag_names, viewer_id, shared_ids, space_ids) m
+  ),
+  filtered AS (
+    SELECT
+      matches.*,
+      (author_filter IS NULL OR author_id = author_filter) AS by_author,
+      (visibility_filter IS NULL OR is_public = (visibility_filter = 'public')) AS by_visibility,
+      CASE ownership_filter
+        WHEN 'mine' THEN is_mine
+        WHEN 'shared' THEN is_shared
+        ELSE true
+      END AS by_ownership,
+      (updated_from IS NULL OR updated_at >= updated_from)
+        AND (updated_to IS NULL OR updated_at < updated_to) AS by_updated
+    FROM matches
+  )
+  SELECT 'author', author_id::TEXT, count(*)
+  FROM filtered
+  WHERE by_visibility AND by_ownership AND by_updated
+  GROUP BY author_id
+
+  UNION ALL
+
+  SELECT 'visibility', CASE WHEN is_public THEN 'public' ELSE 'private' END, count(*)
+  FROM filtered
+  WHERE by_author AND by_ownership AND by_updated
+  GROUP BY is_public
+
+  UNION ALL
+
+  SELECT 'ownership', ownership.value, count(*)
+  FROM filtered,
+    LATERAL (VALUES ('all', true), ('mine', is_mine), ('shared', is_shared)) ownership(value, applies)
+  WHERE ownership.applies AND by_author AND by_visibility AND by_updated
+  GROUP BY ownership.value
+
+  UNION ALL
+
+  SELECT 'updated', ranges.value, count(*)
+  FROM filtered,
+    LATERAL (VALUES ('week', 7), ('month', 30), ('year', 365)) ranges(value, days)
+  WHERE updated_at >= NOW() - make_interval(days => ranges.days)
+    AND by_author AND by_visibility AND by_ownership
+  GROUP BY ranges.value
+$$;
@@ -0,0 +1,16 @@
+/*
+  # Job leases
+
+  1. Changes
+    - `export_jobs.attempt_id`, `import_jobs.attempt_id` - Set to a fresh id
+      each time a worker claims the job. The worker only writes to the job
+      while the id is still its own and renews `updated_at` while it works,
+      so a job put back in the queue after its worker went quiet is never
+      finished twice.
+
+  2. Security
+    - No changes; both tables keep their policies
+*/
+
+ALTER TABLE export_jobs ADD COLUMN IF NOT EXISTS attempt_id UUID;
+ALTER TABLE import_jobs ADD COLUMN IF NOT EXISTS attempt_id UUID;
@@ -0,0 +1,18 @@
+/*
+  # Imported document versions
+
+  1. Changes
+    - `import_mappings.document_version` - The document version the import
+      last wrote. Running the import again leaves a document alone when its
+      version has moved on since, so edits made after an import are not
+      overwritten; the page is listed in the job's failures instead.
+      Existing mappings take the document's current version.
+*/
+
+ALTER TABLE import_mappings ADD COLUMN IF NOT EXISTS document_version INTEGER;
+
+UPDATE import_mappings
+SET document_version = documents.version
+FROM documents
+WHERE documents.id = import_mappings.document_id
+  AND import_mappings.document_version IS NULL;